@@ -3,14 +3,83 @@ import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import chalk from "chalk";
 import { debug } from "../index";
+import {
+  getProvider,
+  getProviderNames,
+  DEFAULT_PROVIDER,
+  FileProviderOptions,
+} from "../data/providers";
+import {
+  Interval,
+  DEFAULT_INTERVAL,
+  SUPPORTED_INTERVALS,
+  isIntraday,
+  barsPerDay,
+  describeBars,
+} from "../data/intervals";
+import { getMaxHistoryDays } from "../data/fetchPrices";
+import { DEFAULT_QUOTE, normalizeQuote, formatPair } from "../data/quotes";
+import { hasCoinListing, resolveCoinId } from "../data/symbols";
+import { DEFAULT_CONSENSUS_TOLERANCE } from "../data/consensus";
+import {
+  IndicatorParams,
+  resolveIndicatorParams,
+  parseIndicatorParams,
+  loadIndicatorParamsFile,
+  mergeIndicatorParamOverrides,
+  describeCustomParams,
+} from "../indicators/params";
+import {
+  getIndicatorIds,
+  parseIndicatorSelection,
+} from "../indicators/registry";
+import { loadIndicatorPlugins } from "../indicators/plugins";
+import {
+  DEFAULT_BENCHMARK_BARS,
+  DEFAULT_BENCHMARK_RUNS,
+} from "../indicators/benchmark";
+import {
+  RepairPolicy,
+  REPAIR_POLICIES,
+  DEFAULT_REPAIR_POLICY,
+} from "../data/quality";
+
+// Top-level commands (forecast is the default when none is given)
+export type CLICommand =
+  | "forecast"
+  | "cache"
+  | "search"
+  | "watch"
+  | "benchmark";
+export type CacheAction = "clear" | "stats";
 
 // CLI configuration interface
 export interface CLIConfig {
-  coin: string;
-  forecast: number;
-  range: number;
+  command: CLICommand;
+  cacheAction?: CacheAction; // Set for `cache clear|stats`
+  searchTerm?: string; // Set for `search [term]`
+  refreshListing?: boolean; // Download the coin list before searching
+  pollSeconds?: number; // Set for `watch`: delay between live price polls
+  maxTicks?: number; // Set for `watch`: stop after this many ticks (0 = never)
+  benchmarkBars?: number[]; // Set for `benchmark`: series lengths to time
+  benchmarkRuns?: number; // Set for `benchmark`: timed runs per indicator
+  coin: string; // Empty when a command does not need one
+  useCache: boolean; // false with --no-cache
+  forecast: number; // Bars to forecast (days for the default 1d interval)
+  range: number; // History length in days
+  interval: Interval;
+  quote: string; // Quote currency code (USD, EUR, BTC, ...)
+  repair: RepairPolicy; // How gaps and outliers in the data are repaired
+  provider: string; // The first consensus source when --providers is set
+  providers?: string[]; // Consensus sources (two or more)
+  tolerance: number; // Consensus disagreement threshold (0.02 = 2%)
+  indicatorParams: IndicatorParams; // Defaults with config file and CLI overrides
+  indicators: string[]; // Indicator ids to calculate (all registered by default)
+  fileOptions?: FileProviderOptions; // Set when reading prices from --file
   save?: boolean;
   compare?: boolean;
+  record?: string; // Directory to record raw API responses to
+  replay?: string; // Directory of a recording to serve responses from
 }
 
 // Performance: Cache for validated configurations
@@ -19,55 +88,30 @@ const configCache = new Map<string, CLIConfig>();
 // Performance: Memoize validation results
 const validationCache = new Map<string, { valid: boolean; error?: string }>();
 
-// Supported cryptocurrencies (expandable)
-const SUPPORTED_COINS = [
-  // Major cryptocurrencies
-  "BTC",
-  "ETH",
-  "SOL",
-  "ADA",
-  "DOT",
-  "MATIC",
-  "AVAX",
-  "LINK",
-  "UNI",
-  "ATOM",
-  // Meme tokens
-  "PEPE",
-  "FLOKI",
-  "SHIB",
-  "DOGE",
-  "BONK",
-  "TRUMP",
-  "FARTCOIN",
-  // Layer 1 / Ecosystem tokens
-  "SUI",
-  "SEI",
-  "JUP",
-  // Tool / Utility coins
-  "SNORT",
-  "SPY",
-  "BEST",
-  "TOKEN6900",
-];
-
 // Validation functions with memoization
-function validateCoin(coin: string): { valid: boolean; error?: string } {
-  const cacheKey = `coin:${coin}`;
+function validateCoin(
+  coin: string,
+  provider: string
+): { valid: boolean; error?: string } {
+  const cacheKey = `coin:${coin}:${provider}`;
 
   if (validationCache.has(cacheKey)) {
     return validationCache.get(cacheKey)!;
   }
 
-  const upperCoin = coin.toUpperCase();
-  const result = SUPPORTED_COINS.includes(upperCoin)
-    ? { valid: true }
-    : {
+  // Providers without a coin listing check symbols against their own data
+  const priceProvider = getProvider(provider);
+  let result: { valid: boolean; error?: string } = { valid: true };
+  if (hasCoinListing(priceProvider)) {
+    try {
+      resolveCoinId(priceProvider, coin);
+    } catch (error) {
+      result = {
         valid: false,
-        error: `Unsupported coin: ${coin}. Supported: ${SUPPORTED_COINS.join(
-          ", "
-        )}`,
+        error: error instanceof Error ? error.message : String(error),
       };
+    }
+  }
 
   validationCache.set(cacheKey, result);
   return result;
@@ -94,25 +138,210 @@ function validateForecast(forecast: number): {
   return result;
 }
 
-function validateRange(range: number): { valid: boolean; error?: string } {
-  const cacheKey = `range:${range}`;
+function validateRange(
+  range: number,
+  interval: Interval,
+  provider: string
+): { valid: boolean; error?: string } {
+  const cacheKey = `range:${range}:${interval}:${provider}`;
 
   if (validationCache.has(cacheKey)) {
     return validationCache.get(cacheKey)!;
   }
 
+  // Intraday bars give enough data points from a single day of history;
+  // weekly and monthly bars need enough days for 20 bars of indicators
+  const minRange = isIntraday(interval)
+    ? 1
+    : Math.max(30, Math.ceil(20 / barsPerDay(interval)));
+  const maxRange = getMaxHistoryDays(provider, interval);
   const result =
-    range >= 30 && range <= 365
+    range >= minRange && range <= maxRange
       ? { valid: true }
       : {
           valid: false,
-          error: `Range must be between 30 and 365 days. Got: ${range}`,
+          error:
+            minRange > maxRange
+              ? `${interval} bars need at least ${minRange} days of history, more than the ${maxRange} days ${provider} provides`
+              : maxRange === Infinity
+              ? `Range must be at least ${minRange} days for ${interval} bars. Got: ${range}`
+              : `Range must be between ${minRange} and ${maxRange} days for ${interval} bars with ${provider}. Got: ${range}`,
         };
 
   validationCache.set(cacheKey, result);
   return result;
 }
 
+function validateQuote(
+  quote: string,
+  coin: string,
+  provider: string
+): { valid: boolean; error?: string } {
+  const cacheKey = `quote:${quote}:${coin}:${provider}`;
+
+  if (validationCache.has(cacheKey)) {
+    return validationCache.get(cacheKey)!;
+  }
+
+  const supported = getProvider(provider).supportedQuotes;
+  const result =
+    quote === coin
+      ? { valid: false, error: `Cannot quote ${coin} in itself` }
+      : supported && !supported.includes(quote)
+      ? {
+          valid: false,
+          error: `Unsupported quote currency for ${provider}: ${quote}. Supported: ${supported.join(
+            ", "
+          )}`,
+        }
+      : { valid: true };
+
+  validationCache.set(cacheKey, result);
+  return result;
+}
+
+function validateProvider(provider: string): {
+  valid: boolean;
+  error?: string;
+} {
+  const cacheKey = `provider:${provider}`;
+
+  if (validationCache.has(cacheKey)) {
+    return validationCache.get(cacheKey)!;
+  }
+
+  const providers = getProviderNames();
+  const result = providers.includes(provider)
+    ? { valid: true }
+    : {
+        valid: false,
+        error: `Unknown provider: ${provider}. Available: ${providers.join(
+          ", "
+        )}`,
+      };
+
+  validationCache.set(cacheKey, result);
+  return result;
+}
+
+function validateConsensus(
+  providers: string[],
+  tolerance: number
+): { valid: boolean; error?: string } {
+  const cacheKey = `consensus:${providers.join(",")}:${tolerance}`;
+
+  if (validationCache.has(cacheKey)) {
+    return validationCache.get(cacheKey)!;
+  }
+
+  const result =
+    new Set(providers).size < 2
+      ? {
+          valid: false,
+          error: `A consensus needs at least two different providers. Got: ${providers.join(
+            ", "
+          )}`,
+        }
+      : !(tolerance > 0 && tolerance < 1)
+      ? {
+          valid: false,
+          error: `Tolerance must be between 0 and 100 percent. Got: ${
+            tolerance * 100
+          }`,
+        }
+      : { valid: true };
+
+  validationCache.set(cacheKey, result);
+  return result;
+}
+
+function validateWatch(
+  pollSeconds: number,
+  maxTicks: number
+): { valid: boolean; error?: string } {
+  const cacheKey = `watch:${pollSeconds}:${maxTicks}`;
+
+  if (validationCache.has(cacheKey)) {
+    return validationCache.get(cacheKey)!;
+  }
+
+  const result = !(pollSeconds >= 1)
+    ? {
+        valid: false,
+        error: `Poll interval must be at least 1 second. Got: ${pollSeconds}`,
+      }
+    : !(Number.isInteger(maxTicks) && maxTicks >= 0)
+    ? {
+        valid: false,
+        error: `Ticks must be a whole number (0 to watch until stopped). Got: ${maxTicks}`,
+      }
+    : { valid: true };
+
+  validationCache.set(cacheKey, result);
+  return result;
+}
+
+// Largest benchmark series; 1M bars already take a few hundred MB
+const MAX_BENCHMARK_BARS = 1000000;
+
+function validateBenchmark(
+  bars: number[],
+  runs: number
+): { valid: boolean; error?: string } {
+  const cacheKey = `benchmark:${bars.join(",")}:${runs}`;
+
+  if (validationCache.has(cacheKey)) {
+    return validationCache.get(cacheKey)!;
+  }
+
+  const invalidBars = bars.find(
+    (count) =>
+      !Number.isInteger(count) || count < 100 || count > MAX_BENCHMARK_BARS
+  );
+  const result =
+    bars.length === 0 || invalidBars !== undefined
+      ? {
+          valid: false,
+          error: `Bars must be whole numbers from 100 to ${MAX_BENCHMARK_BARS}. Got: ${
+            invalidBars ?? "none"
+          }`,
+        }
+      : !(Number.isInteger(runs) && runs >= 1 && runs <= 20)
+      ? {
+          valid: false,
+          error: `Runs must be a whole number from 1 to 20. Got: ${runs}`,
+        }
+      : { valid: true };
+
+  validationCache.set(cacheKey, result);
+  return result;
+}
+
+// Parse "--columns date=Time,close=Last" into a field -> column mapping
+function parseColumnMapping(
+  value: string
+): FileProviderOptions["columns"] {
+  const mapping: Record<string, string> = {};
+  const fields = ["date", "open", "close", "high", "low", "volume", "symbol"];
+
+  value
+    .split(",")
+    .filter((pair) => pair.trim() !== "")
+    .forEach((pair) => {
+      const [field, column] = pair.split("=").map((part) => part.trim());
+      if (!fields.includes(field) || !column) {
+        throw new Error(
+          `Invalid column mapping "${pair}". Use field=column with fields: ${fields.join(
+            ", "
+          )}`
+        );
+      }
+      mapping[field] = column;
+    });
+
+  return mapping;
+}
+
 // Display CLI banner
 function displayBanner() {
   console.log(
@@ -136,6 +365,21 @@ Examples:
   crypto-forecast --coin ETH --forecast 30 --range 90 # 30-day ETH forecast with 90-day history
   crypto-forecast --coin SOL --forecast 20 --save    # Save forecast to file
   crypto-forecast --coin BTC --forecast 10 --compare # Compare with historical accuracy
+  crypto-forecast --coin BTC --provider coingecko    # Choose the price data provider
+  crypto-forecast --coin ETH --file prices.csv       # Analyze a local CSV/JSON export
+  crypto-forecast --coin ETH --providers coingecko,file --file eth.csv # Cross-check two feeds
+  crypto-forecast --coin BTC --interval 1h --range 7 # Forecast the next 10 hours
+  crypto-forecast --coin SOL --quote BTC             # Analyze the SOL/BTC ratio
+  crypto-forecast --coin ETH --repair interpolate    # Interpolate missing bars and spikes
+  crypto-forecast --coin BTC --indicator-params rsi.period=21 # Tune indicator parameters
+  crypto-forecast --coin BTC --record runs/btc       # Record API responses for later replay
+  crypto-forecast --coin BTC --replay runs/btc       # Re-run offline from a recording
+  crypto-forecast --coin BTC --no-cache              # Bypass the on-disk price cache
+  crypto-forecast watch --coin BTC --interval 1h     # Follow live prices and signals
+  crypto-forecast search trump                       # Find coins by ticker or name
+  crypto-forecast search --refresh                   # Download the full coin list
+  crypto-forecast cache stats                        # Show cached price series
+  crypto-forecast cache clear --coin BTC             # Remove cached BTC prices
 `)
   );
 }
@@ -155,25 +399,130 @@ export function parseArguments(): CLIConfig {
   const argv = yargs(hideBin(process.argv))
     .scriptName("crypto-forecast")
     .usage("Usage: $0 --coin <symbol> --forecast <days> [options]")
+    .command("$0", "Forecast a cryptocurrency")
+    .command("cache <action>", "Manage the on-disk price cache", (cmd) =>
+      cmd.positional("action", {
+        type: "string",
+        description: "clear (optionally only --coin) or stats",
+        choices: ["clear", "stats"],
+      })
+    )
+    .command("search [term]", "Find coins by ticker or name", (cmd) =>
+      cmd.positional("term", {
+        type: "string",
+        description: "Ticker, name or provider id to look for",
+      })
+    )
+    .command(
+      "watch",
+      "Follow live prices and redraw the analysis when the signal changes"
+    )
+    .command(
+      "benchmark",
+      "Time every indicator on synthetic series (10k and 100k bars by default)"
+    )
     .option("coin", {
       alias: "c",
       type: "string",
       description: "Cryptocurrency symbol (e.g., BTC, ETH, SOL)",
-      demandOption: true,
     })
     .option("forecast", {
       alias: "f",
       type: "number",
-      description: "Number of days to forecast (10, 20, or 30)",
+      description:
+        "Number of bars to forecast (10, 20, or 30; days for 1d bars)",
       default: 10,
       choices: [10, 20, 30],
     })
     .option("range", {
       alias: "r",
       type: "number",
-      description: "Historical data range in days (30-365)",
+      description:
+        "Historical data range in days (min 30, 1 intraday; max set by provider)",
       default: 60,
     })
+    .option("interval", {
+      alias: "i",
+      type: "string",
+      description: "Bar interval",
+      default: DEFAULT_INTERVAL,
+      choices: SUPPORTED_INTERVALS,
+    })
+    .option("quote", {
+      alias: "q",
+      type: "string",
+      description: "Quote currency for prices (USD, EUR, BTC, ETH, ...)",
+      default: DEFAULT_QUOTE,
+    })
+    .option("repair", {
+      type: "string",
+      description:
+        "Repair gaps and price spikes: ffill, interpolate, drop (spikes) or none",
+      default: DEFAULT_REPAIR_POLICY,
+      choices: REPAIR_POLICIES,
+    })
+    .option("provider", {
+      alias: "p",
+      type: "string",
+      description: "Price data provider",
+      default: DEFAULT_PROVIDER,
+      choices: getProviderNames(),
+    })
+    .option("providers", {
+      type: "string",
+      description:
+        "Cross-check two or more providers and use their median, e.g. coingecko,file",
+    })
+    .option("tolerance", {
+      type: "number",
+      description: "Consensus disagreement threshold in percent",
+      default: DEFAULT_CONSENSUS_TOLERANCE * 100,
+    })
+    .option("indicators", {
+      type: "string",
+      description:
+        "Indicators to calculate, e.g. RSI,MACD,BOLLINGER (default: all)",
+    })
+    .option("plugins", {
+      type: "string",
+      description:
+        "Directory of indicator plugins to load (none are loaded without it)",
+    })
+    .option("indicator-params", {
+      type: "string",
+      description:
+        "Indicator parameters, e.g. rsi.period=21,bollinger.multiplier=2.5",
+    })
+    .option("indicator-config", {
+      type: "string",
+      description:
+        "JSON file of indicator parameters (--indicator-params overrides it)",
+    })
+    .option("file", {
+      type: "string",
+      description: "Read prices from a local CSV/JSON file (implies --provider file)",
+    })
+    .option("columns", {
+      type: "string",
+      description:
+        "File column mapping, e.g. date=Time,close=Last,volume=Vol",
+    })
+    .option("date-format", {
+      type: "string",
+      description:
+        "File date format: auto, unix, unix_ms or a pattern like DD/MM/YYYY",
+      default: "auto",
+    })
+    .option("delimiter", {
+      type: "string",
+      description: "CSV delimiter for --file",
+      default: ",",
+    })
+    .option("cache", {
+      type: "boolean",
+      description: "Use the on-disk price cache (--no-cache to bypass it)",
+      default: true,
+    })
     .option("save", {
       alias: "s",
       type: "boolean",
@@ -185,6 +534,48 @@ export function parseArguments(): CLIConfig {
       description: "Compare with historical accuracy (backtest)",
       default: false,
     })
+    .option("record", {
+      type: "string",
+      description: "Record raw API responses to a directory",
+    })
+    .option("replay", {
+      type: "string",
+      description: "Serve API responses from a recorded directory (offline)",
+    })
+    .conflicts("record", "replay")
+    .option("poll", {
+      type: "number",
+      description: "Seconds between live price polls (watch)",
+      default: 15,
+    })
+    .option("ticks", {
+      type: "number",
+      description: "Stop watching after this many price ticks (0 = never)",
+      default: 0,
+    })
+    .option("bars", {
+      type: "string",
+      description: "Series lengths to time, e.g. 10000,100000 (benchmark)",
+      default: DEFAULT_BENCHMARK_BARS.join(","),
+    })
+    .option("runs", {
+      type: "number",
+      description: "Timed runs per indicator and length (benchmark)",
+      default: DEFAULT_BENCHMARK_RUNS,
+    })
+    .option("refresh", {
+      type: "boolean",
+      description: "Download the provider's full coin list (search)",
+      default: false,
+    })
+    .check((args) =>
+      args._[0] === "cache" ||
+      args._[0] === "search" ||
+      args._[0] === "benchmark" ||
+      args.coin
+        ? true
+        : "Missing required argument: coin"
+    )
     .example("$0 --coin BTC --forecast 10", "Forecast BTC for 10 days")
     .example(
       "$0 --coin ETH --forecast 30 --range 90",
@@ -196,14 +587,105 @@ export function parseArguments(): CLIConfig {
     .epilog(
       "For more information, visit: https://github.com/your-repo/crypto-forecast"
     )
+    .example(
+      "$0 --coin BTC --interval 1h --range 7",
+      "Forecast the next 10 hours from a week of hourly bars"
+    )
+    .example("$0 --coin SOL --quote BTC", "Forecast SOL priced in BTC")
+    .example(
+      "$0 watch --coin BTC --interval 1h --poll 10",
+      "Poll BTC every 10 seconds and follow the combined signal"
+    )
+    .example("$0 search trump", "List coins matching TRUMP")
+    .example("$0 cache stats", "Show cached price series")
+    .example(
+      "$0 --coin ETH --indicators rsi,macd,bollinger",
+      "Forecast ETH from three indicators only"
+    )
+    .example(
+      "$0 benchmark --bars 100000 --indicator-params ichimoku.senkouBPeriod=520",
+      "Time every indicator on 100k bars with a long Ichimoku lookback"
+    )
     .parseSync();
 
+  const command: CLICommand =
+    argv._[0] === "cache" ||
+    argv._[0] === "search" ||
+    argv._[0] === "watch" ||
+    argv._[0] === "benchmark"
+      ? argv._[0]
+      : "forecast";
+
+  // Plugins have to be registered before indicator names are checked
+  if (argv.plugins !== undefined) {
+    loadIndicatorPlugins(argv.plugins);
+  }
+
+  const providers = argv.providers
+    ? argv.providers
+        .split(",")
+        .map((name) => name.trim().toLowerCase())
+        .filter((name) => name !== "")
+    : undefined;
+
   const config: CLIConfig = {
-    coin: argv.coin.toUpperCase(),
+    command,
+    cacheAction:
+      command === "cache" ? (argv.action as CacheAction) : undefined,
+    searchTerm:
+      command === "search" ? String(argv.term ?? argv.coin ?? "") : undefined,
+    refreshListing: command === "search" ? argv.refresh : undefined,
+    pollSeconds: command === "watch" ? argv.poll : undefined,
+    maxTicks: command === "watch" ? argv.ticks : undefined,
+    benchmarkBars:
+      command === "benchmark"
+        ? argv.bars
+            .split(",")
+            .filter((count) => count.trim() !== "")
+            .map(Number)
+        : undefined,
+    benchmarkRuns: command === "benchmark" ? argv.runs : undefined,
+    coin: argv.coin ? argv.coin.toUpperCase() : "",
+    // Recordings must see every response, and replays must not read
+    // newer cached candles
+    useCache: argv.cache && !argv.record && !argv.replay,
     forecast: argv.forecast,
     range: argv.range,
+    interval: argv.interval as Interval,
+    quote: normalizeQuote(argv.quote),
+    repair: argv.repair as RepairPolicy,
+    provider: providers
+      ? providers[0]
+      : argv.file
+      ? "file"
+      : argv.provider.toLowerCase(),
+    providers,
+    tolerance: argv.tolerance / 100,
+    indicatorParams: resolveIndicatorParams(
+      mergeIndicatorParamOverrides(
+        argv["indicator-config"]
+          ? loadIndicatorParamsFile(argv["indicator-config"])
+          : {},
+        argv["indicator-params"]
+          ? parseIndicatorParams(argv["indicator-params"])
+          : {}
+      )
+    ),
+    indicators: argv.indicators
+      ? parseIndicatorSelection(argv.indicators)
+      : getIndicatorIds(),
+    fileOptions: argv.file
+      ? {
+          filePath: argv.file,
+          columns: argv.columns ? parseColumnMapping(argv.columns) : undefined,
+          dateFormat: argv["date-format"],
+          delimiter: argv.delimiter,
+        }
+      : undefined,
     save: argv.save,
     compare: argv.compare,
+    record: argv.record,
+    replay: argv.replay,
   };
 
   // Cache the parsed configuration
@@ -216,12 +698,26 @@ export function parseArguments(): CLIConfig {
 export function validateConfiguration(config: CLIConfig): void {
   debug.log("Validating CLI configuration...", config);
 
-  // Validate coin
-  const coinValidation = validateCoin(config.coin);
-  if (!coinValidation.valid) {
-    debug.error("Invalid coin:", coinValidation.error);
-    console.error(chalk.red(`❌ ${coinValidation.error}`));
-    process.exit(1);
+  // Cache maintenance only uses --coin as an optional filter, and search
+  // reports unknown terms itself
+  if (config.command === "cache" || config.command === "search") {
+    debug.success("CLI configuration validated successfully");
+    return;
+  }
+
+  // Benchmarks run on generated bars, so only their own options matter
+  if (config.command === "benchmark") {
+    const benchmarkValidation = validateBenchmark(
+      config.benchmarkBars!,
+      config.benchmarkRuns!
+    );
+    if (!benchmarkValidation.valid) {
+      debug.error("Invalid benchmark options:", benchmarkValidation.error);
+      console.error(chalk.red(`❌ ${benchmarkValidation.error}`));
+      process.exit(1);
+    }
+    debug.success("CLI configuration validated successfully");
+    return;
   }
 
   // Validate forecast
@@ -232,14 +728,79 @@ export function validateConfiguration(config: CLIConfig): void {
     process.exit(1);
   }
 
-  // Validate range
-  const rangeValidation = validateRange(config.range);
-  if (!rangeValidation.valid) {
-    debug.error("Invalid range:", rangeValidation.error);
-    console.error(chalk.red(`❌ ${rangeValidation.error}`));
-    process.exit(1);
+  // Validate live polling settings
+  if (config.command === "watch") {
+    const watchValidation = validateWatch(
+      config.pollSeconds!,
+      config.maxTicks!
+    );
+    if (!watchValidation.valid) {
+      debug.error("Invalid watch options:", watchValidation.error);
+      console.error(chalk.red(`❌ ${watchValidation.error}`));
+      process.exit(1);
+    }
   }
 
+  // Validate consensus sources (--providers)
+  if (config.providers) {
+    const consensusValidation = validateConsensus(
+      config.providers,
+      config.tolerance
+    );
+    if (!consensusValidation.valid) {
+      debug.error("Invalid providers:", consensusValidation.error);
+      console.error(chalk.red(`❌ ${consensusValidation.error}`));
+      process.exit(1);
+    }
+  }
+
+  // Every source has to serve the coin, quote and range
+  const sources = config.providers || [config.provider];
+  sources.forEach((provider) => {
+    // Validate provider
+    const providerValidation = validateProvider(provider);
+    if (!providerValidation.valid) {
+      debug.error("Invalid provider:", providerValidation.error);
+      console.error(chalk.red(`❌ ${providerValidation.error}`));
+      process.exit(1);
+    }
+
+    if (provider === "file" && !config.fileOptions) {
+      const error = "The file provider requires --file <path>";
+      debug.error("Invalid provider:", error);
+      console.error(chalk.red(`❌ ${error}`));
+      process.exit(1);
+    }
+
+    // Validate coin against the provider's coin listing
+    const coinValidation = validateCoin(config.coin, provider);
+    if (!coinValidation.valid) {
+      debug.error("Invalid coin:", coinValidation.error);
+      console.error(chalk.red(`❌ ${coinValidation.error}`));
+      process.exit(1);
+    }
+
+    // Validate quote currency
+    const quoteValidation = validateQuote(config.quote, config.coin, provider);
+    if (!quoteValidation.valid) {
+      debug.error("Invalid quote:", quoteValidation.error);
+      console.error(chalk.red(`❌ ${quoteValidation.error}`));
+      process.exit(1);
+    }
+
+    // Validate range (limits depend on the provider)
+    const rangeValidation = validateRange(
+      config.range,
+      config.interval,
+      provider
+    );
+    if (!rangeValidation.valid) {
+      debug.error("Invalid range:", rangeValidation.error);
+      console.error(chalk.red(`❌ ${rangeValidation.error}`));
+      process.exit(1);
+    }
+  });
+
   debug.success("CLI configuration validated successfully");
 }
 
@@ -250,14 +811,32 @@ export function displayConfigSummary(config: CLIConfig): void {
 ┌─────────────────────────────────────────────┐
 │            📊 Configuration Summary         │
 ├─────────────────────────────────────────────┤
-│  Cryptocurrency: ${chalk.bold(config.coin.padEnd(20))}    │
-│  Forecast Period: ${chalk.bold(config.forecast + " days".padEnd(18))}    │
+│  Cryptocurrency: ${chalk.bold(
+      formatPair(config.coin, config.quote).padEnd(20)
+    )}    │
+│  Forecast Period: ${chalk.bold(
+      describeBars(config.forecast, config.interval).padEnd(22)
+    )}│
+│  Bar Interval: ${chalk.bold(config.interval.padEnd(21))}    │
 │  Historical Range: ${chalk.bold(config.range + " days".padEnd(17))}    │
+│  Data Provider: ${chalk.bold(
+      (config.providers ? config.providers.join("+") : config.provider).padEnd(
+        20
+      )
+    )}    │
+│  Price Cache: ${chalk.bold((config.useCache ? "On" : "Off").padEnd(22))}    │
 │  Save to File: ${chalk.bold(config.save ? "Yes" : "No".padEnd(21))}    │
 │  Backtest Mode: ${chalk.bold(config.compare ? "Yes" : "No".padEnd(20))}    │
 └─────────────────────────────────────────────┘
 `)
   );
+
+  const customParams = describeCustomParams(config.indicatorParams);
+  if (customParams.length > 0) {
+    console.log(
+      chalk.green(`⚙️  Indicator parameters: ${customParams.join("; ")}`)
+    );
+  }
 }
 
 // Main CLI initialization function
@@ -269,7 +848,9 @@ export function initializeCLI(): CLIConfig {
   try {
     const config = parseArguments();
     validateConfiguration(config);
-    displayConfigSummary(config);
+    if (config.command === "forecast" || config.command === "watch") {
+      displayConfigSummary(config);
+    }
 
     debug.success("CLI initialization completed successfully");
     return config;
@@ -0,0 +1,125 @@
+import { debug } from "../index";
+import { PricePoint } from "./fetchPrices";
+
+// Largest close spread (relative to the consensus close) sources may show
+// before a bar is flagged
+export const DEFAULT_CONSENSUS_TOLERANCE = 0.02;
+
+// One provider's bars, labelled with its display name
+export interface SourceSeries {
+  source: string;
+  data: PricePoint[];
+}
+
+// A bar where the sources' closes are further apart than the tolerance
+export interface ConsensusDisagreement {
+  date: string;
+  spread: number; // (max - min) / consensus close
+  closes: Record<string, number>; // Close per source
+}
+
+export interface ConsensusInfo {
+  sources: string[];
+  tolerance: number;
+  bars: number; // Bars covered by at least two sources
+  singleSourceBars: number; // Dropped: nothing to cross-check them against
+  maxSpread: number;
+  disagreements: ConsensusDisagreement[];
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Median consensus of several sources, aligned by bar start
+ * @param series - Bars per source (at least two sources)
+ * @param tolerance - Close spread above which a bar is flagged
+ * @returns Consensus bars (OHLCV medians) and cross-validation details
+ */
+export function buildConsensus(
+  series: SourceSeries[],
+  tolerance: number = DEFAULT_CONSENSUS_TOLERANCE
+): { data: PricePoint[]; info: ConsensusInfo } {
+  const byTime = new Map<number, { source: string; point: PricePoint }[]>();
+  series.forEach(({ source, data }) => {
+    data.forEach((point) => {
+      const entries = byTime.get(point.timestamp) || [];
+      entries.push({ source, point });
+      byTime.set(point.timestamp, entries);
+    });
+  });
+
+  const info: ConsensusInfo = {
+    sources: series.map(({ source }) => source),
+    tolerance,
+    bars: 0,
+    singleSourceBars: 0,
+    maxSpread: 0,
+    disagreements: [],
+  };
+
+  const data: PricePoint[] = [];
+  Array.from(byTime.keys())
+    .sort((a, b) => a - b)
+    .forEach((timestamp) => {
+      const entries = byTime.get(timestamp)!;
+      if (entries.length < 2) {
+        info.singleSourceBars++;
+        return;
+      }
+
+      const points = entries.map(({ point }) => point);
+      const close = median(points.map((point) => point.close));
+      const bar: PricePoint = {
+        timestamp,
+        date: points[0].date,
+        open: median(points.map((point) => point.open)),
+        close,
+        high: median(points.map((point) => point.high)),
+        low: median(points.map((point) => point.low)),
+        volume: median(points.map((point) => point.volume)),
+      };
+
+      // Medians of separate fields can leave open/close outside high-low
+      bar.high = Math.max(bar.high, bar.open, bar.close);
+      bar.low = Math.min(bar.low, bar.open, bar.close);
+      if (points.every((point) => point.synthetic)) {
+        bar.synthetic = true;
+      }
+      data.push(bar);
+
+      const closes = points.map((point) => point.close);
+      const spread = (Math.max(...closes) - Math.min(...closes)) / close;
+      info.maxSpread = Math.max(info.maxSpread, spread);
+      if (spread > tolerance) {
+        info.disagreements.push({
+          date: bar.date,
+          spread,
+          closes: Object.fromEntries(
+            entries.map(({ source, point }) => [source, point.close])
+          ),
+        });
+      }
+    });
+
+  info.bars = data.length;
+
+  if (info.disagreements.length > 0) {
+    debug.warn(
+      `Sources disagree by more than ${(tolerance * 100).toFixed(1)}% on ${
+        info.disagreements.length
+      } of ${info.bars} bars (max ${(info.maxSpread * 100).toFixed(1)}%)`
+    );
+  } else {
+    debug.success(
+      `${info.sources.length} sources agree within ${(tolerance * 100).toFixed(
+        1
+      )}% on ${info.bars} bars`
+    );
+  }
+
+  return { data, info };
+}
@@ -1,13 +1,44 @@
-import axios, { AxiosResponse } from "axios";
 import { debug } from "../index";
+import { PriceProvider, getProvider, DEFAULT_PROVIDER } from "./providers";
+import { currentTime } from "./providers/recorder";
+import {
+  StoredSeries,
+  readCandles,
+  writeCandles,
+  listPriceStore,
+} from "./priceStore";
+import {
+  Interval,
+  DEFAULT_INTERVAL,
+  barsPerDay,
+  alignToInterval,
+  addBars,
+} from "./intervals";
+import { findResampleSource, resample } from "./resample";
+import { normalizeQuote, formatPrice } from "./quotes";
+import { QualityReport, RepairPolicy, checkDataQuality } from "./quality";
+import { ConsensusInfo, buildConsensus } from "./consensus";
 
 // Data structures
 export interface PricePoint {
-  date: string;
+  timestamp: number; // Bar open time (ms, UTC)
+  date: string; // "YYYY-MM-DD" for daily bars, "YYYY-MM-DD HH:mm" intraday
+  open: number;
   close: number;
   high: number;
   low: number;
   volume: number;
+  synthetic?: boolean; // true when open/high/low were derived from closes
+  trades?: number; // Number of trades, when the source reports it
+}
+
+// How much of the OHLC data came from a real candle source
+export type OHLCQuality = "native" | "partial" | "synthetic";
+
+export interface DataQuality {
+  ohlc: OHLCQuality;
+  syntheticBars: number;
+  report?: QualityReport; // Gaps, duplicates and outliers found and repaired
 }
 
 export interface APIResponse {
@@ -17,246 +48,201 @@ export interface APIResponse {
   source: string;
   cached: boolean;
   timestamp: number;
+  quote: string; // Currency the prices are expressed in
+  dataQuality: DataQuality;
+  consensus?: ConsensusInfo; // Set when several providers were combined
 }
 
-// Performance: Cache for API responses (equivalent to useMemo)
-const priceCache = new Map<
-  string,
-  {
-    data: PricePoint[];
-    timestamp: number;
-    expires: number;
-  }
->();
-
-// Performance: Cache for coin ID mappings
+// Performance: Cache for symbol to asset ID mappings (keyed by provider)
 const coinIdCache = new Map<string, string>();
 
 // Cache configuration
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes in milliseconds
-const MAX_CACHE_SIZE = 100;
-
-// CoinGecko API configuration
-const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
-const API_TIMEOUT = 10000; // 10 seconds
-
-// Cryptocurrency symbol to CoinGecko ID mapping
-const COIN_ID_MAP: Record<string, string> = {
-  // Major cryptocurrencies
-  BTC: "bitcoin",
-  ETH: "ethereum",
-  SOL: "solana",
-  ADA: "cardano",
-  DOT: "polkadot",
-  MATIC: "matic-network",
-  AVAX: "avalanche-2",
-  LINK: "chainlink",
-  UNI: "uniswap",
-  ATOM: "cosmos",
-
-  // Meme tokens
-  PEPE: "pepe",
-  FLOKI: "floki",
-  SHIB: "shiba-inu",
-  DOGE: "dogecoin",
-  BONK: "bonk",
-  TRUMP: "maga",
-  FARTCOIN: "fartcoin",
-
-  // Layer 1 / Ecosystem tokens
-  SUI: "sui",
-  SEI: "sei-network",
-  JUP: "jupiter-exchange-solana",
-
-  // Tool / Utility coins
-  SNORT: "snortbot",
-  SPY: "spacepay",
-  BEST: "best-wallet-token",
-  TOKEN6900: "token6900",
-};
-
-// Performance: Memoized coin ID resolver
-function getCoinId(symbol: string): string {
-  const cacheKey = symbol.toUpperCase();
+const REFRESH_INTERVAL = 5 * 60 * 1000; // Refetch the current bar after 5 minutes
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Options controlling where and how history is fetched
+export interface FetchOptions {
+  provider?: string; // Provider name, defaults to DEFAULT_PROVIDER
+  interval?: Interval; // Bar interval, defaults to daily bars
+  useCache?: boolean; // Read/write the on-disk price cache (default true)
+  quote?: string; // Quote currency, defaults to DEFAULT_QUOTE
+  repair?: RepairPolicy; // Gap and outlier repair, defaults to ffill
+  providers?: string[]; // Two or more: median consensus of these providers
+  tolerance?: number; // Consensus close spread that flags a bar (0.02 = 2%)
+}
+
+// Performance: Memoized symbol resolver (per provider)
+function resolveAssetId(provider: PriceProvider, symbol: string): string {
+  const cacheKey = `${provider.name}:${symbol.toUpperCase()}`;
 
   if (coinIdCache.has(cacheKey)) {
-    debug.log(`Using cached coin ID for ${symbol}`);
+    debug.log(`Using cached asset ID for ${symbol} (${provider.name})`);
     return coinIdCache.get(cacheKey)!;
   }
 
-  const coinId = COIN_ID_MAP[cacheKey];
-  if (!coinId) {
-    throw new Error(`Unsupported coin symbol: ${symbol}`);
-  }
+  const assetId = provider.resolveSymbol(symbol);
 
-  coinIdCache.set(cacheKey, coinId);
-  debug.log(`Cached coin ID for ${symbol}: ${coinId}`);
-  return coinId;
+  coinIdCache.set(cacheKey, assetId);
+  debug.log(`Cached asset ID for ${symbol} (${provider.name}): ${assetId}`);
+  return assetId;
 }
 
-// Performance: Cache management
-function cleanupCache(): void {
-  const now = Date.now();
-  let cleaned = 0;
-
-  for (const [key, entry] of priceCache.entries()) {
-    if (now > entry.expires) {
-      priceCache.delete(key);
-      cleaned++;
-    }
-  }
-
-  // Limit cache size
-  if (priceCache.size > MAX_CACHE_SIZE) {
-    const entries = Array.from(priceCache.entries())
-      .sort((a, b) => b[1].timestamp - a[1].timestamp)
-      .slice(0, MAX_CACHE_SIZE);
-
-    priceCache.clear();
-    entries.forEach(([key, value]) => priceCache.set(key, value));
-    cleaned += priceCache.size - MAX_CACHE_SIZE;
-  }
-
-  if (cleaned > 0) {
-    debug.log(`Cleaned ${cleaned} expired cache entries`);
-  }
+// Interval to request from a provider for the wanted bars: the interval
+// itself, or a finer one the bars are resampled from (null if neither exists)
+function resolveSourceInterval(
+  provider: PriceProvider,
+  interval: Interval
+): Interval | null {
+  return provider.supportedIntervals.includes(interval)
+    ? interval
+    : findResampleSource(interval, provider.supportedIntervals);
 }
 
-// Performance: Check cache for existing data
-function getCachedData(symbol: string, days: number): PricePoint[] | null {
-  const cacheKey = `${symbol}-${days}`;
-  const cached = priceCache.get(cacheKey);
-
-  if (cached && Date.now() < cached.expires) {
-    debug.log(`Cache hit for ${symbol} (${days} days)`);
-    return cached.data;
-  }
-
-  if (cached) {
-    debug.log(`Cache expired for ${symbol} (${days} days)`);
-    priceCache.delete(cacheKey);
-  }
-
-  return null;
+// Longest history a provider serves for an interval, in days (Infinity when
+// the provider has no limit)
+export function getMaxHistoryDays(
+  providerName: string,
+  interval: Interval
+): number {
+  const provider = getProvider(providerName);
+  const sourceInterval = resolveSourceInterval(provider, interval);
+  return (
+    (sourceInterval && provider.limits?.maxHistoryDays?.[sourceInterval]) ||
+    Infinity
+  );
 }
 
-// Performance: Store data in cache
-function setCachedData(symbol: string, days: number, data: PricePoint[]): void {
-  const cacheKey = `${symbol}-${days}`;
-  const now = Date.now();
-
-  priceCache.set(cacheKey, {
-    data: [...data], // Deep copy to prevent mutations
-    timestamp: now,
-    expires: now + CACHE_DURATION,
-  });
+// Fetch a range the provider cannot serve in one request as consecutive
+// chunks (newest first) and stitch them into one de-duplicated series
+async function fetchInChunks(
+  provider: PriceProvider,
+  assetId: string,
+  days: number,
+  interval: Interval,
+  quote: string
+): Promise<PricePoint[]> {
+  const chunkDays = provider.limits?.maxRequestDays?.[interval];
+  if (!chunkDays || days <= chunkDays) {
+    return provider.fetchHistory(assetId, days, interval, { quote });
+  }
 
-  debug.log(`Cached ${data.length} price points for ${symbol} (${days} days)`);
-}
+  const rangeStart = currentTime() - days * DAY_MS;
+  const bars = new Map<number, PricePoint>();
+  let chunkEnd = currentTime();
+  let requests = 0;
+
+  while (chunkEnd > rangeStart) {
+    // Chunks start on the first bar boundary inside the request limit, so
+    // every bar comes from one request
+    const earliest = chunkEnd - chunkDays * DAY_MS;
+    const aligned = alignToInterval(earliest, interval);
+    const nextBar = addBars(aligned, 1, interval);
+    const chunkStart = Math.max(
+      aligned < earliest && nextBar < chunkEnd ? nextBar : aligned,
+      rangeStart
+    );
+    const isOldest = chunkStart === rangeStart;
+    requests++;
+    debug.log(
+      `Fetching chunk ${requests}: ${new Date(
+        chunkStart
+      ).toISOString()} → ${new Date(chunkEnd).toISOString()}`
+    );
 
-// Format date for API requests
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0];
-}
+    const points = await provider.fetchHistory(
+      assetId,
+      (chunkEnd - chunkStart) / DAY_MS,
+      interval,
+      { endTime: chunkEnd, quote }
+    );
 
-// Note: normalizeData function removed - now done inline in fetchFromCoinGecko
+    // Bars before the chunk start are partial; the older chunk has them whole
+    points
+      .filter((point) => isOldest || point.timestamp >= chunkStart)
+      .forEach((point) => {
+        if (!bars.has(point.timestamp)) {
+          bars.set(point.timestamp, point);
+        }
+      });
 
-// Fetch data from CoinGecko API using market chart endpoint (more reliable for free tier)
-async function fetchFromCoinGecko(
-  coinId: string,
-  days: number
-): Promise<PricePoint[]> {
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(endDate.getDate() - days);
-
-  // Use market chart API instead of OHLC for better free tier compatibility
-  const url = `${COINGECKO_BASE_URL}/coins/${coinId}/market_chart`;
-  const params = {
-    vs_currency: "usd",
-    days: days.toString(),
-    interval: days <= 1 ? "hourly" : "daily",
-  };
+    chunkEnd = chunkStart;
+  }
 
-  debug.log(
-    `Fetching ${days} days of data for ${coinId} from CoinGecko (market chart API)`
+  debug.success(
+    `Stitched ${bars.size} ${interval} bars from ${requests} requests`
   );
-  debug.log(`API URL: ${url}`);
-  debug.log(`Parameters:`, params);
 
-  try {
-    const response = await axios.get(url, {
-      params,
-      timeout: API_TIMEOUT,
-      headers: {
-        Accept: "application/json",
-        "User-Agent": "CryptoForecastCLI/1.0.0",
-      },
-    });
-
-    if (!response.data || !response.data.prices) {
-      throw new Error("Invalid API response format");
-    }
-
-    const { prices, market_caps, total_volumes } = response.data;
+  return Array.from(bars.values());
+}
 
-    if (!Array.isArray(prices) || prices.length === 0) {
-      throw new Error("No price data available for the specified period");
-    }
+// Reject quotes the provider cannot price in, and pairs like BTC/BTC
+function validateQuote(
+  provider: PriceProvider,
+  symbol: string,
+  quote: string
+): void {
+  if (symbol.toUpperCase() === quote) {
+    throw new Error(`Cannot quote ${symbol} in itself`);
+  }
 
-    // Convert market chart data to PricePoint format
-    // Market chart gives us [timestamp, price] arrays
-    const normalizedData = prices.map(
-      (priceData: [number, number], index: number) => {
-        const [timestamp, price] = priceData;
-        const volume = total_volumes[index] ? total_volumes[index][1] : 0;
-
-        return {
-          date: new Date(timestamp).toISOString().split("T")[0],
-          close: price,
-          high: price, // Market chart doesn't provide OHLC, so we use close for all
-          low: price,
-          volume: volume,
-        };
-      }
+  if (provider.supportedQuotes && !provider.supportedQuotes.includes(quote)) {
+    throw new Error(
+      `${provider.displayName} does not support ${quote} prices. Supported: ${provider.supportedQuotes.join(
+        ", "
+      )}`
     );
+  }
+}
 
-    debug.success(
-      `Successfully fetched ${normalizedData.length} data points from market chart API`
-    );
+// Decide how many days to request given what the cache already holds
+function planFetch(
+  stored: StoredSeries | null,
+  days: number,
+  interval: Interval
+): { fetchDays: number; startTime: number } {
+  const now = currentTime();
+  const currentBar = alignToInterval(now, interval);
+  const startTime = alignToInterval(now - days * DAY_MS, interval);
+
+  if (!stored || stored.candles.length === 0) {
+    return { fetchDays: days, startTime };
+  }
 
-    return normalizedData;
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 429) {
-        throw new Error("Rate limit exceeded. Please try again later.");
-      } else if (error.response?.status === 404) {
-        throw new Error(`Coin data not found for ${coinId}`);
-      } else if (error.code === "ECONNABORTED") {
-        throw new Error(
-          "Request timeout. Please check your internet connection."
-        );
-      } else if (error.response?.status === 400) {
-        throw new Error(
-          `Invalid request parameters for ${coinId}. Please check the coin symbol and date range.`
-        );
-      }
-    }
+  const first = stored.candles[0];
+  const last = stored.candles[stored.candles.length - 1];
 
-    debug.error("CoinGecko API error:", error);
-    throw new Error(
-      `Failed to fetch data from CoinGecko: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
+  // Cache does not reach back far enough: refetch the whole range
+  if (first.timestamp > startTime) {
+    debug.log(
+      `Price cache starts at ${first.date}, need ${new Date(
+        startTime
+      ).toISOString()}`
     );
+    return { fetchDays: days, startTime };
   }
+
+  // Up to date and recently refreshed: no request needed
+  if (
+    last.timestamp === currentBar &&
+    now - stored.updatedAt < REFRESH_INTERVAL
+  ) {
+    return { fetchDays: 0, startTime };
+  }
+
+  // Fetch the missing tail, including the last stored (possibly partial) bar
+  const missingDays = Math.ceil((now - last.timestamp) / DAY_MS);
+  return {
+    fetchDays: Math.min(days, Math.max(1, missingDays)),
+    startTime,
+  };
 }
 
 // Validate fetched data
 function validateData(
   data: PricePoint[],
   symbol: string,
-  requestedDays: number
+  requestedDays: number,
+  interval: Interval
 ): void {
   if (!data || data.length === 0) {
     throw new Error(`No price data available for ${symbol}`);
@@ -266,9 +252,12 @@ function validateData(
   const invalidPoints = data.filter(
     (point) =>
       !point.date ||
+      typeof point.timestamp !== "number" ||
+      typeof point.open !== "number" ||
       typeof point.close !== "number" ||
       typeof point.high !== "number" ||
       typeof point.low !== "number" ||
+      isNaN(point.open) ||
       isNaN(point.close) ||
       isNaN(point.high) ||
       isNaN(point.low)
@@ -279,10 +268,11 @@ function validateData(
     throw new Error(`Invalid price data detected for ${symbol}`);
   }
 
-  // Check data consistency (note: for market chart data, high/low/close will be the same)
+  // Check data consistency
   const invalidRanges = data.filter(
     (point) =>
       point.high < point.low ||
+      point.open < 0 ||
       point.close < 0 ||
       point.high < 0 ||
       point.low < 0
@@ -295,10 +285,34 @@ function validateData(
     throw new Error(`Inconsistent price data detected for ${symbol}`);
   }
 
-  // Warn if we got significantly fewer days than requested
-  if (data.length < requestedDays * 0.8) {
+  // Open/close outside the high-low range usually means mixed sources
+  const outOfRange = data.filter(
+    (point) =>
+      Math.max(point.open, point.close) > point.high ||
+      Math.min(point.open, point.close) < point.low
+  );
+
+  if (outOfRange.length > 0) {
+    debug.warn(
+      `Found ${outOfRange.length} bars with open/close outside the high-low range`
+    );
+  }
+
+  // Warn if we got significantly fewer bars than requested
+  const expectedBars = Math.floor(requestedDays * barsPerDay(interval));
+  if (data.length < expectedBars * 0.8) {
     debug.warn(
-      `Only received ${data.length} days of data, requested ${requestedDays}`
+      `Only received ${data.length} ${interval} bars, expected about ${expectedBars}`
+    );
+  }
+
+  // Bars should sit on the interval grid; anything else is a mismatched source
+  const misaligned = data.filter(
+    (point) => alignToInterval(point.timestamp, interval) !== point.timestamp
+  );
+  if (misaligned.length > 0) {
+    debug.warn(
+      `Found ${misaligned.length} bars not aligned to the ${interval} interval`
     );
   }
 
@@ -307,68 +321,242 @@ function validateData(
   );
 }
 
-// Sort data by date (oldest to newest)
+// Summarize how many bars carry synthetic OHLC values
+function assessDataQuality(
+  data: PricePoint[],
+  report?: QualityReport
+): DataQuality {
+  const syntheticBars = data.filter((point) => point.synthetic).length;
+
+  return {
+    ohlc:
+      syntheticBars === 0
+        ? "native"
+        : syntheticBars === data.length
+        ? "synthetic"
+        : "partial",
+    syntheticBars,
+    report,
+  };
+}
+
+// Sort data by bar time (oldest to newest)
 function sortData(data: PricePoint[]): PricePoint[] {
-  return data.sort(
-    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  return data.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// One successful provider response of a consensus fetch
+interface SourceResult {
+  name: string;
+  response: APIResponse;
+}
+
+// Fetch every provider of options.providers and combine them into a median
+// consensus, flagging bars where they disagree
+async function fetchConsensus(
+  symbol: string,
+  days: number,
+  options: FetchOptions
+): Promise<APIResponse> {
+  const interval = options.interval || DEFAULT_INTERVAL;
+  const quote = normalizeQuote(options.quote);
+  const names = Array.from(
+    new Set(options.providers!.map((name) => name.toLowerCase()))
+  );
+  const failure = (error: string): APIResponse => ({
+    success: false,
+    data: [],
+    error,
+    source: "Consensus",
+    cached: false,
+    timestamp: Date.now(),
+    quote,
+    dataQuality: { ohlc: "synthetic", syntheticBars: 0 },
+  });
+
+  debug.log(`Building ${symbol} consensus from ${names.join(", ")}`);
+
+  const responses = await Promise.all(
+    names.map((provider) =>
+      fetchHistoricalData(symbol, days, {
+        ...options,
+        provider,
+        providers: undefined,
+      })
+    )
+  );
+
+  const sources: SourceResult[] = [];
+  const errors: string[] = [];
+  responses.forEach((response, index) => {
+    if (response.success) {
+      sources.push({ name: getProvider(names[index]).displayName, response });
+    } else {
+      errors.push(`${names[index]}: ${response.error}`);
+      debug.warn(`Consensus source ${names[index]} failed: ${response.error}`);
+    }
+  });
+
+  // A single feed cannot be cross-checked, which is the point of this mode
+  if (sources.length < 2) {
+    return failure(
+      `Consensus needs at least two working sources. ${errors.join("; ")}`
+    );
+  }
+
+  const consensus = buildConsensus(
+    sources.map(({ name, response }) => ({
+      source: name,
+      data: response.data,
+    })),
+    options.tolerance
   );
+  if (consensus.data.length === 0) {
+    return failure(
+      `${sources.map(({ name }) => name).join(", ")} share no ${interval} bars`
+    );
+  }
+
+  const { data, report } = checkDataQuality(consensus.data, interval, {
+    policy: options.repair,
+  });
+  const cached = sources.every(({ response }) => response.cached);
+
+  return {
+    success: true,
+    data,
+    source: `Consensus (${sources.map(({ name }) => name).join("+")})`,
+    cached,
+    timestamp: Date.now(),
+    quote,
+    dataQuality: assessDataQuality(data, report),
+    consensus: consensus.info,
+  };
 }
 
 // Main function to fetch historical data
 export async function fetchHistoricalData(
   symbol: string,
-  days: number
+  days: number,
+  options: FetchOptions = {}
 ): Promise<APIResponse> {
+  // Several providers are cross-validated instead of trusting one feed
+  if (options.providers && options.providers.length > 1) {
+    return fetchConsensus(symbol, days, options);
+  }
+
   const startTime = Date.now();
-  debug.log(`Starting data fetch for ${symbol} (${days} days)`);
+  const providerName = options.provider || DEFAULT_PROVIDER;
+  const interval = options.interval || DEFAULT_INTERVAL;
+  const quote = normalizeQuote(options.quote);
+  debug.log(
+    `Starting data fetch for ${symbol}/${quote} (${days} days, ${interval}) via ${providerName}`
+  );
+
+  let sourceName = providerName;
 
   try {
-    // Cleanup expired cache entries
-    cleanupCache();
-
-    // Check cache first (performance optimization)
-    const cachedData = getCachedData(symbol, days);
-    if (cachedData) {
-      return {
-        success: true,
-        data: cachedData,
-        source: "CoinGecko (cached)",
-        cached: true,
-        timestamp: Date.now(),
-      };
-    }
+    // Resolve the provider first so errors name the right source
+    const provider = getProvider(providerName);
+    sourceName = provider.displayName;
 
     // Validate input parameters
     if (!symbol || typeof symbol !== "string") {
       throw new Error("Invalid symbol parameter");
     }
 
-    if (!days || days < 1 || days > 365) {
-      throw new Error("Days must be between 1 and 365");
+    if (!days || days < 1) {
+      throw new Error("Days must be at least 1");
+    }
+
+    validateQuote(provider, symbol, quote);
+
+    // Intervals the provider lacks are built from a finer one it has
+    const sourceInterval = resolveSourceInterval(provider, interval);
+    if (!sourceInterval) {
+      throw new Error(
+        `${provider.displayName} does not support ${interval} bars. Supported: ${provider.supportedIntervals.join(
+          ", "
+        )}`
+      );
+    }
+    if (sourceInterval !== interval) {
+      debug.log(`Building ${interval} bars from ${sourceInterval} data`);
+    }
+
+    const maxDays = provider.limits?.maxHistoryDays?.[sourceInterval];
+    if (maxDays !== undefined && days > maxDays) {
+      throw new Error(
+        `${provider.displayName} provides at most ${maxDays} days of ${sourceInterval} history. Got: ${days}`
+      );
     }
 
-    // Get coin ID for the symbol
-    const coinId = getCoinId(symbol);
+    // Get provider asset ID for the symbol
+    const assetId = resolveAssetId(provider, symbol);
 
-    // Fetch data from API
-    const rawData = await fetchFromCoinGecko(coinId, days);
+    // Local sources are read directly; everything else goes through the cache
+    const useCache = options.useCache !== false && provider.cacheable !== false;
+    const storeKey = {
+      provider: provider.name,
+      symbol,
+      interval: sourceInterval,
+      quote,
+    };
+    const stored = useCache ? readCandles(storeKey) : null;
+    const { fetchDays, startTime: windowStart } = planFetch(
+      stored,
+      days,
+      sourceInterval
+    );
 
-    // Validate and sort data
-    validateData(rawData, symbol, days);
-    const sortedData = sortData(rawData);
+    let series = stored ? stored.candles : [];
+    if (fetchDays > 0) {
+      debug.log(
+        stored
+          ? `Refreshing last ${fetchDays} days of cached ${symbol} data`
+          : `Fetching ${fetchDays} days of ${symbol} data`
+      );
+
+      // Fetch data from the provider
+      const rawData = await fetchInChunks(
+        provider,
+        assetId,
+        fetchDays,
+        sourceInterval,
+        quote
+      );
+
+      // Validate and sort data
+      validateData(rawData, symbol, fetchDays, sourceInterval);
+      const sortedData = sortData(rawData);
+
+      series = useCache ? writeCandles(storeKey, sortedData) : sortedData;
+    }
+
+    // Trim to the requested window (files are measured from their newest bar)
+    const window = useCache
+      ? series.filter((point) => point.timestamp >= windowStart)
+      : series;
+    const bars =
+      sourceInterval === interval ? window : resample(window, interval);
 
-    // Cache the results
-    setCachedData(symbol, days, sortedData);
+    // Repair what the provider got wrong before anything is calculated
+    const { data, report } = checkDataQuality(bars, interval, {
+      policy: options.repair,
+    });
 
     const duration = Date.now() - startTime;
     debug.success(`Data fetch completed in ${duration}ms`);
 
+    const cached = fetchDays === 0;
     return {
       success: true,
-      data: sortedData,
-      source: "CoinGecko",
-      cached: false,
+      data,
+      source: cached ? `${provider.displayName} (cached)` : provider.displayName,
+      cached,
       timestamp: Date.now(),
+      quote,
+      dataQuality: assessDataQuality(data, report),
     };
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -378,40 +566,35 @@ export async function fetchHistoricalData(
       success: false,
       data: [],
       error: error instanceof Error ? error.message : "Unknown error occurred",
-      source: "CoinGecko",
+      source: sourceName,
       cached: false,
       timestamp: Date.now(),
+      quote,
+      dataQuality: { ohlc: "synthetic", syntheticBars: 0 },
     };
   }
 }
 
 // Get current price for a symbol
-export async function getCurrentPrice(symbol: string): Promise<number> {
+export async function getCurrentPrice(
+  symbol: string,
+  options: FetchOptions = {}
+): Promise<number> {
   try {
-    const coinId = getCoinId(symbol);
-    const url = `${COINGECKO_BASE_URL}/simple/price`;
-    const params = {
-      ids: coinId,
-      vs_currencies: "usd",
-    };
-
-    debug.log(`Fetching current price for ${symbol}`);
+    const provider = getProvider(options.provider || DEFAULT_PROVIDER);
+    const quote = normalizeQuote(options.quote);
+    validateQuote(provider, symbol, quote);
+    const assetId = resolveAssetId(provider, symbol);
 
-    const response = await axios.get(url, {
-      params,
-      timeout: API_TIMEOUT,
-      headers: {
-        Accept: "application/json",
-        "User-Agent": "CryptoForecastCLI/1.0.0",
-      },
-    });
+    debug.log(
+      `Fetching current price for ${symbol}/${quote} from ${provider.name}`
+    );
 
-    const price = response.data[coinId]?.usd;
-    if (typeof price !== "number") {
-      throw new Error(`No current price available for ${symbol}`);
-    }
+    const price = await provider.fetchCurrentPrice(assetId, quote);
 
-    debug.success(`Current price for ${symbol}: $${price}`);
+    debug.success(
+      `Current price for ${symbol}: ${formatPrice(price, quote)}`
+    );
     return price;
   } catch (error) {
     debug.error(`Failed to get current price for ${symbol}:`, error);
@@ -423,37 +606,17 @@ export async function getCurrentPrice(symbol: string): Promise<number> {
   }
 }
 
-// Performance monitoring
-export function getCacheStats() {
-  cleanupCache();
-  return {
-    priceCache: priceCache.size,
-    coinIdCache: coinIdCache.size,
-    maxCacheSize: MAX_CACHE_SIZE,
-    cacheDuration: CACHE_DURATION / 1000, // in seconds
-  };
-}
-
-// Clear all caches (for testing)
-export function clearCaches(): void {
-  priceCache.clear();
-  coinIdCache.clear();
-  debug.log("All data caches cleared");
-}
-
 // Get cache contents (for debugging)
 export function debugCacheContents(): void {
   debug.log("Price cache contents:");
-  for (const [key, value] of priceCache.entries()) {
-    const expired = Date.now() > value.expires;
+  listPriceStore().forEach((entry) => {
+    const age = Math.round((Date.now() - entry.updatedAt) / 1000);
     debug.log(
-      `  ${key}: ${value.data.length} points, expires in ${Math.round(
-        (value.expires - Date.now()) / 1000
-      )}s ${expired ? "(EXPIRED)" : ""}`
+      `  ${entry.provider}/${entry.symbol}-${entry.quote}/${entry.interval}: ${entry.candles} candles (${entry.firstDate} → ${entry.lastDate}), refreshed ${age}s ago`
     );
-  }
+  });
 
-  debug.log("Coin ID cache contents:");
+  debug.log("Asset ID cache contents:");
   for (const [key, value] of coinIdCache.entries()) {
     debug.log(`  ${key}: ${value}`);
   }
@@ -0,0 +1,110 @@
+// Bar intervals supported across fetching, indicators and forecasts
+export type Interval = "15m" | "1h" | "4h" | "1d" | "1w" | "1M";
+
+export const DEFAULT_INTERVAL: Interval = "1d";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bar length in milliseconds (months are nominally 30 days; alignment and
+// stepping below use calendar months)
+export const INTERVAL_MS: Record<Interval, number> = {
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": DAY_MS,
+  "1w": 7 * DAY_MS,
+  "1M": 30 * DAY_MS,
+};
+
+// Unit names used when describing forecast horizons ("10 hours", "10 days")
+const INTERVAL_UNITS: Record<Interval, string> = {
+  "15m": "15-minute bar",
+  "1h": "hour",
+  "4h": "4-hour bar",
+  "1d": "day",
+  "1w": "week",
+  "1M": "month",
+};
+
+export const SUPPORTED_INTERVALS = Object.keys(INTERVAL_MS) as Interval[];
+
+export function isIntraday(interval: Interval): boolean {
+  return INTERVAL_MS[interval] < DAY_MS;
+}
+
+export function barsPerDay(interval: Interval): number {
+  return DAY_MS / INTERVAL_MS[interval];
+}
+
+// Start of the bar containing a timestamp (UTC aligned; weeks start on
+// Monday, months on the 1st)
+export function alignToInterval(timestamp: number, interval: Interval): number {
+  if (interval === "1M") {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  if (interval === "1w") {
+    // 1970-01-01 was a Thursday, the first Monday is 4 days later
+    const mondayOffset = 4 * DAY_MS;
+    const week = INTERVAL_MS["1w"];
+    return (
+      Math.floor((timestamp - mondayOffset) / week) * week + mondayOffset
+    );
+  }
+
+  const length = INTERVAL_MS[interval];
+  return Math.floor(timestamp / length) * length;
+}
+
+// Start of the bar `count` bars after an aligned bar start
+export function addBars(
+  barStart: number,
+  count: number,
+  interval: Interval
+): number {
+  if (interval === "1M") {
+    const date = new Date(barStart);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + count, 1);
+  }
+  return barStart + count * INTERVAL_MS[interval];
+}
+
+// Bar a sample belongs to: a sample taken exactly on a boundary closes the
+// previous bar, so it is shifted back by 1ms before aligning
+export function barStartForSample(
+  sampleTime: number,
+  interval: Interval
+): number {
+  return alignToInterval(sampleTime - 1, interval);
+}
+
+// Bar label: "YYYY-MM-DD" for daily and longer bars, "YYYY-MM-DD HH:mm"
+// (UTC) intraday
+export function formatBarTime(timestamp: number, interval: Interval): string {
+  const iso = new Date(timestamp).toISOString();
+  return isIntraday(interval)
+    ? `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+    : iso.slice(0, 10);
+}
+
+// Human readable horizon, e.g. "10 days" or "20 hours"
+export function describeBars(count: number, interval: Interval): string {
+  const unit = INTERVAL_UNITS[interval];
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+// Interval closest to a bar spacing (for code that only has timestamps;
+// calendar months vary between 28 and 31 days)
+export function intervalFromSpacing(spacing: number): Interval {
+  if (spacing <= 0) {
+    return DEFAULT_INTERVAL;
+  }
+
+  return SUPPORTED_INTERVALS.reduce((closest, interval) =>
+    Math.abs(Math.log(INTERVAL_MS[interval] / spacing)) <
+    Math.abs(Math.log(INTERVAL_MS[closest] / spacing))
+      ? interval
+      : closest
+  );
+}
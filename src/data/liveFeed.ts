@@ -0,0 +1,154 @@
+import { debug } from "../index";
+import { PricePoint, getCurrentPrice } from "./fetchPrices";
+import { Interval, alignToInterval, formatBarTime } from "./intervals";
+import { currentTime } from "./providers/recorder";
+
+// A live price observation
+export interface PriceTick {
+  price: number;
+  timestamp: number; // ms, when the price was observed
+}
+
+export type TickHandler = (tick: PriceTick) => void | Promise<void>;
+
+// Source of live prices. Polling works with every provider; a streaming
+// (WebSocket) adapter only has to implement the same interface
+export interface PriceFeed {
+  readonly name: string;
+  start(onTick: TickHandler, onError: (error: Error) => void): void;
+  stop(): void;
+}
+
+export interface PollingFeedOptions {
+  provider: string;
+  quote: string;
+  pollMs: number; // Delay between the end of one poll and the next
+  maxFailures?: number; // Consecutive failed polls before the feed gives up
+}
+
+const DEFAULT_MAX_FAILURES = 5;
+
+// Polls the provider's current price through getCurrentPrice, so requests
+// share the provider's scheduler and can be recorded and replayed
+export class PollingPriceFeed implements PriceFeed {
+  public readonly name: string;
+
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private ticks = 0;
+  private failures = 0;
+
+  constructor(
+    private readonly symbol: string,
+    private readonly options: PollingFeedOptions
+  ) {
+    this.name = `${options.provider} polling every ${options.pollMs / 1000}s`;
+  }
+
+  start(onTick: TickHandler, onError: (error: Error) => void): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    // Tick times continue from the data clock, which stands still at the
+    // recorded time during a replay
+    const clockStart = Date.now();
+    const dataStart = currentTime();
+
+    const poll = async () => {
+      try {
+        const price = await getCurrentPrice(this.symbol, {
+          provider: this.options.provider,
+          quote: this.options.quote,
+        });
+        this.failures = 0;
+        this.ticks++;
+        await onTick({ price, timestamp: dataStart + Date.now() - clockStart });
+      } catch (error) {
+        this.failures++;
+        const maxFailures = this.options.maxFailures ?? DEFAULT_MAX_FAILURES;
+        if (this.failures >= maxFailures) {
+          this.stop();
+          onError(error instanceof Error ? error : new Error(String(error)));
+          return;
+        }
+        debug.warn(
+          `Live price poll failed (${this.failures}/${maxFailures}):`,
+          error instanceof Error ? error.message : error
+        );
+      }
+
+      if (this.running) {
+        this.timer = setTimeout(poll, this.options.pollMs);
+      }
+    };
+
+    poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Performance monitoring
+  getStats() {
+    return {
+      running: this.running,
+      ticks: this.ticks,
+      failures: this.failures,
+    };
+  }
+}
+
+/**
+ * Apply a tick to a bar series: it moves the close (and high/low) of the bar
+ * it falls in, or opens a new bar at the previous close
+ * @param bars - Bars sorted oldest to newest
+ * @param tick - Live price
+ * @param interval - Bar interval of the series
+ * @returns The updated series (a new bar is added after the others, so the
+ * closed bars stay as they were pushed into the live indicators) and
+ * whether a bar was opened
+ */
+export function applyTick(
+  bars: PricePoint[],
+  tick: PriceTick,
+  interval: Interval
+): { bars: PricePoint[]; opened: boolean } {
+  const last = bars[bars.length - 1];
+  const lastStart = alignToInterval(last.timestamp, interval);
+  const barStart = alignToInterval(tick.timestamp, interval);
+
+  // Late ticks for an older bar carry nothing new
+  if (barStart < lastStart) {
+    return { bars, opened: false };
+  }
+
+  if (barStart === lastStart) {
+    const updated: PricePoint = {
+      ...last,
+      close: tick.price,
+      high: Math.max(last.high, tick.price),
+      low: Math.min(last.low, tick.price),
+    };
+    return { bars: [...bars.slice(0, -1), updated], opened: false };
+  }
+
+  // Ticks carry no volume; the new bar's volume stays 0 until history is
+  // fetched again
+  const opened: PricePoint = {
+    timestamp: barStart,
+    date: formatBarTime(barStart, interval),
+    open: last.close,
+    close: tick.price,
+    high: Math.max(last.close, tick.price),
+    low: Math.min(last.close, tick.price),
+    volume: 0,
+  };
+  return { bars: [...bars, opened], opened: true };
+}
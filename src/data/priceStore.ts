@@ -0,0 +1,215 @@
+import fs from "fs";
+import path from "path";
+import { debug } from "../index";
+import { PricePoint } from "./fetchPrices";
+import { DEFAULT_QUOTE } from "./quotes";
+
+// On-disk price cache location (one JSON file per provider/symbol/quote/interval)
+export const PRICE_STORE_DIR = path.join(process.cwd(), ".cache", "prices");
+const STORE_VERSION = 2; // v2: candles keyed by bar timestamp
+
+// Identifies one cached candle series
+export interface PriceStoreKey {
+  provider: string;
+  symbol: string;
+  interval: string;
+  quote: string;
+}
+
+// Stored series with its last refresh time
+export interface StoredSeries {
+  candles: PricePoint[]; // Oldest to newest
+  updatedAt: number;
+}
+
+// Summary of one cache file for `cache stats`
+export interface PriceStoreEntry extends PriceStoreKey {
+  candles: number;
+  firstDate: string;
+  lastDate: string;
+  updatedAt: number;
+  bytes: number;
+}
+
+interface PriceStoreFile {
+  version: number;
+  provider: string;
+  symbol: string;
+  interval: string;
+  quote?: string; // Missing in files written before quotes existed (USD)
+  updatedAt: number;
+  candles: Record<string, PricePoint>; // Keyed by bar timestamp
+}
+
+// Performance: Keep parsed cache files in memory (equivalent to useMemo)
+const loadedStores = new Map<string, PriceStoreFile>();
+
+function storePath(key: PriceStoreKey): string {
+  const safe = (value: string) => value.replace(/[^a-zA-Z0-9_.-]/g, "_");
+  // USD series keep the file names used before quote currencies existed
+  const quote =
+    key.quote === DEFAULT_QUOTE ? "" : `-${safe(key.quote.toUpperCase())}`;
+  return path.join(
+    PRICE_STORE_DIR,
+    safe(key.provider),
+    `${safe(key.symbol.toUpperCase())}${quote}-${safe(key.interval)}.json`
+  );
+}
+
+function loadStoreFile(filePath: string): PriceStoreFile | null {
+  if (loadedStores.has(filePath)) {
+    return loadedStores.get(filePath)!;
+  }
+
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+    if (parsed?.version !== STORE_VERSION || !parsed.candles) {
+      debug.warn(`Ignoring price cache with unknown format: ${filePath}`);
+      return null;
+    }
+
+    loadedStores.set(filePath, parsed);
+    return parsed;
+  } catch (error) {
+    debug.warn(`Ignoring unreadable price cache ${filePath}:`, error);
+    return null;
+  }
+}
+
+function sortedCandles(store: PriceStoreFile): PricePoint[] {
+  return Object.values(store.candles).sort(
+    (a, b) => a.timestamp - b.timestamp
+  );
+}
+
+// Read a cached series, or null when nothing is stored yet
+export function readCandles(key: PriceStoreKey): StoredSeries | null {
+  const store = loadStoreFile(storePath(key));
+  if (!store) {
+    return null;
+  }
+
+  const candles = sortedCandles(store);
+  debug.log(
+    `Price cache hit for ${key.symbol}/${key.quote} (${key.provider}, ${key.interval}): ${candles.length} candles`
+  );
+
+  return {
+    candles: candles.map((candle) => ({ ...candle })),
+    updatedAt: store.updatedAt,
+  };
+}
+
+// Merge candles into the cached series (newer data wins for the same bar)
+export function writeCandles(
+  key: PriceStoreKey,
+  candles: PricePoint[]
+): PricePoint[] {
+  const filePath = storePath(key);
+  const store: PriceStoreFile = loadStoreFile(filePath) || {
+    version: STORE_VERSION,
+    provider: key.provider,
+    symbol: key.symbol.toUpperCase(),
+    interval: key.interval,
+    quote: key.quote,
+    updatedAt: 0,
+    candles: {},
+  };
+
+  candles.forEach((candle) => {
+    store.candles[candle.timestamp] = { ...candle };
+  });
+  store.updatedAt = Date.now();
+
+  // Write to a temp file first so an interrupted run cannot corrupt the cache
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(store));
+  fs.renameSync(tempPath, filePath);
+  loadedStores.set(filePath, store);
+
+  debug.log(
+    `Stored ${candles.length} candles for ${key.symbol}/${key.quote} (${
+      key.provider
+    }, ${key.interval}), ${Object.keys(store.candles).length} total`
+  );
+
+  return sortedCandles(store);
+}
+
+// List every cached series on disk
+export function listPriceStore(): PriceStoreEntry[] {
+  if (!fs.existsSync(PRICE_STORE_DIR)) {
+    return [];
+  }
+
+  const entries: PriceStoreEntry[] = [];
+
+  fs.readdirSync(PRICE_STORE_DIR).forEach((providerDir) => {
+    const dirPath = path.join(PRICE_STORE_DIR, providerDir);
+    if (!fs.statSync(dirPath).isDirectory()) {
+      return;
+    }
+
+    fs.readdirSync(dirPath)
+      .filter((file) => file.endsWith(".json"))
+      .forEach((file) => {
+        const filePath = path.join(dirPath, file);
+        const store = loadStoreFile(filePath);
+        if (!store) {
+          return;
+        }
+
+        const candles = sortedCandles(store);
+        entries.push({
+          provider: store.provider,
+          symbol: store.symbol,
+          interval: store.interval,
+          quote: store.quote || DEFAULT_QUOTE,
+          candles: candles.length,
+          firstDate: candles[0]?.date || "-",
+          lastDate: candles[candles.length - 1]?.date || "-",
+          updatedAt: store.updatedAt,
+          bytes: fs.statSync(filePath).size,
+        });
+      });
+  });
+
+  return entries;
+}
+
+// Remove cached series, optionally only those matching a provider/symbol
+export function clearPriceStore(
+  filter: { provider?: string; symbol?: string } = {}
+): number {
+  const removed = listPriceStore().filter(
+    (entry) =>
+      (!filter.provider || entry.provider === filter.provider) &&
+      (!filter.symbol || entry.symbol === filter.symbol.toUpperCase())
+  );
+
+  removed.forEach((entry) => {
+    const filePath = storePath(entry);
+    fs.rmSync(filePath, { force: true });
+    loadedStores.delete(filePath);
+  });
+
+  debug.log(`Removed ${removed.length} cached price series`);
+  return removed.length;
+}
+
+// Performance monitoring
+export function getPriceStoreStats() {
+  const entries = listPriceStore();
+  return {
+    entries: entries.length,
+    candles: entries.reduce((sum, entry) => sum + entry.candles, 0),
+    bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+    loaded: loadedStores.size,
+    directory: PRICE_STORE_DIR,
+  };
+}
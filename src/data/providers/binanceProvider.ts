@@ -0,0 +1,249 @@
+import axios from "axios";
+import { debug } from "../../index";
+import { PricePoint } from "../fetchPrices";
+import { Interval, INTERVAL_MS, formatBarTime } from "../intervals";
+import { DEFAULT_QUOTE } from "../quotes";
+import {
+  PriceProvider,
+  HistoryOptions,
+  API_TIMEOUT,
+  REQUEST_HEADERS,
+} from "./types";
+import { recordedGet, currentTime } from "./recorder";
+import { getScheduler, RequestScheduler } from "./scheduler";
+
+// Binance spot API (BINANCE_API_URL points at another server, e.g. the
+// local mock in src/dev/mockBinanceServer.ts)
+const BINANCE_BASE_URL = "https://api.binance.com";
+
+// Klines per request (the API maximum); longer ranges are paged through
+const KLINE_PAGE_SIZE = 1000;
+
+// Request weight: klines cost 2 of the 6000 per minute; staying at 600
+// requests leaves room for other clients on the same IP
+const BINANCE_RATE = {
+  requestsPerMinute: 600,
+  burst: 20,
+  maxConcurrent: 4,
+};
+
+// Binance has no USD markets; USD prices come from the USDT pairs
+const QUOTE_ASSETS: Record<string, string> = {
+  USD: "USDT",
+};
+
+const SUPPORTED_QUOTES = ["USD", "USDT", "USDC", "EUR", "BTC", "ETH", "BNB"];
+
+// [open time, open, high, low, close, volume, close time, quote volume,
+//  trades, taker buy base volume, taker buy quote volume, unused]
+export type Kline = [
+  number,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  number,
+  string,
+  string,
+  string
+];
+
+// Convert a kline to a bar; volume is in the quote asset, like the market
+// volumes CoinGecko reports
+export function klineToPricePoint(kline: Kline, interval: Interval): PricePoint {
+  const [openTime, open, high, low, close, , , quoteVolume, trades] = kline;
+
+  return {
+    timestamp: openTime,
+    date: formatBarTime(openTime, interval),
+    open: parseFloat(open),
+    high: parseFloat(high),
+    low: parseFloat(low),
+    close: parseFloat(close),
+    volume: parseFloat(quoteVolume),
+    trades,
+  };
+}
+
+export class BinanceProvider implements PriceProvider {
+  public readonly name = "binance";
+  public readonly displayName = "Binance";
+  public readonly description =
+    "Binance spot klines (exchange candles with volume and trade counts)";
+  // Binance serves every interval natively, aligned like ours (weeks start
+  // on Monday, months on the 1st)
+  public readonly supportedIntervals: Interval[] = [
+    "15m",
+    "1h",
+    "4h",
+    "1d",
+    "1w",
+    "1M",
+  ];
+  public readonly supportedQuotes = SUPPORTED_QUOTES;
+
+  private readonly scheduler: RequestScheduler;
+
+  constructor(
+    private readonly baseUrl = process.env.BINANCE_API_URL || BINANCE_BASE_URL
+  ) {
+    this.scheduler = getScheduler("binance", BINANCE_RATE);
+  }
+
+  // Assets are traded under their tickers; the market is picked per quote
+  resolveSymbol(symbol: string): string {
+    return symbol.toUpperCase();
+  }
+
+  // Page through klines oldest first until the range end is covered
+  async fetchHistory(
+    asset: string,
+    days: number,
+    interval: Interval,
+    options: HistoryOptions = {}
+  ): Promise<PricePoint[]> {
+    const market = this.market(asset, options.quote);
+    const endTime = options.endTime ?? currentTime();
+    const startTime = endTime - days * INTERVAL_MS["1d"];
+
+    debug.log(
+      `Fetching ${market} ${interval} klines from ${new Date(
+        startTime
+      ).toISOString()} to ${new Date(endTime).toISOString()} from Binance`
+    );
+
+    const bars: PricePoint[] = [];
+    let cursor = startTime;
+    let pages = 0;
+
+    try {
+      while (cursor <= endTime) {
+        const response = await this.get("/api/v3/klines", {
+          symbol: market,
+          interval,
+          startTime: Math.floor(cursor),
+          endTime: Math.floor(endTime),
+          limit: KLINE_PAGE_SIZE,
+        });
+
+        if (!Array.isArray(response.data)) {
+          throw new Error("Invalid klines response format");
+        }
+
+        const klines: Kline[] = response.data;
+        pages++;
+        if (klines.length === 0) {
+          break;
+        }
+
+        klines.forEach((kline) => bars.push(klineToPricePoint(kline, interval)));
+
+        // The next page starts after the newest open time; a page reaching
+        // the range end (its close time) is the last one
+        const newest = klines[klines.length - 1];
+        if (newest[6] >= endTime || newest[0] < cursor) {
+          break;
+        }
+        cursor = newest[0] + 1;
+      }
+    } catch (error) {
+      throw this.mapError(error, market);
+    }
+
+    if (bars.length === 0) {
+      throw new Error(`No ${interval} klines for ${market} in this range`);
+    }
+
+    debug.success(
+      `Successfully fetched ${bars.length} ${interval} klines in ${pages} page${
+        pages === 1 ? "" : "s"
+      }`
+    );
+    return bars;
+  }
+
+  async fetchCurrentPrice(
+    asset: string,
+    quote: string = DEFAULT_QUOTE
+  ): Promise<number> {
+    const market = this.market(asset, quote);
+
+    try {
+      const response = await this.get("/api/v3/ticker/price", {
+        symbol: market,
+      });
+      const price = parseFloat(response.data?.price);
+      if (!isFinite(price)) {
+        throw new Error(`No current price available for ${market}`);
+      }
+      return price;
+    } catch (error) {
+      throw this.mapError(error, market);
+    }
+  }
+
+  // Market symbol of an asset in a quote, e.g. BTC in USD -> BTCUSDT
+  private market(asset: string, quote: string = DEFAULT_QUOTE): string {
+    return `${asset}${QUOTE_ASSETS[quote] ?? quote}`;
+  }
+
+  // GET through the shared scheduler (rate limit, concurrency cap, retries),
+  // recorded or replayed when --record/--replay is active
+  private get(path: string, params: Record<string, string | number>) {
+    return recordedGet(
+      this.scheduler,
+      `${this.baseUrl}${path}`,
+      params,
+      REQUEST_HEADERS,
+      API_TIMEOUT,
+      `Binance ${path}`
+    );
+  }
+
+  // Translate HTTP failures (Binance sends { code, msg }) into user facing
+  // messages
+  private mapError(error: unknown, market: string): Error {
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      const body = error.response?.data as
+        | { code?: number; msg?: string }
+        | undefined;
+
+      if (body?.code === -1121) {
+        return new Error(`Binance has no ${market} market`);
+      } else if (status === 429) {
+        return new Error(
+          "Binance rate limit exceeded after retrying. Please try again later."
+        );
+      } else if (status === 418) {
+        return new Error(
+          "Binance has temporarily banned this IP for exceeding rate limits"
+        );
+      } else if (status === 451) {
+        return new Error("Binance is not available from this location");
+      } else if (error.code === "ECONNABORTED") {
+        return new Error(
+          "Request timeout. Please check your internet connection."
+        );
+      } else if (status === 400) {
+        return new Error(
+          `Invalid request for ${market}: ${body?.msg || "unknown reason"}`
+        );
+      }
+    }
+
+    if (!axios.isAxiosError(error) && error instanceof Error) {
+      return error;
+    }
+
+    debug.error("Binance API error:", error);
+    return new Error(
+      `Failed to fetch data from Binance: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { CoinListing } from "./types";
+
+// Bundled subset of the CoinGecko coin list, used until `search --refresh`
+// downloads the full listing. Ranks are approximate (July 2025) and only
+// break ties between coins sharing a ticker.
+export const COINGECKO_COIN_SNAPSHOT: CoinListing[] = [
+  // Major cryptocurrencies
+  { id: "bitcoin", symbol: "BTC", name: "Bitcoin", marketCapRank: 1 },
+  { id: "ethereum", symbol: "ETH", name: "Ethereum", marketCapRank: 2 },
+  { id: "tether", symbol: "USDT", name: "Tether", marketCapRank: 3 },
+  { id: "ripple", symbol: "XRP", name: "XRP", marketCapRank: 4 },
+  { id: "binancecoin", symbol: "BNB", name: "BNB", marketCapRank: 5 },
+  { id: "solana", symbol: "SOL", name: "Solana", marketCapRank: 6 },
+  { id: "usd-coin", symbol: "USDC", name: "USDC", marketCapRank: 7 },
+  { id: "dogecoin", symbol: "DOGE", name: "Dogecoin", marketCapRank: 8 },
+  { id: "tron", symbol: "TRX", name: "TRON", marketCapRank: 9 },
+  { id: "cardano", symbol: "ADA", name: "Cardano", marketCapRank: 10 },
+  { id: "chainlink", symbol: "LINK", name: "Chainlink", marketCapRank: 12 },
+  { id: "sui", symbol: "SUI", name: "Sui", marketCapRank: 14 },
+  { id: "avalanche-2", symbol: "AVAX", name: "Avalanche", marketCapRank: 16 },
+  { id: "shiba-inu", symbol: "SHIB", name: "Shiba Inu", marketCapRank: 20 },
+  { id: "polkadot", symbol: "DOT", name: "Polkadot", marketCapRank: 26 },
+  { id: "uniswap", symbol: "UNI", name: "Uniswap", marketCapRank: 30 },
+  { id: "pepe", symbol: "PEPE", name: "Pepe", marketCapRank: 32 },
+  { id: "cosmos", symbol: "ATOM", name: "Cosmos Hub", marketCapRank: 45 },
+  { id: "matic-network", symbol: "MATIC", name: "Polygon" },
+
+  // Meme tokens
+  {
+    id: "official-trump",
+    symbol: "TRUMP",
+    name: "Official Trump",
+    marketCapRank: 48,
+  },
+  { id: "maga", symbol: "TRUMP", name: "MAGA" },
+  { id: "bonk", symbol: "BONK", name: "Bonk", marketCapRank: 60 },
+  { id: "floki", symbol: "FLOKI", name: "FLOKI", marketCapRank: 80 },
+  { id: "fartcoin", symbol: "FARTCOIN", name: "Fartcoin", marketCapRank: 90 },
+
+  // Layer 1 / Ecosystem tokens
+  { id: "sei-network", symbol: "SEI", name: "Sei", marketCapRank: 70 },
+  {
+    id: "jupiter-exchange-solana",
+    symbol: "JUP",
+    name: "Jupiter",
+    marketCapRank: 75,
+  },
+
+  // Tool / Utility coins
+  { id: "snortbot", symbol: "SNORT", name: "Snorter" },
+  { id: "spacepay", symbol: "SPY", name: "SpacePay" },
+  { id: "best-wallet-token", symbol: "BEST", name: "Best Wallet Token" },
+  { id: "token6900", symbol: "TOKEN6900", name: "Token6900" },
+];
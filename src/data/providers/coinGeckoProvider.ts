@@ -0,0 +1,461 @@
+import axios from "axios";
+import { debug } from "../../index";
+import { PricePoint } from "../fetchPrices";
+import {
+  Interval,
+  INTERVAL_MS,
+  isIntraday,
+  barsPerDay,
+  barStartForSample,
+  formatBarTime,
+} from "../intervals";
+import { DEFAULT_QUOTE } from "../quotes";
+import { resolveCoinId } from "../symbols";
+import { COINGECKO_COIN_SNAPSHOT } from "./coinGeckoCoins";
+import {
+  PriceProvider,
+  CoinListing,
+  ProviderLimits,
+  HistoryOptions,
+  API_TIMEOUT,
+  REQUEST_HEADERS,
+  createSyntheticBar,
+} from "./types";
+import { recordedGet, currentTime } from "./recorder";
+import { getScheduler, RequestScheduler, SchedulerOptions } from "./scheduler";
+
+// CoinGecko API configuration (a Pro key from COINGECKO_API_KEY switches to
+// the paid endpoint, which serves history beyond 365 days; COINGECKO_API_URL
+// points either at another server, e.g. a local stub)
+const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+const COINGECKO_PRO_BASE_URL = "https://pro-api.coingecko.com/api/v3";
+
+// Request budgets: the public API allows roughly 30 calls per minute, paid
+// plans 500
+const PUBLIC_RATE: Partial<SchedulerOptions> = {
+  requestsPerMinute: 30,
+  burst: 5,
+  maxConcurrent: 2,
+};
+const PRO_RATE: Partial<SchedulerOptions> = {
+  requestsPerMinute: 500,
+  burst: 20,
+  maxConcurrent: 8,
+};
+
+// The public /ohlc endpoint only accepts these ranges, and returns 30-minute
+// candles for 1-2 days and 4-hour candles up to 30 days (4-day candles
+// beyond), so real candles only exist for the most recent 30 days.
+const OHLC_DAY_OPTIONS = [1, 7, 14, 30];
+const OHLC_MAX_DAYS = 30;
+
+// The market chart range endpoint returns 5-minute samples for the last day,
+// hourly samples for ranges up to 90 days and daily samples beyond, so
+// intraday history is fetched in 90-day chunks. The public API only serves
+// the last 365 days. (Weekly and monthly bars are resampled from daily data.)
+const REQUEST_DAYS: Partial<Record<Interval, number>> = {
+  "15m": 1,
+  "1h": 90,
+  "4h": 90,
+  "1d": 365,
+};
+
+const PUBLIC_LIMITS: ProviderLimits = {
+  maxHistoryDays: { "15m": 1, "1h": 365, "4h": 365, "1d": 365 },
+  maxRequestDays: REQUEST_DAYS,
+};
+
+const PRO_LIMITS: ProviderLimits = {
+  maxHistoryDays: { "15m": 1 },
+  maxRequestDays: REQUEST_DAYS,
+};
+
+// Common vs_currency values (CoinGecko expects them lower case)
+const SUPPORTED_QUOTES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "AUD",
+  "CAD",
+  "CHF",
+  "CNY",
+  "KRW",
+  "INR",
+  "BTC",
+  "ETH",
+];
+
+// Coins per page of the markets endpoint, and how many pages (by market cap)
+// are merged into the downloaded listing for ranking same-ticker coins
+const MARKETS_PAGE_SIZE = 250;
+const MARKETS_PAGES = 2;
+
+export class CoinGeckoProvider implements PriceProvider {
+  public readonly name = "coingecko";
+  public readonly displayName = "CoinGecko";
+  public readonly description =
+    "CoinGecko public API (market chart, OHLC and simple price endpoints)";
+  public readonly supportedIntervals: Interval[] = ["15m", "1h", "4h", "1d"];
+  public readonly limits: ProviderLimits;
+  public readonly supportedQuotes = SUPPORTED_QUOTES;
+  public readonly coinSnapshot = COINGECKO_COIN_SNAPSHOT;
+
+  private readonly baseUrl: string;
+  private readonly headers: Record<string, string>;
+  private readonly scheduler: RequestScheduler;
+
+  constructor(private readonly apiKey = process.env.COINGECKO_API_KEY) {
+    this.limits = apiKey ? PRO_LIMITS : PUBLIC_LIMITS;
+    this.baseUrl =
+      process.env.COINGECKO_API_URL ||
+      (apiKey ? COINGECKO_PRO_BASE_URL : COINGECKO_BASE_URL);
+    this.headers = apiKey
+      ? { ...REQUEST_HEADERS, "x-cg-pro-api-key": apiKey }
+      : REQUEST_HEADERS;
+    this.scheduler = apiKey
+      ? getScheduler("coingecko-pro", PRO_RATE)
+      : getScheduler("coingecko", PUBLIC_RATE);
+  }
+
+  resolveSymbol(symbol: string): string {
+    return resolveCoinId(this, symbol);
+  }
+
+  // Full coin list, with market cap and rank for the largest coins
+  async fetchCoinList(): Promise<CoinListing[]> {
+    debug.log("Downloading CoinGecko coin list");
+
+    try {
+      const listResponse = await this.get("/coins/list");
+
+      const markets = new Map<string, { cap?: number; rank?: number }>();
+      for (let page = 1; page <= MARKETS_PAGES; page++) {
+        const response = await this.get("/coins/markets", {
+          vs_currency: "usd",
+          order: "market_cap_desc",
+          per_page: MARKETS_PAGE_SIZE,
+          page,
+        });
+
+        response.data.forEach(
+          (market: {
+            id: string;
+            market_cap: number | null;
+            market_cap_rank: number | null;
+          }) => {
+            markets.set(market.id, {
+              cap: market.market_cap ?? undefined,
+              rank: market.market_cap_rank ?? undefined,
+            });
+          }
+        );
+      }
+
+      const coins: { id: string; symbol: string; name: string }[] =
+        listResponse.data;
+      debug.log(
+        `Fetched ${coins.length} coins, ${markets.size} with market data`
+      );
+
+      return coins.map((coin) => ({
+        id: coin.id,
+        symbol: String(coin.symbol).toUpperCase(),
+        name: coin.name,
+        marketCap: markets.get(coin.id)?.cap,
+        marketCapRank: markets.get(coin.id)?.rank,
+      }));
+    } catch (error) {
+      throw this.mapError(error, "the coin list");
+    }
+  }
+
+  // Build bars from market chart samples (closes and volumes), using the
+  // OHLC endpoint for open/high/low where it covers the range
+  async fetchHistory(
+    coinId: string,
+    days: number,
+    interval: Interval,
+    options: HistoryOptions = {}
+  ): Promise<PricePoint[]> {
+    const endTime = options.endTime ?? currentTime();
+    const startTime = endTime - days * INTERVAL_MS["1d"];
+    const vsCurrency = (options.quote || DEFAULT_QUOTE).toLowerCase();
+
+    const [samples, candles] = await Promise.all([
+      this.fetchMarketChart(coinId, startTime, endTime, vsCurrency),
+      this.fetchCandles(coinId, startTime, endTime, interval, vsCurrency),
+    ]);
+
+    // Group samples into bars; a sample on a boundary closes the previous bar
+    const buckets = new Map<number, { prices: number[]; volume: number }>();
+    samples.forEach(({ timestamp, price, volume }) => {
+      const barStart = barStartForSample(timestamp, interval);
+      const bucket = buckets.get(barStart) || { prices: [], volume: 0 };
+      bucket.prices.push(price);
+      bucket.volume = volume;
+      buckets.set(barStart, bucket);
+    });
+
+    // Volumes are rolling 24h totals; spread them across intraday bars
+    const volumeScale = isIntraday(interval) ? 1 / barsPerDay(interval) : 1;
+
+    let previousClose: number | undefined;
+    const normalizedData = Array.from(buckets.keys())
+      .sort((a, b) => a - b)
+      .map((barStart): PricePoint => {
+        const { prices, volume } = buckets.get(barStart)!;
+        const barVolume = volume * volumeScale;
+        const candle = candles.get(barStart);
+
+        let bar: PricePoint;
+        if (candle) {
+          bar = { ...candle, volume: barVolume };
+        } else {
+          bar = createSyntheticBar(
+            barStart,
+            interval,
+            prices[prices.length - 1],
+            previousClose,
+            barVolume
+          );
+          // Several samples in one bar still bound its range
+          bar.high = Math.max(bar.high, ...prices);
+          bar.low = Math.min(bar.low, ...prices);
+        }
+
+        previousClose = bar.close;
+        return bar;
+      });
+
+    const nativeBars = normalizedData.filter((p) => !p.synthetic).length;
+    debug.success(
+      `Built ${normalizedData.length} ${interval} bars (${nativeBars} with native OHLC)`
+    );
+
+    return normalizedData;
+  }
+
+  // Fetch price and volume samples between two times (ms) from the market
+  // chart range endpoint
+  private async fetchMarketChart(
+    coinId: string,
+    startTime: number,
+    endTime: number,
+    vsCurrency: string
+  ): Promise<{ timestamp: number; price: number; volume: number }[]> {
+    const path = `/coins/${coinId}/market_chart/range`;
+    const params = {
+      vs_currency: vsCurrency,
+      from: Math.floor(startTime / 1000).toString(),
+      to: Math.ceil(endTime / 1000).toString(),
+    };
+
+    debug.log(
+      `Fetching ${coinId} from ${new Date(
+        startTime
+      ).toISOString()} to ${new Date(
+        endTime
+      ).toISOString()} from CoinGecko (market chart API)`
+    );
+    debug.log(`API URL: ${this.baseUrl}${path}`);
+    debug.log(`Parameters:`, params);
+
+    try {
+      const response = await this.get(path, params);
+
+      if (!response.data || !response.data.prices) {
+        throw new Error("Invalid API response format");
+      }
+
+      const { prices, total_volumes } = response.data;
+
+      if (!Array.isArray(prices) || prices.length === 0) {
+        throw new Error("No price data available for the specified period");
+      }
+
+      // Market chart gives us [timestamp, price] arrays
+      const samples = prices.map(
+        (priceData: [number, number], index: number) => {
+          const [timestamp, price] = priceData;
+          const volume = total_volumes[index] ? total_volumes[index][1] : 0;
+
+          return { timestamp, price, volume };
+        }
+      );
+
+      debug.success(
+        `Successfully fetched ${samples.length} data points from market chart API`
+      );
+
+      return samples;
+    } catch (error) {
+      throw this.mapError(error, coinId);
+    }
+  }
+
+  // Fetch candles and aggregate them into bars of the requested interval,
+  // keyed by bar start. Failures are not fatal: callers fall back to
+  // synthetic bars.
+  private async fetchCandles(
+    coinId: string,
+    startTime: number,
+    endTime: number,
+    interval: Interval,
+    vsCurrency: string
+  ): Promise<Map<number, PricePoint>> {
+    const bars = new Map<number, PricePoint>();
+
+    // Candles only exist for the most recent days, measured from now
+    const now = currentTime();
+    if (now - endTime > OHLC_MAX_DAYS * INTERVAL_MS["1d"]) {
+      return bars;
+    }
+
+    const days = (now - startTime) / INTERVAL_MS["1d"];
+    const ohlcDays =
+      OHLC_DAY_OPTIONS.find(
+        (option) => option >= Math.min(days, OHLC_MAX_DAYS)
+      ) || OHLC_MAX_DAYS;
+    const candleLength = ohlcDays <= 2 ? 30 * 60 * 1000 : INTERVAL_MS["4h"];
+
+    // Candles coarser than the requested bars cannot be split
+    if (candleLength > INTERVAL_MS[interval]) {
+      return bars;
+    }
+
+    const params = { vs_currency: vsCurrency, days: ohlcDays.toString() };
+
+    try {
+      const response = await this.get(`/coins/${coinId}/ohlc`, params);
+
+      if (!Array.isArray(response.data)) {
+        throw new Error("Invalid OHLC response format");
+      }
+
+      // Each candle is [closeTime, open, high, low, close]
+      const sorted = [...response.data].sort((a, b) => a[0] - b[0]);
+      const counts = new Map<number, number>();
+      sorted.forEach(
+        ([closeTime, open, high, low, close]: [
+          number,
+          number,
+          number,
+          number,
+          number
+        ]) => {
+          const barStart = barStartForSample(closeTime, interval);
+          const existing = bars.get(barStart);
+          counts.set(barStart, (counts.get(barStart) || 0) + 1);
+
+          if (!existing) {
+            bars.set(barStart, {
+              timestamp: barStart,
+              date: formatBarTime(barStart, interval),
+              open,
+              high,
+              low,
+              close,
+              volume: 0,
+            });
+          } else {
+            existing.high = Math.max(existing.high, high);
+            existing.low = Math.min(existing.low, low);
+            existing.close = close;
+          }
+        }
+      );
+
+      // The oldest bar is usually cut off by the range start; its open and
+      // range would be wrong, so leave it to the synthetic fallback
+      const expected = INTERVAL_MS[interval] / candleLength;
+      const lastBar = Math.max(...Array.from(bars.keys()));
+      counts.forEach((count, barStart) => {
+        if (count < expected && barStart !== lastBar) {
+          bars.delete(barStart);
+        }
+      });
+
+      debug.success(
+        `Aggregated ${sorted.length} OHLC candles into ${bars.size} ${interval} bars`
+      );
+    } catch (error) {
+      debug.warn(
+        `OHLC endpoint unavailable for ${coinId}, using synthetic open/high/low:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    return bars;
+  }
+
+  async fetchCurrentPrice(
+    coinId: string,
+    quote: string = DEFAULT_QUOTE
+  ): Promise<number> {
+    const vsCurrency = quote.toLowerCase();
+    const params = {
+      ids: coinId,
+      vs_currencies: vsCurrency,
+    };
+
+    const response = await this.get("/simple/price", params);
+
+    const price = response.data[coinId]?.[vsCurrency];
+    if (typeof price !== "number") {
+      throw new Error(`No current price available for ${coinId}`);
+    }
+
+    return price;
+  }
+
+  // GET through the shared scheduler (rate limit, concurrency cap, retries),
+  // recorded or replayed when --record/--replay is active
+  private get(path: string, params?: Record<string, string | number>) {
+    return recordedGet(
+      this.scheduler,
+      `${this.baseUrl}${path}`,
+      params,
+      this.headers,
+      API_TIMEOUT,
+      `CoinGecko ${path}`
+    );
+  }
+
+  // Translate HTTP failures into user facing messages
+  private mapError(error: unknown, coinId: string): Error {
+    if (axios.isAxiosError(error)) {
+      if (error.response?.status === 429) {
+        return new Error(
+          "CoinGecko rate limit exceeded after retrying. Please try again later."
+        );
+      } else if (
+        error.response?.status === 401 ||
+        error.response?.status === 403
+      ) {
+        return new Error(
+          this.apiKey
+            ? "CoinGecko rejected the API key in COINGECKO_API_KEY"
+            : `CoinGecko refused the request for ${coinId}. Ranges beyond 365 days need a Pro API key (COINGECKO_API_KEY).`
+        );
+      } else if (error.response?.status === 404) {
+        return new Error(`Coin data not found for ${coinId}`);
+      } else if (error.code === "ECONNABORTED") {
+        return new Error(
+          "Request timeout. Please check your internet connection."
+        );
+      } else if (error.response?.status === 400) {
+        return new Error(
+          `Invalid request parameters for ${coinId}. Please check the coin symbol and date range.`
+        );
+      }
+    }
+
+    debug.error("CoinGecko API error:", error);
+    return new Error(
+      `Failed to fetch data from CoinGecko: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
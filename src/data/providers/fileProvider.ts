@@ -0,0 +1,457 @@
+import fs from "fs";
+import path from "path";
+import { debug } from "../../index";
+import { PricePoint } from "../fetchPrices";
+import {
+  Interval,
+  DEFAULT_INTERVAL,
+  INTERVAL_MS,
+  SUPPORTED_INTERVALS,
+  formatBarTime,
+  intervalFromSpacing,
+} from "../intervals";
+import { canResample, resample } from "../resample";
+import { PriceProvider, HistoryOptions, createSyntheticBar } from "./types";
+
+// Fields a data file can provide
+export type FileField =
+  | "date"
+  | "open"
+  | "close"
+  | "high"
+  | "low"
+  | "volume"
+  | "symbol";
+
+// File provider configuration
+export interface FileProviderOptions {
+  filePath?: string;
+  format?: "csv" | "json"; // Inferred from the file extension when omitted
+  columns?: Partial<Record<FileField, string>>; // Field -> column name overrides
+  dateFormat?: string; // "auto", "unix", "unix_ms" or a pattern like "DD/MM/YYYY"
+  delimiter?: string; // CSV delimiter, defaults to ","
+}
+
+// Column names recognised when no explicit mapping is given
+const DEFAULT_COLUMN_NAMES: Record<FileField, string[]> = {
+  date: ["date", "time", "timestamp", "open time", "datetime", "day"],
+  open: ["open", "open price"],
+  close: ["close", "price", "close price", "last"],
+  high: ["high", "high price"],
+  low: ["low", "low price"],
+  volume: ["volume", "vol", "total_volume", "base volume"],
+  symbol: ["symbol", "ticker", "asset", "coin"],
+};
+
+// Symbol used for files without a symbol column
+const SINGLE_ASSET_ID = "*";
+
+// Performance: Cache parsed files keyed by path, options and modification time
+const fileCache = new Map<
+  string,
+  { mtimeMs: number; rows: Map<string, PricePoint[]> }
+>();
+
+export class FileProvider implements PriceProvider {
+  public readonly name = "file";
+  public readonly displayName: string;
+  public readonly description =
+    "Local CSV/JSON OHLCV file (exchange exports, archived datasets)";
+  public readonly cacheable = false; // Already local, parsed files are memoized
+  public readonly supportedIntervals: Interval[] = SUPPORTED_INTERVALS;
+  // No supportedQuotes: prices are read as given and --quote only labels them
+
+  constructor(private readonly options: FileProviderOptions = {}) {
+    this.displayName = options.filePath
+      ? `File (${path.basename(options.filePath)})`
+      : "File";
+  }
+
+  resolveSymbol(symbol: string): string {
+    const rows = this.loadFile();
+
+    if (rows.has(SINGLE_ASSET_ID)) {
+      // Single-asset file: any --coin refers to its contents
+      return SINGLE_ASSET_ID;
+    }
+
+    const upperSymbol = symbol.toUpperCase();
+    if (!rows.has(upperSymbol)) {
+      throw new Error(
+        `Symbol ${symbol} not found in ${
+          this.options.filePath
+        }. Available: ${Array.from(rows.keys()).join(", ")}`
+      );
+    }
+
+    return upperSymbol;
+  }
+
+  async fetchHistory(
+    assetId: string,
+    days: number,
+    interval: Interval,
+    options: HistoryOptions = {}
+  ): Promise<PricePoint[]> {
+    const points = this.loadFile().get(assetId) || [];
+
+    if (points.length === 0) {
+      return [];
+    }
+
+    // Archived data: measure the range back from the newest point, not from today
+    const lastTime = options.endTime ?? points[points.length - 1].timestamp;
+    const cutoff = lastTime - days * INTERVAL_MS["1d"];
+    const selected = points.filter(
+      (point) => point.timestamp > cutoff && point.timestamp <= lastTime
+    );
+
+    // Finer files are resampled; anything else is read as-is with a warning
+    const spacing = medianSpacing(selected);
+    const fileInterval = intervalFromSpacing(spacing);
+    if (
+      spacing &&
+      spacing < INTERVAL_MS[interval] &&
+      spacing === INTERVAL_MS[fileInterval] &&
+      canResample(fileInterval, interval)
+    ) {
+      const bars = resample(selected, interval);
+      debug.success(
+        `Loaded ${selected.length} ${fileInterval} bars from ${this.options.filePath} as ${bars.length} ${interval} bars`
+      );
+      return bars;
+    }
+
+    if (spacing && spacing !== INTERVAL_MS[interval]) {
+      debug.warn(
+        `${this.options.filePath} has ${Math.round(
+          spacing / 60000
+        )}-minute bars but ${interval} was requested`
+      );
+    }
+
+    debug.success(
+      `Loaded ${selected.length} data points from ${this.options.filePath}`
+    );
+
+    return selected.map((point) => ({
+      ...point,
+      date: formatBarTime(point.timestamp, interval),
+    }));
+  }
+
+  async fetchCurrentPrice(assetId: string): Promise<number> {
+    const points = this.loadFile().get(assetId) || [];
+    if (points.length === 0) {
+      throw new Error(`No price data available for ${assetId}`);
+    }
+    return points[points.length - 1].close;
+  }
+
+  // Load and parse the configured file (memoized by mtime)
+  private loadFile(): Map<string, PricePoint[]> {
+    const filePath = this.options.filePath;
+    if (!filePath) {
+      throw new Error("No data file configured. Use --file <path>");
+    }
+
+    const resolvedPath = path.resolve(filePath);
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`Data file not found: ${resolvedPath}`);
+    }
+
+    const { mtimeMs } = fs.statSync(resolvedPath);
+    const cacheKey = `${resolvedPath}:${JSON.stringify(this.options)}`;
+    const cached = fileCache.get(cacheKey);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      debug.log(`Using cached file contents for ${resolvedPath}`);
+      return cached.rows;
+    }
+
+    const content = fs.readFileSync(resolvedPath, "utf8");
+    const format =
+      this.options.format ||
+      (path.extname(resolvedPath).toLowerCase() === ".json" ? "json" : "csv");
+
+    const records =
+      format === "json"
+        ? parseJsonRecords(content)
+        : parseCsvRecords(content, this.options.delimiter || ",");
+
+    const rows = this.normalizeRecords(records);
+    fileCache.set(cacheKey, { mtimeMs, rows });
+
+    debug.success(
+      `Parsed ${records.length} rows (${rows.size} symbols) from ${resolvedPath}`
+    );
+    return rows;
+  }
+
+  // Convert raw records into PricePoint series grouped by symbol
+  private normalizeRecords(
+    records: Record<string, unknown>[]
+  ): Map<string, PricePoint[]> {
+    if (records.length === 0) {
+      throw new Error("Data file contains no rows");
+    }
+
+    const columns = resolveColumns(Object.keys(records[0]), this.options);
+    const dateFormat = this.options.dateFormat || "auto";
+    const rows = new Map<string, PricePoint[]>();
+    const hasCandles = Boolean(columns.open && columns.high && columns.low);
+
+    if (!hasCandles) {
+      debug.warn(
+        "Data file has no open/high/low columns, bars will be synthesized from closes"
+      );
+    }
+
+    records.forEach((record, index) => {
+      const timestamp = parseDate(record[columns.date!], dateFormat);
+      if (timestamp === null) {
+        debug.warn(`Skipping row ${index + 1}: unparseable date`);
+        return;
+      }
+
+      const close = toNumber(record[columns.close!]);
+      const open = columns.open ? toNumber(record[columns.open]) : NaN;
+      const high = columns.high ? toNumber(record[columns.high]) : NaN;
+      const low = columns.low ? toNumber(record[columns.low]) : NaN;
+      const volume = columns.volume ? toNumber(record[columns.volume]) : 0;
+      const symbol = columns.symbol
+        ? String(record[columns.symbol]).trim().toUpperCase()
+        : SINGLE_ASSET_ID;
+
+      // Missing candle fields are filled in once the series is sorted
+      const point: PricePoint = {
+        timestamp,
+        date: formatBarTime(timestamp, DEFAULT_INTERVAL),
+        open,
+        close,
+        high,
+        low,
+        volume: isNaN(volume) ? 0 : volume,
+      };
+
+      if (!rows.has(symbol)) {
+        rows.set(symbol, []);
+      }
+      rows.get(symbol)!.push(point);
+    });
+
+    // Keep every series oldest to newest, then synthesize incomplete bars
+    rows.forEach((points, symbol) => {
+      points.sort((a, b) => a.timestamp - b.timestamp);
+
+      rows.set(
+        symbol,
+        points.map((point, i) => {
+          if (!isNaN(point.open) && !isNaN(point.high) && !isNaN(point.low)) {
+            return point;
+          }
+          const previousClose = i > 0 ? points[i - 1].close : undefined;
+          return createSyntheticBar(
+            point.timestamp,
+            DEFAULT_INTERVAL,
+            point.close,
+            previousClose,
+            point.volume
+          );
+        })
+      );
+    });
+
+    return rows;
+  }
+}
+
+// Typical gap between consecutive bars (0 when there are too few)
+function medianSpacing(points: PricePoint[]): number {
+  const gaps = points
+    .slice(1)
+    .map((point, i) => point.timestamp - points[i].timestamp)
+    .sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+// Map logical fields to the file's column names
+function resolveColumns(
+  headers: string[],
+  options: FileProviderOptions
+): Partial<Record<FileField, string>> {
+  const resolved: Partial<Record<FileField, string>> = {};
+  const lowerHeaders = headers.map((header) => header.trim().toLowerCase());
+
+  (Object.keys(DEFAULT_COLUMN_NAMES) as FileField[]).forEach((field) => {
+    const override = options.columns?.[field];
+    if (override) {
+      if (!headers.includes(override)) {
+        throw new Error(
+          `Column "${override}" mapped to ${field} not found. Columns: ${headers.join(
+            ", "
+          )}`
+        );
+      }
+      resolved[field] = override;
+      return;
+    }
+
+    const index = lowerHeaders.findIndex((header) =>
+      DEFAULT_COLUMN_NAMES[field].includes(header)
+    );
+    if (index >= 0) {
+      resolved[field] = headers[index];
+    }
+  });
+
+  if (!resolved.date || !resolved.close) {
+    throw new Error(
+      `Data file needs date and close columns (found: ${headers.join(
+        ", "
+      )}). Use --columns to map them`
+    );
+  }
+
+  return resolved;
+}
+
+// Parse CSV content into header-keyed records
+function parseCsvRecords(
+  content: string,
+  delimiter: string
+): Record<string, unknown>[] {
+  const lines = content
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "" && !line.startsWith("#"));
+
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const headers = splitCsvLine(lines[0], delimiter).map((h) => h.trim());
+
+  return lines.slice(1).map((line) => {
+    const values = splitCsvLine(line, delimiter);
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, i) => {
+      record[header] = values[i];
+    });
+    return record;
+  });
+}
+
+// Split a CSV line, honouring double-quoted fields
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+}
+
+// Parse JSON content (array of objects or { data: [...] })
+function parseJsonRecords(content: string): Record<string, unknown>[] {
+  const parsed = JSON.parse(content);
+  const records = Array.isArray(parsed) ? parsed : parsed?.data;
+
+  if (!Array.isArray(records)) {
+    throw new Error("JSON data file must contain an array of rows");
+  }
+
+  return records;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return NaN;
+  return parseFloat(value.replace(/[$,\s]/g, ""));
+}
+
+// Parse a date value according to the configured format
+export function parseDate(value: unknown, format: string): number | null {
+  if (value === undefined || value === null || value === "") return null;
+
+  if (format === "unix" || format === "unix_ms") {
+    const numeric = toNumber(value);
+    if (isNaN(numeric)) return null;
+    return format === "unix" ? numeric * 1000 : numeric;
+  }
+
+  if (format === "auto") {
+    const numeric = typeof value === "number" ? value : Number(value);
+    if (!isNaN(numeric)) {
+      // Seconds until year ~5000, milliseconds above that
+      return numeric < 1e11 ? numeric * 1000 : numeric;
+    }
+    const parsed = Date.parse(String(value));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  return parseDatePattern(String(value).trim(), format);
+}
+
+// Parse dates written with YYYY, MM, DD, HH, mm, ss tokens (UTC)
+function parseDatePattern(value: string, pattern: string): number | null {
+  const tokens = ["YYYY", "MM", "DD", "HH", "mm", "ss"];
+  const order: string[] = [];
+
+  let regexSource = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  tokens.forEach((token) => {
+    if (regexSource.includes(token)) {
+      regexSource = regexSource.replace(
+        token,
+        token === "YYYY" ? "(\\d{4})" : "(\\d{1,2})"
+      );
+    }
+  });
+
+  // Capture groups appear in pattern order
+  tokens
+    .map((token) => ({ token, index: pattern.indexOf(token) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ token }) => order.push(token));
+
+  const match = new RegExp(`^${regexSource}$`).exec(value);
+  if (!match) return null;
+
+  const parts: Record<string, number> = {
+    YYYY: 1970,
+    MM: 1,
+    DD: 1,
+    HH: 0,
+    mm: 0,
+    ss: 0,
+  };
+  order.forEach((token, i) => {
+    parts[token] = parseInt(match[i + 1], 10);
+  });
+
+  return Date.UTC(
+    parts.YYYY,
+    parts.MM - 1,
+    parts.DD,
+    parts.HH,
+    parts.mm,
+    parts.ss
+  );
+}
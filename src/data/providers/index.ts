@@ -0,0 +1,73 @@
+// Export all provider classes
+export { CoinGeckoProvider } from "./coinGeckoProvider";
+export { BinanceProvider } from "./binanceProvider";
+export { FileProvider, FileProviderOptions } from "./fileProvider";
+
+// Export types and utilities
+export * from "./types";
+
+// Import provider classes for registry
+import { CoinGeckoProvider } from "./coinGeckoProvider";
+import { BinanceProvider } from "./binanceProvider";
+import { FileProvider } from "./fileProvider";
+import { PriceProvider } from "./types";
+
+// Default provider used when --provider is not given
+export const DEFAULT_PROVIDER = "coingecko";
+
+// Provider registry with memoization (equivalent to useMemo)
+const providerRegistry = new Map<string, PriceProvider>();
+
+// Initialize providers (equivalent to useCallback)
+export const initializeProviders = (() => {
+  let initialized = false;
+
+  return (): Map<string, PriceProvider> => {
+    if (initialized) {
+      return providerRegistry;
+    }
+
+    // Register all built-in providers (the file provider is reconfigured
+    // with a concrete path via registerProvider once --file is known)
+    const providers = [
+      new CoinGeckoProvider(),
+      new BinanceProvider(),
+      new FileProvider(),
+    ];
+
+    providers.forEach((provider) => {
+      providerRegistry.set(provider.name, provider);
+    });
+
+    initialized = true;
+    return providerRegistry;
+  };
+})();
+
+// Register an additional provider (replaces one with the same name)
+export const registerProvider = (provider: PriceProvider): void => {
+  const registry = initializeProviders();
+  registry.set(provider.name, provider);
+};
+
+// Get provider by name
+export const getProvider = (name: string = DEFAULT_PROVIDER): PriceProvider => {
+  const registry = initializeProviders();
+  const provider = registry.get(name.toLowerCase());
+
+  if (!provider) {
+    throw new Error(
+      `Unknown price provider: ${name}. Available providers: ${getProviderNames().join(
+        ", "
+      )}`
+    );
+  }
+
+  return provider;
+};
+
+// Get provider names
+export const getProviderNames = (): string[] => {
+  const registry = initializeProviders();
+  return Array.from(registry.keys());
+};
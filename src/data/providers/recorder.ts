@@ -0,0 +1,262 @@
+import fs from "fs";
+import path from "path";
+import axios, { AxiosError, AxiosResponse } from "axios";
+import { debug } from "../../index";
+import { RequestScheduler } from "./scheduler";
+
+// live   - requests go to the API
+// record - requests go to the API and every response is written to a directory
+// replay - responses are served from a recorded directory, nothing is sent
+export type RecorderMode = "live" | "record" | "replay";
+
+const MANIFEST_FILE = "manifest.json";
+const MANIFEST_VERSION = 1;
+
+// Query parameters derived from the clock; recordings are matched without
+// them since a replay runs at a different time
+const TIME_PARAMS = ["from", "to", "startTime", "endTime"];
+
+interface RecordedResponse {
+  file: string;
+  key: string; // Endpoint path plus non-time parameters
+  url: string;
+  params: Record<string, string | number>;
+  status: number;
+}
+
+export interface RecordingManifest {
+  version: number;
+  recordedAt: number; // Clock of the recorded run, restored on replay
+  args: string[]; // CLI arguments of the recorded run
+  responses: RecordedResponse[];
+}
+
+type RequestParams = Record<string, string | number>;
+
+// Recorder state (one recording or replay per process)
+let mode: RecorderMode = "live";
+let directory = "";
+let manifest: RecordingManifest | null = null;
+const replayCursor = new Map<string, number>(); // Responses served per key
+
+function requestKey(url: string, params: RequestParams = {}): string {
+  const query = Object.keys(params)
+    .filter((name) => !TIME_PARAMS.includes(name))
+    .sort()
+    .map((name) => `${name}=${params[name]}`)
+    .join("&");
+  return `${new URL(url).pathname}?${query}`;
+}
+
+function writeManifest(): void {
+  fs.writeFileSync(
+    path.join(directory, MANIFEST_FILE),
+    JSON.stringify(manifest, null, 2)
+  );
+}
+
+/**
+ * Switch between live requests, recording and replaying
+ * @param newMode - Recorder mode
+ * @param dir - Recording directory (created for record, read for replay)
+ */
+export function configureRecorder(newMode: RecorderMode, dir = ""): void {
+  mode = newMode;
+  directory = dir;
+  replayCursor.clear();
+
+  if (mode === "record") {
+    fs.mkdirSync(dir, { recursive: true });
+    manifest = {
+      version: MANIFEST_VERSION,
+      recordedAt: Date.now(),
+      args: process.argv.slice(2),
+      responses: [],
+    };
+    writeManifest();
+    debug.log(`Recording API responses to ${dir}`);
+  } else if (mode === "replay") {
+    const manifestPath = path.join(dir, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(
+        `No recording found in ${dir} (missing ${MANIFEST_FILE})`
+      );
+    }
+
+    manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    if (manifest?.version !== MANIFEST_VERSION) {
+      throw new Error(`Unsupported recording format in ${dir}`);
+    }
+    debug.log(
+      `Replaying ${manifest.responses.length} API responses recorded ${new Date(
+        manifest.recordedAt
+      ).toISOString()}`
+    );
+  } else {
+    manifest = null;
+  }
+}
+
+export function getRecorderMode(): RecorderMode {
+  return mode;
+}
+
+// Manifest of the active recording or replay
+export function getRecording(): Readonly<RecordingManifest> | null {
+  return manifest;
+}
+
+// Current time for data requests; a replay runs at the recorded time so the
+// same windows are requested
+export function currentTime(): number {
+  return mode === "replay" && manifest ? manifest.recordedAt : Date.now();
+}
+
+// Store one response (successful or HTTP error) with its raw body
+function recordResponse(
+  url: string,
+  params: RequestParams,
+  status: number,
+  headers: Record<string, string>,
+  body: string
+): void {
+  const key = requestKey(url, params);
+  const index = manifest!.responses.length + 1;
+  const slug = new URL(url).pathname.replace(/[^a-zA-Z0-9]+/g, "-");
+  const file = `${String(index).padStart(4, "0")}${slug}.json`;
+
+  fs.writeFileSync(
+    path.join(directory, file),
+    JSON.stringify({ url, params, status, headers, body }, null, 2)
+  );
+  manifest!.responses.push({ file, key, url, params, status });
+  writeManifest();
+}
+
+// Serve the next recorded response for a request, in recorded order
+function replayResponse(url: string, params: RequestParams): AxiosResponse {
+  const key = requestKey(url, params);
+  const matches = manifest!.responses.filter((entry) => entry.key === key);
+  const served = replayCursor.get(key) || 0;
+
+  if (served >= matches.length) {
+    throw new Error(
+      `No recorded response for GET ${key} in ${directory} (${matches.length} recorded)`
+    );
+  }
+  replayCursor.set(key, served + 1);
+
+  const recorded = JSON.parse(
+    fs.readFileSync(path.join(directory, matches[served].file), "utf8")
+  );
+  const response = {
+    data: parseBody(recorded.body),
+    status: recorded.status,
+    statusText: "",
+    headers: recorded.headers,
+    config: { url, params },
+  } as AxiosResponse;
+
+  if (recorded.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${recorded.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      undefined,
+      undefined,
+      response
+    );
+  }
+  return response;
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * GET through a scheduler, recording or replaying the response as configured
+ * @param scheduler - Rate limiter of the API (unused when replaying)
+ * @param url - Full request URL
+ * @param params - Query parameters
+ * @param headers - Request headers (never recorded, they may hold API keys)
+ * @param timeout - Request timeout in ms
+ * @param label - Shown in retry warnings
+ */
+export async function recordedGet(
+  scheduler: RequestScheduler,
+  url: string,
+  params: RequestParams = {},
+  headers: Record<string, string>,
+  timeout: number,
+  label: string
+): Promise<AxiosResponse> {
+  if (mode === "replay") {
+    return replayResponse(url, params);
+  }
+
+  if (mode === "live") {
+    return scheduler.schedule(
+      () => axios.get(url, { params, headers, timeout }),
+      label
+    );
+  }
+
+  // Keep the body as text so the recording holds exactly what was sent
+  try {
+    const response = await scheduler.schedule(
+      () =>
+        axios.get<string>(url, {
+          params,
+          headers,
+          timeout,
+          responseType: "text",
+          transformResponse: (data) => data,
+        }),
+      label
+    );
+    recordResponse(
+      url,
+      params,
+      response.status,
+      pickHeaders(response.headers),
+      response.data
+    );
+    return { ...response, data: parseBody(response.data) };
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const body = String(error.response.data ?? "");
+      recordResponse(
+        url,
+        params,
+        error.response.status,
+        pickHeaders(error.response.headers),
+        body
+      );
+      error.response.data = parseBody(body);
+    }
+    throw error;
+  }
+}
+
+// Response headers worth keeping (the rest vary per request)
+function pickHeaders(headers: unknown): Record<string, string> {
+  const source = (headers || {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    ["content-type", "retry-after"]
+      .filter((name) => source[name] !== undefined)
+      .map((name) => [name, String(source[name])])
+  );
+}
+
+// Performance monitoring
+export function getRecorderStats() {
+  return {
+    mode,
+    directory,
+    responses: manifest?.responses.length ?? 0,
+  };
+}
@@ -0,0 +1,266 @@
+import axios from "axios";
+import { debug } from "../../index";
+
+// Rate limiting and retry settings of one API
+export interface SchedulerOptions {
+  requestsPerMinute: number; // Sustained rate (token refill)
+  burst: number; // Requests allowed back to back (bucket size)
+  maxConcurrent: number; // Requests in flight, including retries
+  maxRetries: number; // Attempts after the first one
+  baseDelayMs: number; // First backoff, doubled per attempt
+  maxDelayMs: number; // Longest wait, also the cap for Retry-After
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  requestsPerMinute: 60,
+  burst: 5,
+  maxConcurrent: 4,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+// HTTP statuses worth retrying (rate limits and transient server errors)
+const RETRY_STATUSES = [429, 500, 502, 503, 504];
+const RETRY_CODES = ["ECONNRESET", "ECONNABORTED", "ETIMEDOUT", "EAI_AGAIN"];
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Environment overrides apply to every scheduler, e.g. to stay well below a
+// shared key's quota or to test against a local stub server without waiting
+function envOverrides(): Partial<SchedulerOptions> {
+  const overrides: Partial<SchedulerOptions> = {};
+  const read = (name: string, key: keyof SchedulerOptions, min: number) => {
+    const value = process.env[name];
+    if (value === undefined || value === "") return;
+
+    const parsed = Number(value);
+    if (!isFinite(parsed) || parsed < min) {
+      debug.warn(`Ignoring ${name}=${value}: expected a number >= ${min}`);
+      return;
+    }
+    overrides[key] = parsed;
+  };
+
+  read("CRYPTO_FORECAST_RATE_LIMIT", "requestsPerMinute", 1);
+  read("CRYPTO_FORECAST_CONCURRENCY", "maxConcurrent", 1);
+  read("CRYPTO_FORECAST_MAX_RETRIES", "maxRetries", 0);
+  read("CRYPTO_FORECAST_RETRY_DELAY", "baseDelayMs", 0);
+  return overrides;
+}
+
+// Seconds or an HTTP date, as allowed by RFC 9110
+function parseRetryAfter(value: unknown, now: number): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function describeFailure(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response
+      ? `HTTP ${error.response.status}`
+      : error.code || error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Token bucket with a concurrency cap and retries for one API. A 429 pauses
+ * every queued request of the API, not only the one that was refused.
+ */
+export class RequestScheduler {
+  public readonly options: SchedulerOptions;
+
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly waiting: (() => void)[] = [];
+  private readonly stats = {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+    failures: 0,
+  };
+
+  constructor(
+    public readonly name: string,
+    options: Partial<SchedulerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Run a request once a slot and a token are free, retrying failures
+   * @param task - Performs one attempt (called again for each retry)
+   * @param label - Shown in retry warnings
+   * @returns The task's result; the last error once retries run out
+   */
+  async schedule<T>(task: () => Promise<T>, label = this.name): Promise<T> {
+    await this.acquireSlot();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.takeToken();
+        this.stats.requests++;
+
+        try {
+          return await task();
+        } catch (error) {
+          const delay = this.retryDelay(error, attempt);
+          if (delay === undefined) {
+            this.stats.failures++;
+            throw error;
+          }
+
+          this.stats.retries++;
+          debug.warn(
+            `${label}: ${describeFailure(error)}, retrying in ${(
+              delay / 1000
+            ).toFixed(1)}s (${attempt + 1}/${this.options.maxRetries})`
+          );
+          await sleep(delay);
+        }
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  getStats() {
+    return {
+      ...this.stats,
+      active: this.active,
+      queued: this.waiting.length,
+    };
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return;
+    }
+
+    // The releasing request hands its slot over directly
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async takeToken(): Promise<void> {
+    const refillMs = 60000 / this.options.requestsPerMinute;
+
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.tokens = Math.min(
+        this.options.burst,
+        this.tokens + (now - this.lastRefill) / refillMs
+      );
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep((1 - this.tokens) * refillMs);
+    }
+  }
+
+  // Backoff before the next attempt, or undefined when the error is final
+  private retryDelay(error: unknown, attempt: number): number | undefined {
+    if (!axios.isAxiosError(error) || attempt >= this.options.maxRetries) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    const retryable = status
+      ? RETRY_STATUSES.includes(status)
+      : RETRY_CODES.includes(error.code || "");
+    if (!retryable) {
+      return undefined;
+    }
+
+    const backoff = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** attempt
+    );
+    // Jitter keeps parallel requests from retrying in lockstep
+    const jittered = backoff * (0.75 + Math.random() * 0.5);
+
+    if (status !== 429) {
+      return jittered;
+    }
+
+    this.stats.rateLimited++;
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"],
+      Date.now()
+    );
+
+    // Waiting longer than maxDelayMs would stall the run; report the limit
+    if (retryAfter !== undefined && retryAfter > this.options.maxDelayMs) {
+      return undefined;
+    }
+
+    const delay = retryAfter ?? jittered;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+    this.tokens = 0;
+    return delay;
+  }
+}
+
+// Performance: One scheduler per API, shared by every provider instance
+// (equivalent to useMemo)
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Get the shared scheduler of an API, creating it on first use
+ * @param name - API identifier, e.g. "coingecko" or "coingecko-pro"
+ * @param options - Limits used when the scheduler is created
+ */
+export function getScheduler(
+  name: string,
+  options: Partial<SchedulerOptions> = {}
+): RequestScheduler {
+  if (!schedulers.has(name)) {
+    schedulers.set(
+      name,
+      new RequestScheduler(name, { ...options, ...envOverrides() })
+    );
+  }
+  return schedulers.get(name)!;
+}
+
+// Performance monitoring
+export function getSchedulerStats() {
+  return Object.fromEntries(
+    Array.from(schedulers.values()).map((scheduler) => [
+      scheduler.name,
+      scheduler.getStats(),
+    ])
+  );
+}
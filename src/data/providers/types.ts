@@ -0,0 +1,85 @@
+import { PricePoint } from "../fetchPrices";
+import { Interval, formatBarTime } from "../intervals";
+
+// What a provider can serve per bar interval (missing entries are unlimited)
+export interface ProviderLimits {
+  maxHistoryDays?: Partial<Record<Interval, number>>; // How far back data goes
+  maxRequestDays?: Partial<Record<Interval, number>>; // Longest range per request
+}
+
+// One coin in a provider's listing (used for symbol resolution and search)
+export interface CoinListing {
+  id: string; // Provider asset id
+  symbol: string;
+  name: string;
+  marketCap?: number; // USD, when the listing includes it
+  marketCapRank?: number;
+}
+
+// Optional parameters of a history request
+export interface HistoryOptions {
+  endTime?: number; // ms, defaults to the newest available data
+  quote?: string; // Quote currency code, defaults to DEFAULT_QUOTE
+}
+
+// Price data provider interface
+export interface PriceProvider {
+  name: string; // Identifier used by the --provider flag
+  displayName: string; // Human readable source name for summaries
+  description: string;
+  cacheable?: boolean; // false for local sources that skip the on-disk cache
+  supportedIntervals: Interval[];
+  limits?: ProviderLimits; // Longer ranges are fetched in chunks
+  supportedQuotes?: string[]; // Omitted when prices are taken as given
+
+  // Bundled coin listing, used until a full one is downloaded
+  coinSnapshot?: CoinListing[];
+
+  // Map a ticker symbol (BTC, ETH, ...) to the provider's own asset id
+  resolveSymbol(symbol: string): string;
+
+  // Download the provider's full coin listing
+  fetchCoinList?(): Promise<CoinListing[]>;
+
+  // Fetch bars covering `days` days (may be fractional) up to
+  // `options.endTime` for a resolved asset id
+  fetchHistory(
+    assetId: string,
+    days: number,
+    interval: Interval,
+    options?: HistoryOptions
+  ): Promise<PricePoint[]>;
+
+  // Fetch the latest spot price for a resolved asset id
+  fetchCurrentPrice(assetId: string, quote?: string): Promise<number>;
+}
+
+// Shared request settings for HTTP based providers
+export const API_TIMEOUT = 10000; // 10 seconds
+export const REQUEST_HEADERS = {
+  Accept: "application/json",
+  "User-Agent": "CryptoForecastCLI/1.0.0",
+};
+
+// Build a bar from closes only when a source has no candle data.
+// Opens at the previous close and spans open..close, flagged synthetic.
+export function createSyntheticBar(
+  timestamp: number,
+  interval: Interval,
+  close: number,
+  previousClose: number | undefined,
+  volume: number
+): PricePoint {
+  const open = previousClose ?? close;
+
+  return {
+    timestamp,
+    date: formatBarTime(timestamp, interval),
+    open,
+    close,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    volume,
+    synthetic: true,
+  };
+}
@@ -0,0 +1,268 @@
+import { debug } from "../index";
+import { PricePoint } from "./fetchPrices";
+import { Interval, alignToInterval, addBars } from "./intervals";
+import { createSyntheticBar } from "./providers/types";
+
+// How missing bars and outliers are repaired
+//  ffill       - missing bars repeat the previous close, spikes take it over
+//  interpolate - missing bars and spikes lie on a line between neighbours
+//  drop        - spikes are removed, gaps are left as they are
+//  none        - report only
+export type RepairPolicy = "ffill" | "interpolate" | "drop" | "none";
+export const REPAIR_POLICIES: RepairPolicy[] = [
+  "ffill",
+  "interpolate",
+  "drop",
+  "none",
+];
+export const DEFAULT_REPAIR_POLICY: RepairPolicy = "ffill";
+
+export interface QualityOptions {
+  policy?: RepairPolicy;
+  maxFillBars?: number; // Longer gaps are reported but never filled
+  outlierWindow?: number; // Neighbours on each side compared with a bar
+  outlierThreshold?: number; // Robust z-score that marks a spike
+  minOutlierMove?: number; // Smallest deviation (log return) that counts
+}
+
+const DEFAULT_OPTIONS: Required<QualityOptions> = {
+  policy: DEFAULT_REPAIR_POLICY,
+  maxFillBars: 7,
+  outlierWindow: 5,
+  outlierThreshold: 10,
+  minOutlierMove: 0.2,
+};
+
+export interface DataGap {
+  after: string; // Last bar before the gap
+  before: string; // First bar after the gap
+  missingBars: number;
+  filled: boolean;
+}
+
+export interface DataOutlier {
+  date: string;
+  close: number;
+  expected: number; // Median close of the neighbouring bars
+  score: number; // Robust z-score of the deviation
+  confirmed: boolean; // A full window of later bars follows (else report only)
+}
+
+export interface QualityReport {
+  policy: RepairPolicy;
+  bars: number; // After repair
+  duplicates: number; // Bars sharing a bar start with a later one (dropped)
+  gaps: DataGap[];
+  missingBars: number;
+  outliers: DataOutlier[];
+  filledBars: number; // Inserted for gaps
+  repairedBars: number; // Outliers replaced
+  droppedBars: number; // Outliers removed
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Keep the newest bar of each bar start (providers may return a partial
+// point for the current bar next to the completed one)
+function removeDuplicates(
+  data: PricePoint[],
+  interval: Interval
+): { data: PricePoint[]; duplicates: number } {
+  const byStart = new Map<number, PricePoint>();
+  data.forEach((point) =>
+    byStart.set(alignToInterval(point.timestamp, interval), point)
+  );
+
+  return {
+    data: Array.from(byStart.values()).sort(
+      (a, b) => a.timestamp - b.timestamp
+    ),
+    duplicates: data.length - byStart.size,
+  };
+}
+
+// Spikes: closes far from the median of their neighbours, measured against
+// the neighbours' own spread, so level shifts and trends are not flagged.
+// Bars without neighbours on both sides are not scored, and only the later
+// bars tell a spike from a level shift, so bars in the last window are
+// unconfirmed
+function findOutliers(
+  data: PricePoint[],
+  options: Required<QualityOptions>
+): Map<number, DataOutlier> {
+  const outliers = new Map<number, DataOutlier>();
+  const logs = data.map((point) => Math.log(point.close));
+  const window = options.outlierWindow;
+
+  for (let i = 0; i < data.length; i++) {
+    const before = logs.slice(Math.max(0, i - window), i);
+    const after = logs.slice(i + 1, i + 1 + window);
+    const neighbours = [...before, ...after];
+    if (before.length === 0 || after.length === 0) continue;
+    if (neighbours.length < window) continue;
+
+    const center = median(neighbours);
+    const mad = median(neighbours.map((value) => Math.abs(value - center)));
+    const deviation = Math.abs(logs[i] - center);
+    if (deviation < options.minOutlierMove) continue;
+
+    // Flat neighbours (MAD 0) make any large move a spike
+    const score = mad > 0 ? deviation / (1.4826 * mad) : Infinity;
+    if (score >= options.outlierThreshold) {
+      outliers.set(i, {
+        date: data[i].date,
+        close: data[i].close,
+        expected: Math.exp(center),
+        score,
+        confirmed: after.length === window,
+      });
+    }
+  }
+
+  return outliers;
+}
+
+/**
+ * Detect duplicates, gaps and spikes, and repair them by policy
+ * @param data - Bars sorted oldest to newest
+ * @param interval - Bar interval the data should follow
+ * @param options - Repair policy and detection thresholds
+ * @returns Repaired bars (inserted and replaced bars are synthetic) and a report
+ */
+export function checkDataQuality(
+  data: PricePoint[],
+  interval: Interval,
+  options: QualityOptions = {}
+): { data: PricePoint[]; report: QualityReport } {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const policy = options.policy || DEFAULT_REPAIR_POLICY;
+
+  const deduplicated = removeDuplicates(data, interval);
+  const outliers = findOutliers(deduplicated.data, settings);
+
+  const report: QualityReport = {
+    policy,
+    bars: 0,
+    duplicates: deduplicated.duplicates,
+    gaps: [],
+    missingBars: 0,
+    outliers: Array.from(outliers.values()),
+    filledBars: 0,
+    repairedBars: 0,
+    droppedBars: 0,
+  };
+
+  // Replace or remove spikes before filling gaps, so fills start from clean
+  // closes (unconfirmed spikes may be a real move and are kept)
+  const cleaned: PricePoint[] = [];
+  deduplicated.data.forEach((point, index) => {
+    if (!outliers.get(index)?.confirmed || policy === "none") {
+      cleaned.push(point);
+      return;
+    }
+
+    if (policy === "drop") {
+      report.droppedBars++;
+      return;
+    }
+
+    const previous = cleaned[cleaned.length - 1];
+    const next = deduplicated.data
+      .slice(index + 1)
+      .find((_, offset) => !outliers.has(index + 1 + offset));
+    const close =
+      policy === "interpolate" && previous && next
+        ? (previous.close + next.close) / 2
+        : previous?.close ?? outliers.get(index)!.expected;
+
+    cleaned.push(
+      createSyntheticBar(
+        point.timestamp,
+        interval,
+        close,
+        previous?.close,
+        point.volume
+      )
+    );
+    report.repairedBars++;
+  });
+
+  // Walk the interval grid between consecutive bars
+  const repaired: PricePoint[] = [];
+  cleaned.forEach((point, index) => {
+    const previous = cleaned[index - 1];
+    if (previous) {
+      const start = alignToInterval(point.timestamp, interval);
+      const missing: number[] = [];
+      let bar = addBars(
+        alignToInterval(previous.timestamp, interval),
+        1,
+        interval
+      );
+      while (bar < start) {
+        missing.push(bar);
+        bar = addBars(bar, 1, interval);
+      }
+
+      if (missing.length > 0) {
+        const fill =
+          (policy === "ffill" || policy === "interpolate") &&
+          missing.length <= settings.maxFillBars;
+
+        report.gaps.push({
+          after: previous.date,
+          before: point.date,
+          missingBars: missing.length,
+          filled: fill,
+        });
+        report.missingBars += missing.length;
+
+        if (fill) {
+          missing.forEach((barStart, step) => {
+            const close =
+              policy === "interpolate"
+                ? previous.close +
+                  ((point.close - previous.close) * (step + 1)) /
+                    (missing.length + 1)
+                : previous.close;
+            repaired.push(
+              createSyntheticBar(
+                barStart,
+                interval,
+                close,
+                repaired[repaired.length - 1].close,
+                0
+              )
+            );
+          });
+          report.filledBars += missing.length;
+        }
+      }
+    }
+
+    repaired.push(point);
+  });
+
+  report.bars = repaired.length;
+
+  if (report.duplicates || report.missingBars || report.outliers.length) {
+    debug.warn(
+      `Data quality: ${report.duplicates} duplicates, ${report.missingBars} missing ${interval} bars in ${report.gaps.length} gaps, ${report.outliers.length} outliers (policy: ${policy})`
+    );
+  } else {
+    debug.success(`Data quality check passed for ${repaired.length} bars`);
+  }
+
+  return { data: repaired, report };
+}
+
+// One-line description of a gap, e.g. "2024-03-01 → 2024-03-04 (2 bars)"
+export function describeGap(gap: DataGap, interval: Interval): string {
+  return `${gap.after} → ${gap.before} (${gap.missingBars} ${interval} bar${
+    gap.missingBars === 1 ? "" : "s"
+  } missing${gap.filled ? ", filled" : ""})`;
+}
@@ -0,0 +1,42 @@
+// Quote currencies prices are expressed in (fiat codes or crypto tickers)
+export const DEFAULT_QUOTE = "USD";
+
+// Display symbols for common quotes; others print their code after the value
+const QUOTE_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+  BTC: "₿",
+  ETH: "Ξ",
+};
+
+export function normalizeQuote(quote?: string): string {
+  return (quote || DEFAULT_QUOTE).trim().toUpperCase();
+}
+
+// Decimal places for a price: 2 from 1 upwards, otherwise enough for about
+// 4 significant digits (ratios like SOL/BTC are far below 1)
+export function priceDecimals(value: number): number {
+  const abs = Math.abs(value);
+  if (abs >= 1 || abs === 0 || !isFinite(abs)) {
+    return 2;
+  }
+  return Math.min(10, Math.ceil(-Math.log10(abs)) + 3);
+}
+
+// Format a price, e.g. "$123.45", "€98.10", "₿0.002345" or "1.23 CHF"
+export function formatPrice(
+  value: number,
+  quote: string = DEFAULT_QUOTE,
+  decimals: number = priceDecimals(value)
+): string {
+  const amount = value.toFixed(decimals);
+  const symbol = QUOTE_SYMBOLS[quote];
+  return symbol ? `${symbol}${amount}` : `${amount} ${quote}`;
+}
+
+// Pair label for summaries, e.g. "SOL/BTC"
+export function formatPair(symbol: string, quote: string): string {
+  return `${symbol.toUpperCase()}/${quote}`;
+}
@@ -0,0 +1,112 @@
+import { debug } from "../index";
+import { PricePoint } from "./fetchPrices";
+import {
+  Interval,
+  INTERVAL_MS,
+  SUPPORTED_INTERVALS,
+  alignToInterval,
+  formatBarTime,
+} from "./intervals";
+
+// Resampling options
+export interface ResampleOptions {
+  // Keep a leading bar whose first source bar starts after the bar start.
+  // Its open/high/low only cover part of the period, so it is dropped by default.
+  keepPartialFirst?: boolean;
+}
+
+// Whether bars of `source` can be combined into bars of `target`
+export function canResample(source: Interval, target: Interval): boolean {
+  if (INTERVAL_MS[target] <= INTERVAL_MS[source]) {
+    return false;
+  }
+
+  // Calendar weeks and months are whole days; fixed intervals must divide evenly
+  if (target === "1w" || target === "1M") {
+    return INTERVAL_MS["1d"] % INTERVAL_MS[source] === 0;
+  }
+  return INTERVAL_MS[target] % INTERVAL_MS[source] === 0;
+}
+
+// Coarsest interval in `available` that can be resampled into `target`
+export function findResampleSource(
+  target: Interval,
+  available: Interval[]
+): Interval | null {
+  const candidates = SUPPORTED_INTERVALS.filter(
+    (interval) => available.includes(interval) && canResample(interval, target)
+  ).sort((a, b) => INTERVAL_MS[b] - INTERVAL_MS[a]);
+
+  return candidates[0] || null;
+}
+
+/**
+ * Aggregate bars into a coarser interval
+ * @param points - Source bars, oldest to newest
+ * @param target - Interval of the resulting bars
+ * @param options - Resampling options
+ * @returns Bars with first open, max high, min low, last close, summed volume
+ *   (and trade counts)
+ */
+export function resample(
+  points: PricePoint[],
+  target: Interval,
+  options: ResampleOptions = {}
+): PricePoint[] {
+  if (points.length === 0) {
+    return [];
+  }
+
+  // Not memoized: series with the same length, endpoints and last close can
+  // still differ (per-provider consensus inputs, repaired vs raw bars), and a
+  // key covering every bar would cost as much as the single pass below
+  const sorted = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const bars: PricePoint[] = [];
+  let current: PricePoint | null = null;
+
+  sorted.forEach((point) => {
+    const barStart = alignToInterval(point.timestamp, target);
+
+    if (!current || current.timestamp !== barStart) {
+      current = {
+        timestamp: barStart,
+        date: formatBarTime(barStart, target),
+        open: point.open,
+        high: point.high,
+        low: point.low,
+        close: point.close,
+        volume: point.volume,
+        synthetic: point.synthetic,
+        trades: point.trades,
+      };
+      bars.push(current);
+      return;
+    }
+
+    current.high = Math.max(current.high, point.high);
+    current.low = Math.min(current.low, point.low);
+    current.close = point.close;
+    current.volume += point.volume;
+    current.synthetic = current.synthetic || point.synthetic;
+    if (point.trades !== undefined) {
+      current.trades = (current.trades ?? 0) + point.trades;
+    }
+  });
+
+  // A leading bar that starts mid-period has the wrong open and range
+  if (
+    !options.keepPartialFirst &&
+    bars.length > 1 &&
+    sorted[0].timestamp > bars[0].timestamp
+  ) {
+    bars.shift();
+  }
+
+  // The newest bar is kept even when still in progress (e.g. the current
+  // week), matching how providers return the current daily bar
+  debug.log(
+    `Resampled ${points.length} bars into ${bars.length} ${target} bars`
+  );
+
+  return bars;
+}
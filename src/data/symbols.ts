@@ -0,0 +1,253 @@
+import fs from "fs";
+import path from "path";
+import { debug } from "../index";
+import { PriceProvider, CoinListing } from "./providers/types";
+
+// Downloaded coin listings (one JSON file per provider)
+export const SYMBOL_CACHE_DIR = path.join(process.cwd(), ".cache", "symbols");
+const LISTING_VERSION = 1;
+
+// User overrides, e.g. { "coingecko": { "TRUMP": "maga" } }
+export const ALIAS_FILE =
+  process.env.CRYPTO_FORECAST_ALIASES ||
+  path.join(process.cwd(), "coin-aliases.json");
+
+// Coin listing with where it came from
+export interface CoinListingSet {
+  coins: CoinListing[];
+  source: "listing" | "snapshot";
+  fetchedAt?: number; // Set for downloaded listings
+}
+
+interface ListingFile {
+  version: number;
+  provider: string;
+  fetchedAt: number;
+  coins: CoinListing[];
+}
+
+// Performance: Memoized listings and aliases (equivalent to useMemo)
+const listingCache = new Map<string, CoinListingSet>();
+let aliasCache: Record<string, Record<string, string>> | null = null;
+
+function listingPath(providerName: string): string {
+  return path.join(SYMBOL_CACHE_DIR, `${providerName}.json`);
+}
+
+// Whether symbols of a provider can be checked before fetching prices
+export function hasCoinListing(provider: PriceProvider): boolean {
+  return Boolean(provider.coinSnapshot || provider.fetchCoinList);
+}
+
+// Read the alias file once; symbols are matched case-insensitively
+export function loadAliases(providerName: string): Record<string, string> {
+  if (!aliasCache) {
+    aliasCache = {};
+
+    if (fs.existsSync(ALIAS_FILE)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(ALIAS_FILE, "utf8"));
+        Object.entries(parsed || {}).forEach(([provider, aliases]) => {
+          if (!aliases || typeof aliases !== "object") {
+            debug.warn(`Ignoring aliases for ${provider}: expected an object`);
+            return;
+          }
+
+          aliasCache![provider.toLowerCase()] = Object.fromEntries(
+            Object.entries(aliases as Record<string, unknown>)
+              .filter(([, id]) => typeof id === "string" && id.trim())
+              .map(([symbol, id]) => [symbol.toUpperCase(), String(id).trim()])
+          );
+        });
+        debug.log(`Loaded coin aliases from ${ALIAS_FILE}`);
+      } catch (error) {
+        debug.warn(`Ignoring unreadable alias file ${ALIAS_FILE}:`, error);
+      }
+    }
+  }
+
+  return aliasCache[providerName] || {};
+}
+
+// Downloaded listing when there is one, otherwise the bundled snapshot
+export function getCoinListing(provider: PriceProvider): CoinListingSet {
+  if (listingCache.has(provider.name)) {
+    return listingCache.get(provider.name)!;
+  }
+
+  let listing: CoinListingSet = {
+    coins: provider.coinSnapshot || [],
+    source: "snapshot",
+  };
+
+  const filePath = listingPath(provider.name);
+  if (fs.existsSync(filePath)) {
+    try {
+      const parsed: ListingFile = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      if (parsed?.version === LISTING_VERSION && Array.isArray(parsed.coins)) {
+        listing = {
+          coins: parsed.coins,
+          source: "listing",
+          fetchedAt: parsed.fetchedAt,
+        };
+      } else {
+        debug.warn(`Ignoring coin listing with unknown format: ${filePath}`);
+      }
+    } catch (error) {
+      debug.warn(`Ignoring unreadable coin listing ${filePath}:`, error);
+    }
+  }
+
+  debug.log(
+    `Using ${listing.source} coin list for ${provider.name} (${listing.coins.length} coins)`
+  );
+  listingCache.set(provider.name, listing);
+  return listing;
+}
+
+// Download and store the provider's full coin listing
+export async function refreshCoinListing(
+  provider: PriceProvider
+): Promise<CoinListingSet> {
+  if (!provider.fetchCoinList) {
+    throw new Error(`${provider.displayName} does not provide a coin listing`);
+  }
+
+  const coins = await provider.fetchCoinList();
+  if (coins.length === 0) {
+    throw new Error(`${provider.displayName} returned an empty coin listing`);
+  }
+
+  const file: ListingFile = {
+    version: LISTING_VERSION,
+    provider: provider.name,
+    fetchedAt: Date.now(),
+    coins,
+  };
+
+  // Write to a temp file first so an interrupted run cannot corrupt the cache
+  const filePath = listingPath(provider.name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(file));
+  fs.renameSync(`${filePath}.tmp`, filePath);
+
+  const listing: CoinListingSet = {
+    coins,
+    source: "listing",
+    fetchedAt: file.fetchedAt,
+  };
+  listingCache.set(provider.name, listing);
+
+  debug.success(`Stored ${coins.length} coins for ${provider.name}`);
+  return listing;
+}
+
+// Largest market cap first; unranked coins last, by name
+function byMarketCap(a: CoinListing, b: CoinListing): number {
+  const rankA = a.marketCapRank ?? Number.MAX_SAFE_INTEGER;
+  const rankB = b.marketCapRank ?? Number.MAX_SAFE_INTEGER;
+  return rankA !== rankB ? rankA - rankB : a.name.localeCompare(b.name);
+}
+
+/**
+ * Resolve a ticker (or a provider asset id) to the provider's asset id
+ * @param provider - Provider whose listing and aliases are used
+ * @param symbol - Ticker such as BTC, or an id such as official-trump
+ * @returns Asset id; aliases win, then the largest coin with that ticker
+ */
+export function resolveCoinId(provider: PriceProvider, symbol: string): string {
+  const upperSymbol = symbol.toUpperCase();
+
+  const alias = loadAliases(provider.name)[upperSymbol];
+  if (alias) {
+    debug.log(`Using alias ${upperSymbol} → ${alias}`);
+    return alias;
+  }
+
+  const { coins, source } = getCoinListing(provider);
+  const matches = coins
+    .filter((coin) => coin.symbol.toUpperCase() === upperSymbol)
+    .sort(byMarketCap);
+
+  if (matches.length > 1) {
+    const candidates = matches
+      .map((coin) => `${coin.id} (${coin.name})`)
+      .join(", ");
+
+    if (matches[0].marketCapRank === undefined) {
+      throw new Error(
+        `${upperSymbol} is ambiguous: ${candidates}. Pick one with --coin <id> or an alias in ${ALIAS_FILE}`
+      );
+    }
+
+    debug.warn(
+      `${upperSymbol} matches ${matches.length} coins (${candidates}); using ${matches[0].id}. Pin another in ${ALIAS_FILE}`
+    );
+  }
+
+  if (matches.length > 0) {
+    return matches[0].id;
+  }
+
+  // Provider ids are accepted directly to pick between same-ticker coins
+  const byId = coins.find((coin) => coin.id === symbol.toLowerCase());
+  if (byId) {
+    return byId.id;
+  }
+
+  throw new Error(
+    `Unknown coin symbol: ${symbol}. Try \`search ${symbol}\`${
+      source === "snapshot" && provider.fetchCoinList
+        ? " (add --refresh to download the full coin list)"
+        : ""
+    }`
+  );
+}
+
+/**
+ * Search a provider's listing by ticker, name or id
+ * @param provider - Provider whose listing is searched
+ * @param term - Search text (case-insensitive)
+ * @param limit - Maximum number of results
+ * @returns Matches, exact tickers first, then by market cap
+ */
+export function searchCoins(
+  provider: PriceProvider,
+  term: string,
+  limit: number = 20
+): CoinListing[] {
+  const needle = term.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+
+  // 0: exact ticker, 1: ticker prefix, 2: name or id contains the term
+  const score = (coin: CoinListing): number => {
+    const symbol = coin.symbol.toLowerCase();
+    if (symbol === needle || coin.id === needle) return 0;
+    if (symbol.startsWith(needle)) return 1;
+    if (
+      coin.name.toLowerCase().includes(needle) ||
+      coin.id.includes(needle)
+    ) {
+      return 2;
+    }
+    return -1;
+  };
+
+  return getCoinListing(provider)
+    .coins.map((coin) => ({ coin, score: score(coin) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || byMarketCap(a.coin, b.coin))
+    .slice(0, limit)
+    .map(({ coin }) => coin);
+}
+
+// Performance monitoring
+export function getSymbolRegistryStats() {
+  return {
+    listings: listingCache.size,
+    aliasFile: ALIAS_FILE,
+    aliasesLoaded: aliasCache !== null,
+  };
+}
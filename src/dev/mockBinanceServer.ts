@@ -0,0 +1,174 @@
+// Local stand-in for the Binance spot API, serving the klines fixtures so the
+// Binance provider (paging, rate limits, error mapping) runs without network
+// access. Start it with `npm run mock:binance` and point the provider at it:
+//   BINANCE_API_URL=http://localhost:18080 npm run dev -- --coin BTC --provider binance
+import http from "http";
+import { Interval, INTERVAL_MS, alignToInterval } from "../data/intervals";
+import { Kline } from "../data/providers/binanceProvider";
+import btcHourly from "./fixtures/binance/BTCUSDT-1h.json";
+import btcDaily from "./fixtures/binance/BTCUSDT-1d.json";
+import ethDaily from "./fixtures/binance/ETHUSDT-1d.json";
+import errors from "./fixtures/binance/errors.json";
+
+// Fixtures keyed by "<market>-<interval>"
+const FIXTURES: Record<string, Kline[]> = {
+  "BTCUSDT-1h": btcHourly as Kline[],
+  "BTCUSDT-1d": btcDaily as Kline[],
+  "ETHUSDT-1d": ethDaily as Kline[],
+};
+
+export interface MockServerOptions {
+  port?: number; // 0 picks a free port
+  pageLimit?: number; // Caps klines per response to exercise paging
+  rateLimitEvery?: number; // Answer every n-th request with HTTP 429
+  replayToNow?: boolean; // Shift fixtures so the newest kline is current
+  tickWave?: number; // Ticker prices swing around the last close by this
+  // fraction, one step per ticker request, for exercising live feeds
+}
+
+export interface MockServer {
+  url: string;
+  requests: () => number;
+  close: () => Promise<void>;
+}
+
+// Ticker requests per swing of the tick wave
+const TICK_WAVE_PERIOD = 16;
+
+// Fixture klines, moved forward so they end with the current bar
+function replayKlines(market: string, interval: Interval, toNow: boolean) {
+  const klines = FIXTURES[`${market}-${interval}`];
+  if (!klines || !toNow) {
+    return klines;
+  }
+
+  const shift =
+    alignToInterval(Date.now(), interval) - klines[klines.length - 1][0];
+  return klines.map((kline) => {
+    const shifted = [...kline] as Kline;
+    shifted[0] += shift;
+    shifted[6] += shift;
+    return shifted;
+  });
+}
+
+function send(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Start the mock server
+ * @param options - Port, paging and failure injection
+ * @returns Base URL for BINANCE_API_URL and a close function
+ */
+export function startMockBinanceServer(
+  options: MockServerOptions = {}
+): Promise<MockServer> {
+  const {
+    pageLimit = 1000,
+    rateLimitEvery = 0,
+    replayToNow = true,
+    tickWave = 0,
+  } = options;
+  let requests = 0;
+  let tickerRequests = 0;
+  // Interval of the latest klines served per market, so the ticker continues
+  // the series the client is reading
+  const servedIntervals = new Map<string, Interval>();
+
+  const server = http.createServer((req, res) => {
+    requests++;
+    const url = new URL(req.url || "/", "http://localhost");
+    const params = url.searchParams;
+    const market = (params.get("symbol") || "").toUpperCase();
+
+    if (rateLimitEvery > 0 && requests % rateLimitEvery === 0) {
+      return send(res, 429, errors.rateLimited, { "Retry-After": "1" });
+    }
+
+    if (url.pathname === "/api/v3/klines") {
+      const interval = params.get("interval") as Interval;
+      if (!(interval in INTERVAL_MS)) {
+        return send(res, 400, errors.invalidInterval);
+      }
+
+      const known = Object.keys(FIXTURES).some((key) =>
+        key.startsWith(`${market}-`)
+      );
+      if (!known) {
+        return send(res, 400, errors.invalidSymbol);
+      }
+
+      // Real markets have every interval; the mock only has fixtures
+      const klines = replayKlines(market, interval, replayToNow);
+      if (!klines) {
+        return send(res, 400, errors.invalidInterval);
+      }
+      servedIntervals.set(market, interval);
+
+      const startTime = Number(params.get("startTime") || 0);
+      const endTime = Number(params.get("endTime") || Date.now());
+      const limit = Math.min(Number(params.get("limit") || 500), pageLimit);
+      return send(
+        res,
+        200,
+        klines
+          .filter((kline) => kline[0] >= startTime && kline[0] <= endTime)
+          .slice(0, limit)
+      );
+    }
+
+    if (url.pathname === "/api/v3/ticker/price") {
+      const served = servedIntervals.get(market);
+      const klines =
+        (served && replayKlines(market, served, replayToNow)) ||
+        replayKlines(market, "1h", replayToNow) ||
+        replayKlines(market, "1d", replayToNow);
+      if (!klines) {
+        return send(res, 400, errors.invalidSymbol);
+      }
+      const close = parseFloat(klines[klines.length - 1][4]);
+      const swing = Math.sin(
+        (2 * Math.PI * tickerRequests++) / TICK_WAVE_PERIOD
+      );
+      return send(res, 200, {
+        symbol: market,
+        price: (close * (1 + tickWave * swing)).toFixed(2),
+      });
+    }
+
+    send(res, 404, { code: -1, msg: `Unknown endpoint ${url.pathname}` });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(options.port ?? 18080, "127.0.0.1", () => {
+      const address = server.address() as { port: number };
+      resolve({
+        url: `http://127.0.0.1:${address.port}`,
+        requests: () => requests,
+        close: () =>
+          new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run standalone: MOCK_PORT, MOCK_PAGE_LIMIT, MOCK_RATE_LIMIT_EVERY and
+// MOCK_TICK_WAVE configure it
+if (require.main === module) {
+  startMockBinanceServer({
+    port: Number(process.env.MOCK_PORT || 18080),
+    pageLimit: Number(process.env.MOCK_PAGE_LIMIT || 1000),
+    rateLimitEvery: Number(process.env.MOCK_RATE_LIMIT_EVERY || 0),
+    tickWave: Number(process.env.MOCK_TICK_WAVE || 0),
+  }).then((server) => {
+    console.log(`Mock Binance API listening on ${server.url}`);
+    console.log(`Markets: ${Object.keys(FIXTURES).join(", ")}`);
+  });
+}
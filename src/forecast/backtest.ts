@@ -2,9 +2,12 @@ import { debug } from "../index";
 import {
   IndicatorResult,
   ForecastPoint,
+  IndicatorParams,
   calculateAllIndicators,
 } from "../indicators";
 import { fetchHistoricalData } from "../data/fetchPrices";
+import { RepairPolicy } from "../data/quality";
+import { Interval, DEFAULT_INTERVAL, barsPerDay } from "../data/intervals";
 import { mergeForecasts, calculateMergedForecastStats } from "./mergeForecasts";
 import chalk from "chalk";
 
@@ -14,6 +17,15 @@ export interface BacktestConfig {
   forecastDays: number; // Days to forecast in each period
   historicalRange: number; // Historical data range for each forecast
   minDataPoints?: number; // Minimum data points required
+  provider?: string; // Price data provider (defaults to CoinGecko)
+  useCache?: boolean; // false to bypass the on-disk price cache
+  interval?: Interval; // Bar interval; forecastDays counts bars of this size
+  quote?: string; // Quote currency (defaults to USD)
+  repair?: RepairPolicy; // Gap and outlier repair (defaults to ffill)
+  providers?: string[]; // Consensus of several providers instead of one
+  tolerance?: number; // Consensus disagreement threshold
+  indicatorParams?: IndicatorParams; // Calculator parameters (defaults)
+  indicators?: string[]; // Indicator ids to calculate (all registered)
 }
 
 // Individual backtest result
@@ -79,16 +91,28 @@ export async function runBacktest(
   const indicatorAccuracies: { [key: string]: number[] } = {};
   const indicatorErrors: { [key: string]: number[] } = {};
 
-  // Calculate required historical data range
+  // Calculate required historical data range (30 bars of buffer)
+  const interval = config.interval || DEFAULT_INTERVAL;
   const totalDaysNeeded =
-    config.historicalRange + config.periods * config.forecastDays + 30; // Buffer
+    config.historicalRange +
+    Math.ceil(
+      (config.periods * config.forecastDays + 30) / barsPerDay(interval)
+    );
 
   try {
     // Fetch extensive historical data
     debug.log(
       `Fetching ${totalDaysNeeded} days of historical data for backtest`
     );
-    const response = await fetchHistoricalData(symbol, totalDaysNeeded);
+    const response = await fetchHistoricalData(symbol, totalDaysNeeded, {
+      provider: config.provider,
+      useCache: config.useCache,
+      interval,
+      quote: config.quote,
+      repair: config.repair,
+      providers: config.providers,
+      tolerance: config.tolerance,
+    });
 
     if (!response.success || !response.data) {
       throw new Error(`Failed to fetch historical data: ${response.error}`);
@@ -172,8 +196,12 @@ async function runSingleBacktest(
   config: BacktestConfig
 ): Promise<BacktestResult> {
   // Calculate data slice for this period
+  const interval = config.interval || DEFAULT_INTERVAL;
+  const trainingBars = Math.round(
+    config.historicalRange * barsPerDay(interval)
+  );
   const endIndex = historicalData.length - 1 - period * config.forecastDays;
-  const startIndex = endIndex - config.historicalRange;
+  const startIndex = endIndex - trainingBars;
 
   if (startIndex < 0) {
     throw new Error(`Insufficient data for period ${period + 1}`);
@@ -187,7 +215,7 @@ async function runSingleBacktest(
   );
 
   if (
-    trainingData.length < config.historicalRange ||
+    trainingData.length < trainingBars ||
     validationData.length < config.forecastDays
   ) {
     throw new Error(
@@ -199,7 +227,10 @@ async function runSingleBacktest(
   const indicators = await calculateAllIndicators(
     symbol,
     trainingData,
-    config.forecastDays
+    config.forecastDays,
+    interval,
+    config.indicatorParams,
+    config.indicators
   );
 
   // Generate merged forecast
@@ -1,7 +1,16 @@
 import fs from "fs";
 import path from "path";
 import { debug } from "../index";
-import { IndicatorResult, ForecastPoint } from "../indicators";
+import {
+  IndicatorResult,
+  ForecastPoint,
+  formatAccuracy,
+} from "../indicators";
+import { Interval, DEFAULT_INTERVAL, formatBarTime } from "../data/intervals";
+import { DEFAULT_QUOTE, priceDecimals } from "../data/quotes";
+import { ConsensusInfo } from "../data/consensus";
+import { IndicatorParams, describeParams } from "../indicators/params";
+import { PriceLevels, levelLines } from "../levels";
 
 // Export configuration options
 export interface ExportConfig {
@@ -14,7 +23,9 @@ export interface ExportConfig {
 // Export metadata interface
 export interface ExportMetadata {
   symbol: string;
-  forecastDays: number;
+  quote: string; // Currency all prices are expressed in
+  interval: Interval;
+  forecastDays: number; // Forecast length in bars of `interval`
   historicalDays: number;
   generatedAt: string;
   indicatorsUsed: string[];
@@ -26,6 +37,8 @@ export interface ExportMetadata {
     change: number;
     changePercent: number;
   };
+  consensus?: ConsensusInfo; // Sources and disagreements of a consensus run
+  indicatorParams?: IndicatorParams; // Calculator parameters of the run
 }
 
 // Complete export data structure
@@ -33,6 +46,7 @@ export interface ForecastExportData {
   metadata: ExportMetadata;
   combinedForecast: ForecastPoint[];
   individualIndicators?: IndicatorResult[];
+  levels?: PriceLevels; // Pivots, retracement and zones of the price history
   performanceStats?: {
     cacheStats: any;
     executionTime: number;
@@ -93,11 +107,30 @@ export async function exportForecast(
           exportDir,
           `${baseFilename}_indicators.csv`
         );
-        const indicatorsCsv = prepareIndicatorsCsv(data.individualIndicators);
+        const indicatorsCsv = prepareIndicatorsCsv(
+          data.individualIndicators,
+          data.metadata.interval
+        );
 
         fs.writeFileSync(indicatorsFile, indicatorsCsv, "utf8");
         createdFiles.push(indicatorsFile);
         debug.success(`Indicators CSV saved: ${indicatorsFile}`);
+
+        const seriesFile = path.join(exportDir, `${baseFilename}_series.csv`);
+        fs.writeFileSync(
+          seriesFile,
+          prepareSeriesCsv(data.individualIndicators),
+          "utf8"
+        );
+        createdFiles.push(seriesFile);
+        debug.success(`Indicator series CSV saved: ${seriesFile}`);
+      }
+
+      if (data.levels) {
+        const levelsFile = path.join(exportDir, `${baseFilename}_levels.csv`);
+        fs.writeFileSync(levelsFile, prepareLevelsCsv(data.levels), "utf8");
+        createdFiles.push(levelsFile);
+        debug.success(`Price levels CSV saved: ${levelsFile}`);
       }
     }
 
@@ -130,7 +163,15 @@ function generateFilename(metadata: ExportMetadata): string {
     .split(":")
     .slice(0, 2)
     .join(""); // HHMM
-  return `${metadata.symbol}_forecast_${metadata.forecastDays}d_${date}_${time}`;
+  const horizon =
+    metadata.interval === DEFAULT_INTERVAL
+      ? `${metadata.forecastDays}d`
+      : `${metadata.forecastDays}x${metadata.interval}`;
+  const pair =
+    metadata.quote === DEFAULT_QUOTE
+      ? metadata.symbol
+      : `${metadata.symbol}-${metadata.quote}`;
+  return `${pair}_forecast_${horizon}_${date}_${time}`;
 }
 
 /**
@@ -156,11 +197,30 @@ function prepareJsonData(data: ForecastExportData, config: ExportConfig): any {
       (indicator) => ({
         name: indicator.name,
         accuracy: indicator.accuracy,
+        evaluation: indicator.evaluation,
+        trend: indicator.trend,
         weight: indicator.weight,
         executionTime: indicator.executionTime,
         forecast: indicator.forecast,
+        series: indicator.series.values,
       })
     );
+
+    // Bars the indicator series are aligned to (the same for every indicator)
+    const bars = data.individualIndicators.find(
+      (indicator) => indicator.series.dates.length > 0
+    )?.series;
+    if (bars) {
+      exportData.seriesBars = {
+        dates: bars.dates,
+        timestamps: bars.timestamps,
+        closes: bars.closes,
+      };
+    }
+  }
+
+  if (data.levels) {
+    exportData.levels = data.levels;
   }
 
   if (data.performanceStats) {
@@ -186,9 +246,24 @@ function prepareCsvData(
   if (config.includeMetadata) {
     rows.push(`# Crypto Forecast Export - ${data.metadata.symbol}`);
     rows.push(`# Generated: ${data.metadata.generatedAt}`);
-    rows.push(`# Forecast Days: ${data.metadata.forecastDays}`);
+    rows.push(`# Quote: ${data.metadata.quote}`);
+    rows.push(`# Interval: ${data.metadata.interval}`);
+    if (data.metadata.consensus) {
+      const { sources, disagreements, tolerance } = data.metadata.consensus;
+      rows.push(
+        `# Consensus: ${sources.join(", ")} (${
+          disagreements.length
+        } bars beyond ${(tolerance * 100).toFixed(1)}%)`
+      );
+    }
+    rows.push(`# Forecast Bars: ${data.metadata.forecastDays}`);
     rows.push(`# Historical Days: ${data.metadata.historicalDays}`);
     rows.push(`# Indicators Used: ${data.metadata.indicatorsUsed.join(", ")}`);
+    if (data.metadata.indicatorParams) {
+      Object.entries(data.metadata.indicatorParams).forEach(([name, params]) =>
+        rows.push(`# Parameters ${name}: ${describeParams(params)}`)
+      );
+    }
     rows.push(
       `# Average Confidence: ${(data.metadata.avgConfidence * 100).toFixed(1)}%`
     );
@@ -199,16 +274,17 @@ function prepareCsvData(
   }
 
   // CSV header
-  rows.push("Day,High,Low,Average,Confidence,Indicator");
+  rows.push("Day,Time,High,Low,Average,Confidence,Indicator");
 
   // CSV data rows
   data.combinedForecast.forEach((point) => {
     rows.push(
       [
         point.day,
-        point.high.toFixed(2),
-        point.low.toFixed(2),
-        point.avg.toFixed(2),
+        formatBarTime(point.timestamp, data.metadata.interval),
+        point.high.toFixed(priceDecimals(point.high)),
+        point.low.toFixed(priceDecimals(point.low)),
+        point.avg.toFixed(priceDecimals(point.avg)),
         (point.confidence * 100).toFixed(1) + "%",
         point.indicator,
       ].join(",")
@@ -223,12 +299,15 @@ function prepareCsvData(
  * @param indicators - Array of indicator results
  * @returns CSV string
  */
-function prepareIndicatorsCsv(indicators: IndicatorResult[]): string {
+function prepareIndicatorsCsv(
+  indicators: IndicatorResult[],
+  interval: Interval
+): string {
   const rows: string[] = [];
 
   // CSV header
   rows.push(
-    "Indicator,Day,High,Low,Average,Confidence,Accuracy,Weight,ExecutionTime"
+    "Indicator,Day,Time,High,Low,Average,Confidence,Accuracy,Weight,ExecutionTime"
   );
 
   // CSV data rows
@@ -238,11 +317,12 @@ function prepareIndicatorsCsv(indicators: IndicatorResult[]): string {
         [
           indicator.name,
           point.day,
-          point.high.toFixed(2),
-          point.low.toFixed(2),
-          point.avg.toFixed(2),
+          formatBarTime(point.timestamp, interval),
+          point.high.toFixed(priceDecimals(point.high)),
+          point.low.toFixed(priceDecimals(point.low)),
+          point.avg.toFixed(priceDecimals(point.avg)),
           (point.confidence * 100).toFixed(1) + "%",
-          (indicator.accuracy * 100).toFixed(1) + "%",
+          formatAccuracy(indicator.accuracy, indicator.evaluation),
           indicator.weight.toFixed(3),
           indicator.executionTime + "ms",
         ].join(",")
@@ -253,14 +333,86 @@ function prepareIndicatorsCsv(indicators: IndicatorResult[]): string {
   return rows.join("\n");
 }
 
+/**
+ * Prepare the historical indicator series for CSV export: one row per bar,
+ * one column per indicator line (empty while an indicator warms up)
+ * @param indicators - Array of indicator results
+ * @returns CSV string
+ */
+function prepareSeriesCsv(indicators: IndicatorResult[]): string {
+  const withSeries = indicators.filter(
+    (indicator) => indicator.series.dates.length > 0
+  );
+  if (withSeries.length === 0) {
+    return "Time,Close";
+  }
+
+  const { dates, closes } = withSeries[0].series;
+  const columns = withSeries.flatMap((indicator) =>
+    Object.entries(indicator.series.values).map(([line, values]) => ({
+      header: `${indicator.name}.${line}`,
+      values,
+    }))
+  );
+
+  const rows: string[] = [
+    ["Time", "Close", ...columns.map((column) => column.header)].join(","),
+  ];
+
+  dates.forEach((date, i) => {
+    rows.push(
+      [
+        date,
+        closes[i].toFixed(priceDecimals(closes[i])),
+        ...columns.map((column) => {
+          const value = column.values[i];
+          return value === null ? "" : value.toFixed(priceDecimals(value));
+        }),
+      ].join(",")
+    );
+  });
+
+  return rows.join("\n");
+}
+
+/**
+ * Prepare the price levels for CSV export: one row per level, highest first
+ * (zone rows also carry the zone bounds and touches)
+ * @param levels - Levels of the price history
+ * @returns CSV string
+ */
+function prepareLevelsCsv(levels: PriceLevels): string {
+  const rows: string[] = ["Source,Label,Price,Zone Low,Zone High,Touches"];
+  const price = (value: number) => value.toFixed(priceDecimals(value));
+
+  levelLines(levels).forEach((level) => {
+    rows.push(
+      [
+        level.source,
+        level.label,
+        price(level.price),
+        level.zone ? price(level.zone.low) : "",
+        level.zone ? price(level.zone.high) : "",
+        level.zone ? level.zone.touches : "",
+      ].join(",")
+    );
+  });
+
+  return rows.join("\n");
+}
+
 /**
  * Create export metadata from indicators and forecast data
  * @param symbol - Cryptocurrency symbol
- * @param forecastDays - Number of forecast days
+ * @param forecastDays - Number of forecast bars (days for daily bars)
  * @param historicalDays - Number of historical days used
  * @param indicators - Array of indicator results
  * @param combinedForecast - Combined forecast data
  * @param currentPrice - Current price for comparison
+ * @param interval - Bar interval of the forecast
+ * @param quote - Quote currency of all prices
+ * @param consensus - Consensus details when several providers were combined
+ * @param indicatorParams - Calculator parameters the indicators ran with
  * @returns Export metadata object
  */
 export function createExportMetadata(
@@ -269,7 +421,11 @@ export function createExportMetadata(
   historicalDays: number,
   indicators: IndicatorResult[],
   combinedForecast: ForecastPoint[],
-  currentPrice: number
+  currentPrice: number,
+  interval: Interval = DEFAULT_INTERVAL,
+  quote: string = DEFAULT_QUOTE,
+  consensus?: ConsensusInfo,
+  indicatorParams?: IndicatorParams
 ): ExportMetadata {
   const totalWeight = indicators.reduce((sum, ind) => sum + ind.weight, 0);
   const avgConfidence =
@@ -282,6 +438,8 @@ export function createExportMetadata(
 
   return {
     symbol,
+    quote,
+    interval,
     forecastDays,
     historicalDays,
     generatedAt: new Date().toISOString(),
@@ -294,6 +452,8 @@ export function createExportMetadata(
       change,
       changePercent,
     },
+    consensus,
+    indicatorParams,
   };
 }
 
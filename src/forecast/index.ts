@@ -44,6 +44,7 @@ export function mergeForecasts_legacy(
     if (count > 0) {
       merged.push({
         day: dayIdx + 1,
+        timestamp: forecasts[0][dayIdx]?.timestamp || 0,
         high: totalHigh / count,
         low: totalLow / count,
         avg: totalAvg / count,
@@ -1,5 +1,6 @@
 import { debug } from "../index";
-import { ForecastPoint, IndicatorResult } from "../indicators";
+import { ForecastPoint, WeightedForecast } from "../indicators";
+import { calculateIndicatorSignature } from "../strategy/types";
 
 // Performance: Cache for merged forecasts (equivalent to useMemo)
 const mergedForecastCache = new Map<
@@ -38,15 +39,10 @@ function cleanupMergedForecastCache(): void {
 
 // Generate cache key for merged forecasts
 function generateMergedForecastCacheKey(
-  indicators: IndicatorResult[],
+  indicators: WeightedForecast[],
   days: number
 ): string {
-  const indicatorSignature = indicators
-    .map(
-      (ind) =>
-        `${ind.name}:${ind.accuracy}:${ind.weight}:${ind.forecast.length}`
-    )
-    .join("|");
+  const indicatorSignature = calculateIndicatorSignature(indicators);
   return `merged_forecast:${days}:${indicatorSignature}`;
 }
 
@@ -83,7 +79,7 @@ function setCachedMergedForecast(
  * @returns Unified ForecastPoint[] with averaged values
  */
 export function mergeForecasts(
-  indicators: IndicatorResult[],
+  indicators: WeightedForecast[],
   days: number
 ): ForecastPoint[] {
   const startTime = Date.now();
@@ -119,11 +115,13 @@ export function mergeForecasts(
     let weightedAvg = 0;
     let weightedConfidence = 0;
     let contributingIndicators = 0;
+    let timestamp = 0;
 
     // Aggregate values from all indicators for this day
     indicators.forEach((indicator) => {
       const dayForecast = indicator.forecast.find((f) => f.day === day);
       if (dayForecast) {
+        timestamp = dayForecast.timestamp;
         const normalizedWeight = indicator.weight / totalWeight;
         weightedHigh += dayForecast.high * normalizedWeight;
         weightedLow += dayForecast.low * normalizedWeight;
@@ -150,6 +148,7 @@ export function mergeForecasts(
     // Create merged forecast point
     const mergedPoint: ForecastPoint = {
       day,
+      timestamp,
       high: validHigh,
       low: validLow,
       avg: validAvg,
@@ -177,7 +176,7 @@ export function mergeForecasts(
  */
 export function calculateMergedForecastStats(
   mergedForecast: ForecastPoint[],
-  indicators: IndicatorResult[]
+  indicators: WeightedForecast[]
 ) {
   const totalWeight = indicators.reduce((sum, ind) => sum + ind.weight, 0);
   const avgConfidence =
@@ -7,22 +7,51 @@ import {
 import {
   fetchHistoricalData,
   getCurrentPrice,
-  getCacheStats as getDataCacheStats,
   debugCacheContents,
+  DataQuality,
 } from "./data/fetchPrices";
+import {
+  registerProvider,
+  getProvider,
+  FileProvider,
+} from "./data/providers";
+import { Interval, isIntraday, describeBars } from "./data/intervals";
+import { formatPrice, formatPair } from "./data/quotes";
+import {
+  getPriceStoreStats,
+  listPriceStore,
+  clearPriceStore,
+} from "./data/priceStore";
+import {
+  getCoinListing,
+  refreshCoinListing,
+  resolveCoinId,
+  searchCoins,
+} from "./data/symbols";
+import { getSchedulerStats } from "./data/providers/scheduler";
+import { configureRecorder, getRecording } from "./data/providers/recorder";
+import { QualityReport, describeGap } from "./data/quality";
+import { PollingPriceFeed, PriceTick, applyTick } from "./data/liveFeed";
+import { ConsensusInfo } from "./data/consensus";
 import {
   calculateAllIndicators,
   getIndicatorCacheStats,
-  INDICATORS,
   IndicatorResult,
+  describeCustomParams,
+  formatAccuracy,
+  getIndicator,
+  LiveIndicators,
 } from "./indicators";
+import { benchmarkIndicators } from "./indicators/benchmark";
 import {
   plotAllIndicators,
   plotCombinedForecast,
   getChartCacheStats,
   plotPriceComparison,
+  plotPriceLevels,
   debugChartCacheContents,
 } from "./visual/plotForecast";
+import { calculatePriceLevels, levelLines, nearestLevels } from "./levels";
 import {
   mergeForecasts,
   calculateMergedForecastStats,
@@ -54,17 +83,28 @@ import {
   getAllStrategies,
   getStrategyNames,
   getStrategyPerformanceStats,
+  TradeSignal,
 } from "./strategy";
 
+// Debug and success messages can be turned off (warnings and errors stay),
+// e.g. while `watch` redraws its display
+let verbose = true;
+
+export function setVerboseLogging(enabled: boolean): void {
+  verbose = enabled;
+}
+
 // Debug logging utility
 export const debug = {
   log: (message: string, data?: any) => {
+    if (!verbose) return;
     console.log(chalk.blue(`[DEBUG] ${message}`), data || "");
   },
   error: (message: string, error?: any) => {
     console.error(chalk.red(`[ERROR] ${message}`), error || "");
   },
   success: (message: string, data?: any) => {
+    if (!verbose) return;
     console.log(chalk.green(`[SUCCESS] ${message}`), data || "");
   },
   warn: (message: string, data?: any) => {
@@ -75,7 +115,7 @@ export const debug = {
 // Performance monitoring with chart cache
 function displayPerformanceStats() {
   const cliStats = getCLICacheStats();
-  const dataStats = getDataCacheStats();
+  const dataStats = getPriceStoreStats();
   const indicatorStats = getIndicatorCacheStats();
   const chartStats = getChartCacheStats();
   const mergedForecastStats = getMergedForecastCacheStats();
@@ -84,20 +124,31 @@ function displayPerformanceStats() {
   debug.log("Performance Stats:", {
     "CLI Configuration Cache": cliStats.configCache,
     "CLI Validation Cache": cliStats.validationCache,
-    "Price Data Cache": dataStats.priceCache,
-    "Coin ID Cache": dataStats.coinIdCache,
+    "Price Cache Series": dataStats.entries,
+    "Price Cache Candles": dataStats.candles,
     "Indicator Cache": indicatorStats.indicatorCache,
     "Chart Cache": chartStats.chartCache,
     "Merged Forecast Cache": mergedForecastStats.size,
     "Strategy Cache": strategyStats.size,
     "Available Strategies": getStrategyNames().length,
-    "Cache Duration": `${dataStats.cacheDuration}s`,
+    "API Requests": getSchedulerStats(),
   });
 }
 
+// "Invalidated below $95.00 (SUPERTREND stop, 5.0% away)"
+function describeSignalStop(signal: TradeSignal, quote: string): string {
+  const { price, indicator, distance } = signal.stop!;
+  return `Invalidated ${
+    signal.recommendation === "buy" ? "below" : "above"
+  } ${formatPrice(price, quote)} (${indicator} stop, ${(
+    distance * 100
+  ).toFixed(1)}% away)`;
+}
+
 // Display strategy results summary
 function displayStrategyResultsSummary(
-  strategyResults: CombinedStrategyResult
+  strategyResults: CombinedStrategyResult,
+  quote: string
 ) {
   console.log(chalk.cyan("\n🧠 Strategy Analysis Results"));
   console.log(chalk.gray("=".repeat(50)));
@@ -117,6 +168,9 @@ function displayStrategyResultsSummary(
   console.log(
     chalk.blue(`🎯 Confidence: ${(signal.confidenceScore * 100).toFixed(1)}%`)
   );
+  if (signal.stop) {
+    console.log(chalk.blue(`🛑 ${describeSignalStop(signal, quote)}`));
+  }
 
   // Consensus information
   const consensus = strategyResults.consensus;
@@ -158,6 +212,11 @@ function displayStrategyResultsSummary(
     if (result.signal.reasons.length > 0) {
       console.log(chalk.gray(`      ${result.signal.reasons[0]}`));
     }
+    if (result.signal.stop) {
+      console.log(
+        chalk.gray(`      ${describeSignalStop(result.signal, quote)}`)
+      );
+    }
   });
 
   // Performance metrics
@@ -178,7 +237,11 @@ function displayDataSummary(
   symbol: string,
   days: number,
   source: string,
-  cached: boolean
+  cached: boolean,
+  quality: DataQuality,
+  quote: string,
+  indicatorIds: string[],
+  consensus?: ConsensusInfo
 ) {
   const latestPrice = data[data.length - 1];
   const oldestPrice = data[0];
@@ -190,28 +253,30 @@ function displayDataSummary(
 ┌─────────────────────────────────────────────────────────────┐
 │                    📊 Data Summary                          │
 ├─────────────────────────────────────────────────────────────┤
-│  Symbol: ${chalk.bold(symbol.padEnd(20))}                          │
+│  Symbol: ${chalk.bold(formatPair(symbol, quote).padEnd(20))}                          │
 │  Data Points: ${chalk.bold(
       data.length.toString().padEnd(16)
     )}                      │
 │  Date Range: ${chalk.bold(oldestPrice.date)} → ${chalk.bold(
       latestPrice.date
     )}     │
-│  Price Range: $${chalk.bold(
-      latestPrice.close.toFixed(2).padEnd(10)
+│  Price Range: ${chalk.bold(
+      formatPrice(latestPrice.close, quote).padEnd(11)
     )} (${percentChange}%)          │
 │  Data Source: ${chalk.bold(
       (source + (cached ? " (cached)" : "")).padEnd(17)
     )}        │
-│  Highest: $${chalk.bold(
-      Math.max(...data.map((p: any) => p.high))
-        .toFixed(2)
-        .padEnd(15)
+│  Highest: ${chalk.bold(
+      formatPrice(
+        data.reduce((max: number, p: any) => Math.max(max, p.high), -Infinity),
+        quote
+      ).padEnd(16)
     )}               │
-│  Lowest: $${chalk.bold(
-      Math.min(...data.map((p: any) => p.low))
-        .toFixed(2)
-        .padEnd(16)
+│  Lowest: ${chalk.bold(
+      formatPrice(
+        data.reduce((min: number, p: any) => Math.min(min, p.low), Infinity),
+        quote
+      ).padEnd(17)
     )}               │
 │  Avg Volume: ${chalk.bold(
       Math.round(
@@ -220,9 +285,141 @@ function displayDataSummary(
         .toLocaleString()
         .padEnd(12)
     )}    │
+│  OHLC Quality: ${chalk.bold(
+      `${quality.ohlc} (${quality.syntheticBars} synthetic)`.padEnd(24)
+    )}     │${
+      consensus
+        ? `
+│  Consensus: ${chalk.bold(
+            `${consensus.sources.length} sources, ${
+              consensus.disagreements.length
+            } bars > ${(consensus.tolerance * 100).toFixed(1)}%`.padEnd(27)
+          )}     │
+│  Max Spread: ${chalk.bold(
+            `${(consensus.maxSpread * 100).toFixed(2)}%`.padEnd(26)
+          )}     │`
+        : ""
+    }
 └─────────────────────────────────────────────────────────────┘
 `)
   );
+
+  // Bars where the sources disagree deserve a look before trusting signals
+  if (consensus && consensus.disagreements.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  Sources disagree by more than ${(
+          consensus.tolerance * 100
+        ).toFixed(1)}% on ${consensus.disagreements.length}/${
+          consensus.bars
+        } bars:`
+      )
+    );
+    consensus.disagreements.slice(-5).forEach((disagreement) => {
+      const closes = Object.entries(disagreement.closes)
+        .map(([source, close]) => `${source} ${formatPrice(close, quote)}`)
+        .join(", ");
+      console.log(
+        chalk.gray(
+          `   • ${disagreement.date}: ${(disagreement.spread * 100).toFixed(
+            1
+          )}% (${closes})`
+        )
+      );
+    });
+  }
+
+  // Range-based indicators read high/low, which synthetic bars only approximate
+  const rangeBased = indicatorIds
+    .map((id) => getIndicator(id))
+    .filter((definition) => definition.requiresOhlc)
+    .map((definition) => definition.name);
+  if (quality.ohlc !== "native" && rangeBased.length > 0) {
+    const names =
+      rangeBased.length > 1
+        ? `${rangeBased.slice(0, -1).join(", ")} and ${
+            rangeBased[rangeBased.length - 1]
+          } are`
+        : `${rangeBased[0]} is`;
+    console.log(
+      chalk.yellow(
+        `⚠️  ${quality.syntheticBars}/${data.length} bars have synthetic open/high/low; ${names} less reliable`
+      )
+    );
+  }
+}
+
+// Display gaps, duplicates and outliers found in the data, and their repair
+function displayQualityReport(
+  report: QualityReport,
+  interval: Interval,
+  quote: string
+) {
+  console.log(chalk.cyan("\n🩺 Data Quality Report"));
+  console.log(chalk.gray("=".repeat(50)));
+
+  if (
+    report.duplicates === 0 &&
+    report.gaps.length === 0 &&
+    report.outliers.length === 0
+  ) {
+    console.log(
+      chalk.green(`✅ ${report.bars} bars, no gaps, duplicates or outliers`)
+    );
+    return;
+  }
+
+  const MAX_LISTED = 5;
+  console.log(chalk.blue(`🔧 Repair policy: ${report.policy}`));
+
+  if (report.duplicates > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${report.duplicates} duplicate bars (kept the newest of each)`
+      )
+    );
+  }
+
+  if (report.gaps.length > 0) {
+    console.log(
+      chalk.yellow(
+        `⚠️  ${report.missingBars} missing bars in ${report.gaps.length} gaps, ${report.filledBars} filled`
+      )
+    );
+    report.gaps.slice(0, MAX_LISTED).forEach((gap) => {
+      console.log(chalk.gray(`   • ${describeGap(gap, interval)}`));
+    });
+    if (report.gaps.length > MAX_LISTED) {
+      console.log(
+        chalk.gray(`   • ... and ${report.gaps.length - MAX_LISTED} more`)
+      );
+    }
+  }
+
+  if (report.outliers.length > 0) {
+    const unconfirmed = report.outliers.filter(
+      (outlier) => !outlier.confirmed
+    ).length;
+    console.log(
+      chalk.yellow(
+        `⚠️  ${report.outliers.length} price spikes, ${report.repairedBars} replaced, ${report.droppedBars} dropped${
+          unconfirmed > 0 ? `, ${unconfirmed} too recent to confirm (kept)` : ""
+        }`
+      )
+    );
+    report.outliers.slice(0, MAX_LISTED).forEach((outlier) => {
+      console.log(
+        chalk.gray(
+          `   • ${outlier.date}: close ${formatPrice(
+            outlier.close,
+            quote
+          )}, neighbours around ${formatPrice(outlier.expected, quote)}${
+            outlier.confirmed ? "" : " (unconfirmed)"
+          }`
+        )
+      );
+    });
+  }
 }
 
 // Display technical indicators summary
@@ -241,9 +438,10 @@ function displayIndicatorsSummary(indicators: IndicatorResult[]) {
 
     console.log(
       chalk.magenta(
-        `│  ${indicator.name.padEnd(25)} │ Acc: ${(
-          indicator.accuracy * 100
-        ).toFixed(1)}% │ Conf: ${(avgConfidence * 100).toFixed(1)}% │`
+        `│  ${indicator.name.padEnd(25)} │ Acc: ${formatAccuracy(
+          indicator.accuracy,
+          indicator.evaluation
+        ).padStart(5)} │ Conf: ${(avgConfidence * 100).toFixed(1)}% │`
       )
     );
   });
@@ -263,7 +461,9 @@ function displayIndicatorsSummary(indicators: IndicatorResult[]) {
 function displayForecastSummary(
   forecast: any[],
   currentPrice: number,
-  indicators: IndicatorResult[]
+  indicators: IndicatorResult[],
+  selectedCount: number, // Indicators requested, including any that failed
+  quote: string
 ) {
   const avgForecastPrice =
     forecast.reduce((sum, f) => sum + f.avg, 0) / forecast.length;
@@ -279,14 +479,14 @@ function displayForecastSummary(
 ┌─────────────────────────────────────────────┐
 │              📊 Forecast Summary             │
 ├─────────────────────────────────────────────┤
-│  Current Price: $${currentPrice.toFixed(2).padEnd(26)} │
-│  Average Forecast: $${avgForecastPrice.toFixed(2).padEnd(23)} │
+│  Current Price: ${formatPrice(currentPrice, quote).padEnd(27)} │
+│  Average Forecast: ${formatPrice(avgForecastPrice, quote).padEnd(24)} │
 │  Expected Change: ${expectedChange}%${expectedChange.padEnd(20)} │
 │  Average Confidence: ${(avgConfidence * 100).toFixed(1)}%${(
       (avgConfidence * 100).toFixed(1) + "%"
     ).padEnd(25)} │
-│  Indicators Used: ${indicators.length}/10${(indicators.length + "/10").padEnd(
-      18
+│  Indicators Used: ${`${indicators.length}/${selectedCount}`.padEnd(
+      23
     )} │
 └─────────────────────────────────────────────┘
   `)
@@ -303,8 +503,16 @@ function displayOverallSummary(
   executionTime: number
 ) {
   // Calculate overall indicators performance
+  // Indicators without enough history for an evaluation are left out
+  const measured = indicators.filter((ind) => ind.evaluation?.samples !== 0);
   const avgIndicatorAccuracy =
-    indicators.reduce((sum, ind) => sum + ind.accuracy, 0) / indicators.length;
+    measured.length > 0
+      ? `${(
+          (measured.reduce((sum, ind) => sum + ind.accuracy, 0) /
+            measured.length) *
+          100
+        ).toFixed(1)}%`
+      : "n/a";
   const avgIndicatorConfidence =
     indicators.reduce((sum, ind) => {
       const indConfidence =
@@ -374,24 +582,25 @@ function displayOverallSummary(
     )
   );
   console.log(
-    chalk.white(`║     • Cryptocurrency: ${config.coin.padEnd(45)} ║`)
+    chalk.white(
+      `║     • Cryptocurrency: ${formatPair(config.coin, config.quote).padEnd(
+        45
+      )} ║`
+    )
   );
   console.log(
     chalk.white(
-      `║     • Forecast Period: ${config.forecast} days${(
-        " " +
-        config.forecast +
-        " days"
-      ).padEnd(37)} ║`
+      `║     • Forecast Period: ${describeBars(
+        config.forecast,
+        config.interval
+      ).padEnd(45)} ║`
     )
   );
   console.log(
     chalk.white(
-      `║     • Historical Data: ${config.range} days${(
-        " " +
-        config.range +
-        " days"
-      ).padEnd(37)} ║`
+      `║     • Historical Data: ${`${config.range} days of ${config.interval} bars`.padEnd(
+        45
+      )} ║`
     )
   );
 
@@ -402,14 +611,14 @@ function displayOverallSummary(
   );
   console.log(
     chalk.white(
-      `║  🧠 Technical Indicators (${indicators.length}/10):                                  ║`
+      `║  🧠 Technical Indicators (${indicators.length}/${
+        config.indicators.length
+      }):${" ".repeat(34)}║`
     )
   );
   console.log(
     chalk.white(
-      `║     • Average Accuracy: ${(avgIndicatorAccuracy * 100).toFixed(1)}%${(
-        (avgIndicatorAccuracy * 100).toFixed(1) + "%"
-      ).padEnd(35)} ║`
+      `║     • Average Accuracy: ${avgIndicatorAccuracy.padEnd(35)} ║`
     )
   );
   console.log(
@@ -477,12 +686,17 @@ function displayOverallSummary(
   );
   console.log(
     chalk.white(
-      `║     • Current Price: $${currentPrice.toFixed(2).padEnd(40)} ║`
+      `║     • Current Price: ${formatPrice(currentPrice, config.quote).padEnd(
+        41
+      )} ║`
     )
   );
   console.log(
     chalk.white(
-      `║     • Target Price: $${avgForecastPrice.toFixed(2).padEnd(41)} ║`
+      `║     • Target Price: ${formatPrice(
+        avgForecastPrice,
+        config.quote
+      ).padEnd(42)} ║`
     )
   );
   console.log(
@@ -539,17 +753,410 @@ function displayOverallSummary(
   );
 }
 
+// Handle `cache clear|stats`
+function runCacheCommand(config: CLIConfig) {
+  if (config.cacheAction === "clear") {
+    const removed = clearPriceStore({ symbol: config.coin || undefined });
+    console.log(
+      chalk.green(
+        `🧹 Removed ${removed} cached price series${
+          config.coin ? ` for ${config.coin}` : ""
+        }`
+      )
+    );
+    return;
+  }
+
+  const entries = listPriceStore();
+  const stats = getPriceStoreStats();
+
+  console.log(chalk.cyan("\n📦 Price Cache"));
+  console.log(chalk.gray("=".repeat(50)));
+  console.log(chalk.blue(`📁 Directory: ${stats.directory}`));
+
+  if (entries.length === 0) {
+    console.log(chalk.yellow("No cached price series yet"));
+    return;
+  }
+
+  entries.forEach((entry) => {
+    const age = Math.round((Date.now() - entry.updatedAt) / 60000);
+    console.log(
+      `  ${chalk.bold(
+        `${entry.provider}/${entry.symbol}-${entry.quote}/${entry.interval}`.padEnd(
+          32
+        )
+      )} ${entry.candles.toString().padStart(5)} candles  ${entry.firstDate} → ${
+        entry.lastDate
+      }  (refreshed ${age}m ago)`
+    );
+  });
+
+  console.log(
+    chalk.blue(
+      `📊 ${stats.entries} series, ${stats.candles} candles, ${(
+        stats.bytes / 1024
+      ).toFixed(1)} KB`
+    )
+  );
+}
+
+// Compact market cap, e.g. "$1.23B"
+function formatMarketCap(value?: number): string {
+  if (value === undefined) return "-";
+  if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+  if (value >= 1e9) return `$${(value / 1e9).toFixed(2)}B`;
+  if (value >= 1e6) return `$${(value / 1e6).toFixed(2)}M`;
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+// Handle `search [term] [--refresh]`
+async function runSearchCommand(config: CLIConfig) {
+  const provider = getProvider(config.provider);
+
+  if (config.refreshListing) {
+    await refreshCoinListing(provider);
+  }
+
+  const listing = getCoinListing(provider);
+  const term = config.searchTerm || "";
+
+  console.log(chalk.cyan(`\n🔎 ${provider.displayName} coins`));
+  console.log(chalk.gray("=".repeat(50)));
+  console.log(
+    chalk.blue(
+      `📋 ${listing.coins.length} coins from the ${
+        listing.source === "listing"
+          ? `downloaded list (${new Date(listing.fetchedAt!).toLocaleString()})`
+          : "bundled snapshot (search --refresh downloads the full list)"
+      }`
+    )
+  );
+
+  if (!term) {
+    return;
+  }
+
+  const results = searchCoins(provider, term);
+  if (results.length === 0) {
+    console.log(chalk.yellow(`No coins match "${term}"`));
+    return;
+  }
+
+  // Mark the coin --coin <term> would pick
+  let resolvedId: string | undefined;
+  try {
+    resolvedId = resolveCoinId(provider, term);
+  } catch {
+    resolvedId = undefined;
+  }
+
+  console.log(
+    chalk.gray(
+      `    ${"Symbol".padEnd(10)} ${"Name".padEnd(24)} ${"Id".padEnd(
+        28
+      )} ${"Market Cap".padStart(10)}  Rank`
+    )
+  );
+  results.forEach((coin) => {
+    const line = `${coin.symbol.padEnd(10)} ${coin.name
+      .slice(0, 24)
+      .padEnd(24)} ${coin.id.slice(0, 28).padEnd(28)} ${formatMarketCap(
+      coin.marketCap
+    ).padStart(10)}  ${coin.marketCapRank ?? "-"}`;
+    console.log(
+      coin.id === resolvedId ? chalk.green(` ➜  ${line}`) : `    ${line}`
+    );
+  });
+
+  if (resolvedId) {
+    console.log(chalk.blue(`\n--coin ${term.toUpperCase()} uses ${resolvedId}`));
+  }
+}
+
+// "0.42 ms", "12.3 ms", "1,234 ms"
+function formatDuration(ms: number): string {
+  if (ms < 1) return `${ms.toFixed(2)} ms`;
+  if (ms < 100) return `${ms.toFixed(1)} ms`;
+  return `${Math.round(ms).toLocaleString()} ms`;
+}
+
+// Handle `benchmark`: time every indicator calculator on generated series
+async function runBenchmarkCommand(config: CLIConfig) {
+  const barCounts = config.benchmarkBars!;
+  const runs = config.benchmarkRuns!;
+
+  console.log(chalk.cyan("\n⏱️  Indicator Benchmark"));
+  console.log(chalk.gray("=".repeat(50)));
+  console.log(
+    chalk.blue(
+      `📋 Random-walk bars, ${runs} timed run${
+        runs === 1 ? "" : "s"
+      } per indicator after a warm-up, ${config.forecast}-bar forecasts`
+    )
+  );
+  describeCustomParams(config.indicatorParams).forEach((params) =>
+    console.log(chalk.blue(`⚙️  ${params}`))
+  );
+
+  // Calculators log every run; only the table is of interest here
+  setVerboseLogging(false);
+  let results;
+  try {
+    results = await benchmarkIndicators(
+      barCounts,
+      config.indicatorParams,
+      runs,
+      config.forecast,
+      config.indicators
+    );
+  } finally {
+    setVerboseLogging(true);
+  }
+
+  const columns = barCounts.map(
+    (count) => `${count.toLocaleString()} bars`
+  );
+  console.log(
+    chalk.gray(
+      `\n${"Indicator".padEnd(16)}${columns
+        .map((column) => column.padStart(16))
+        .join("")}`
+    )
+  );
+
+  config.indicators.forEach((name) => {
+    const cells = barCounts.map((count) => {
+      const result = results.find(
+        (r) => r.indicator === name && r.bars === count
+      )!;
+      return result.error
+        ? chalk.red("failed".padStart(16))
+        : formatDuration(result.averageTime).padStart(16);
+    });
+    console.log(`${name.padEnd(16)}${cells.join("")}`);
+  });
+
+  const totals = barCounts.map((count) =>
+    results
+      .filter((r) => r.bars === count)
+      .reduce((sum, r) => sum + r.averageTime, 0)
+  );
+  console.log(
+    chalk.bold(
+      `${"Total".padEnd(16)}${totals
+        .map((total) => formatDuration(total).padStart(16))
+        .join("")}`
+    )
+  );
+
+  results
+    .filter((r) => r.error)
+    .forEach((r) =>
+      console.log(
+        chalk.yellow(
+          `⚠️  ${r.indicator} on ${r.bars.toLocaleString()} bars: ${r.error}`
+        )
+      )
+    );
+}
+
+// Handle `watch`: poll live prices into the newest bar, update indicators from
+// their streams and re-run strategies on every tick (accuracy only when a bar
+// closes) and redraw when the combined signal changes
+async function runWatchCommand(config: CLIConfig) {
+  if (config.fileOptions) {
+    registerProvider(new FileProvider(config.fileOptions));
+  }
+
+  console.log(chalk.cyan("📥 Fetching Historical Data..."));
+  const response = await fetchHistoricalData(config.coin, config.range, {
+    provider: config.provider,
+    interval: config.interval,
+    useCache: config.useCache,
+    quote: config.quote,
+    repair: config.repair,
+    providers: config.providers,
+    tolerance: config.tolerance,
+  });
+  if (!response.success) {
+    throw new Error(`Data fetch failed: ${response.error}`);
+  }
+  console.log(
+    chalk.green(
+      `✅ ${response.data.length} ${config.interval} bars from ${response.source}`
+    )
+  );
+
+  const feed = new PollingPriceFeed(config.coin, {
+    provider: config.provider,
+    quote: config.quote,
+    pollMs: config.pollSeconds! * 1000,
+  });
+  const pair = formatPair(config.coin, config.quote);
+  let bars = response.data;
+  let ticks = 0;
+  let changes = 0;
+
+  // Closed bars go into the indicator streams (and are scored) once; ticks
+  // on the forming bar only push that bar into copies of the streams
+  const live = new LiveIndicators(config.coin, {
+    forecastDays: config.forecast,
+    interval: config.interval,
+    params: config.indicatorParams,
+    indicators: config.indicators,
+  });
+
+  const analyze = async () => {
+    const indicators = await live.update(bars);
+    const strategyResults = await runAllStrategies(indicators, {
+      forecastDays: config.forecast,
+      symbol: config.coin,
+      quote: config.quote,
+      lookbackPeriod: 14,
+      sensitivity: 0.5,
+      riskLevel: "medium",
+      levels: calculatePriceLevels(bars, config.interval),
+    });
+    return { indicators, strategyResults };
+  };
+
+  const redraw = (
+    indicators: IndicatorResult[],
+    strategyResults: CombinedStrategyResult,
+    price: number,
+    change?: { from: TradeSignal["recommendation"]; at: number }
+  ) => {
+    if (process.stdout.isTTY) {
+      console.clear();
+    }
+    console.log(
+      chalk.cyan(`👁️  Watching ${pair} · ${config.interval} bars · ${feed.name}`)
+    );
+    if (change) {
+      console.log(
+        chalk.magenta(
+          `🔔 Signal changed from ${change.from.toUpperCase()} to ${strategyResults.combinedSignal.recommendation.toUpperCase()} at ${new Date(
+            change.at
+          ).toISOString()}`
+        )
+      );
+    }
+    displayStrategyResultsSummary(strategyResults, config.quote);
+    displayForecastSummary(
+      mergeForecasts(indicators, config.forecast),
+      price,
+      indicators,
+      config.indicators.length,
+      config.quote
+    );
+    console.log(chalk.gray("Press Ctrl+C to stop watching"));
+  };
+
+  let signal: TradeSignal["recommendation"] = "neutral";
+  const onTick = async (tick: PriceTick) => {
+    ticks++;
+    const previousClose = bars[bars.length - 1].close;
+    const update = applyTick(bars, tick, config.interval);
+    bars = update.bars;
+
+    const { indicators, strategyResults } = await analyze();
+    const combined = strategyResults.combinedSignal;
+    if (combined.recommendation !== signal) {
+      redraw(indicators, strategyResults, tick.price, {
+        from: signal,
+        at: tick.timestamp,
+      });
+      signal = combined.recommendation;
+      changes++;
+      return;
+    }
+
+    const move = ((tick.price - previousClose) / previousClose) * 100;
+    console.log(
+      chalk.gray(
+        `${new Date(tick.timestamp).toISOString().slice(11, 19)}  ${formatPrice(
+          tick.price,
+          config.quote
+        )} (${move >= 0 ? "+" : ""}${move.toFixed(2)}%)  bar ${
+          bars[bars.length - 1].date
+        }${update.opened ? " (new)" : ""}  ${combined.recommendation.toUpperCase()} ${(
+          combined.confidenceScore * 100
+        ).toFixed(1)}%`
+      )
+    );
+  };
+
+  // Keep the display readable: only warnings and errors are logged while
+  // watching
+  setVerboseLogging(false);
+  try {
+    const initial = await analyze();
+    signal = initial.strategyResults.combinedSignal.recommendation;
+    redraw(
+      initial.indicators,
+      initial.strategyResults,
+      bars[bars.length - 1].close
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        feed.stop();
+        process.off("SIGINT", finish);
+        resolve();
+      };
+      process.on("SIGINT", finish);
+
+      feed.start(
+        async (tick) => {
+          await onTick(tick);
+          if (config.maxTicks && ticks >= config.maxTicks) {
+            finish();
+          }
+        },
+        (error) => {
+          process.off("SIGINT", finish);
+          reject(new Error(`Live price feed stopped: ${error.message}`));
+        }
+      );
+    });
+  } finally {
+    setVerboseLogging(true);
+  }
+
+  console.log(
+    chalk.green(
+      `\n✅ Stopped watching ${pair} after ${ticks} ticks (${changes} signal change${
+        changes === 1 ? "" : "s"
+      })`
+    )
+  );
+}
+
 // Main application workflow with ASCII charts
 async function runForecastWorkflow(config: CLIConfig) {
   debug.log("Starting forecast workflow...");
   const workflowStartTime = Date.now();
 
   try {
+    // Point the file provider at the requested data file
+    if (config.fileOptions) {
+      registerProvider(new FileProvider(config.fileOptions));
+    }
+
     // Step 3: Data fetching
     console.log(chalk.cyan("📥 Step 3: Fetching Historical Data..."));
 
     const fetchStartTime = Date.now();
-    const response = await fetchHistoricalData(config.coin, config.range);
+    const response = await fetchHistoricalData(config.coin, config.range, {
+      provider: config.provider,
+      interval: config.interval,
+      useCache: config.useCache,
+      quote: config.quote,
+      repair: config.repair,
+      providers: config.providers,
+      tolerance: config.tolerance,
+    });
     const fetchDuration = Date.now() - fetchStartTime;
 
     if (!response.success) {
@@ -558,7 +1165,7 @@ async function runForecastWorkflow(config: CLIConfig) {
 
     console.log(
       chalk.green(
-        `✅ ${config.range} days of data successfully fetched (${fetchDuration}ms)`
+        `✅ ${config.range} days of ${config.interval} data successfully fetched (${fetchDuration}ms)`
       )
     );
     displayDataSummary(
@@ -566,15 +1173,32 @@ async function runForecastWorkflow(config: CLIConfig) {
       config.coin,
       config.range,
       response.source,
-      response.cached
+      response.cached,
+      response.dataQuality,
+      response.quote,
+      config.indicators,
+      response.consensus
     );
+    if (response.dataQuality.report) {
+      displayQualityReport(
+        response.dataQuality.report,
+        config.interval,
+        response.quote
+      );
+    }
 
     // Get current price for comparison
     try {
-      const currentPrice = await getCurrentPrice(config.coin);
+      const currentPrice = await getCurrentPrice(config.coin, {
+        provider: config.provider,
+        quote: config.quote,
+      });
       console.log(
         chalk.green(
-          `💰 Current ${config.coin} Price: $${currentPrice.toFixed(2)}`
+          `💰 Current ${formatPair(
+            config.coin,
+            config.quote
+          )} Price: ${formatPrice(currentPrice, config.quote)}`
         )
       );
     } catch (error) {
@@ -590,17 +1214,23 @@ async function runForecastWorkflow(config: CLIConfig) {
     const indicators = await calculateAllIndicators(
       config.coin,
       response.data,
-      config.forecast
+      config.forecast,
+      config.interval,
+      config.indicatorParams,
+      config.indicators
     );
     const indicatorDuration = Date.now() - indicatorStartTime;
 
     console.log(
       chalk.green(
-        `✅ 10 technical indicators calculated (${indicatorDuration}ms)`
+        `✅ ${indicators.length}/${config.indicators.length} technical indicators calculated (${indicatorDuration}ms)`
       )
     );
     displayIndicatorsSummary(indicators);
 
+    // Pivots, retracement and support/resistance zones of the history
+    const levels = calculatePriceLevels(response.data, config.interval);
+
     // Step 5: Strategy Analysis
     console.log(chalk.blue("🧠 Step 5: Analyzing Trading Strategies..."));
 
@@ -608,16 +1238,18 @@ async function runForecastWorkflow(config: CLIConfig) {
     const strategyResults = await runAllStrategies(indicators, {
       forecastDays: config.forecast,
       symbol: config.coin,
+      quote: config.quote,
       lookbackPeriod: 14,
       sensitivity: 0.5,
       riskLevel: "medium",
+      levels,
     });
     const strategyDuration = Date.now() - strategyStartTime;
 
     console.log(
       chalk.green(`✅ Strategy analysis completed (${strategyDuration}ms)`)
     );
-    displayStrategyResultsSummary(strategyResults);
+    displayStrategyResultsSummary(strategyResults, config.quote);
 
     // Step 6: ASCII Chart Visualization
     console.log(chalk.yellow("📊 Step 6: Creating Visual Charts..."));
@@ -625,9 +1257,12 @@ async function runForecastWorkflow(config: CLIConfig) {
     const chartStartTime = Date.now();
 
     // Display individual indicator charts
-    const individualCharts = plotAllIndicators(indicators);
+    const individualCharts = plotAllIndicators(indicators, config.quote);
     console.log(individualCharts);
 
+    // Display the price history against its levels
+    console.log(plotPriceLevels(response.data, levels, config.quote));
+
     // Step 7: Calculate weighted forecast using mergeForecasts
     console.log(chalk.cyan("📈 Step 7: Merging Forecasts..."));
 
@@ -643,17 +1278,25 @@ async function runForecastWorkflow(config: CLIConfig) {
       chalk.green(`✅ Forecasts merged (${mergedForecastDuration}ms)`)
     );
 
-    // Display combined forecast chart
-    const combinedChart = plotCombinedForecast(indicators, weightedForecast);
+    // Display combined forecast chart, with the levels nearest the price
+    const currentPrice = response.data[response.data.length - 1].close;
+    const chartLevels = nearestLevels(levelLines(levels), currentPrice, 2);
+    const combinedChart = plotCombinedForecast(
+      indicators,
+      weightedForecast,
+      config.quote,
+      chartLevels
+    );
     console.log(combinedChart);
 
     // Optional: Price trajectory comparison
-    const currentPrice = response.data[response.data.length - 1].close;
     const forecastPrices = weightedForecast.map((f) => f.avg);
     const priceComparison = plotPriceComparison(
       currentPrice,
       forecastPrices,
-      config.coin
+      config.coin,
+      config.quote,
+      chartLevels
     );
     console.log(priceComparison);
 
@@ -661,7 +1304,13 @@ async function runForecastWorkflow(config: CLIConfig) {
     console.log(chalk.green(`✅ Charts created (${chartDuration}ms)`));
 
     // Display summary statistics
-    displayForecastSummary(weightedForecast, currentPrice, indicators);
+    displayForecastSummary(
+      weightedForecast,
+      currentPrice,
+      indicators,
+      config.indicators.length,
+      config.quote
+    );
 
     // Step 8: Results output
     console.log(chalk.green("📋 Step 8: Preparing Results..."));
@@ -677,16 +1326,21 @@ async function runForecastWorkflow(config: CLIConfig) {
           config.range,
           indicators,
           weightedForecast,
-          currentPrice
+          currentPrice,
+          config.interval,
+          config.quote,
+          response.consensus,
+          config.indicatorParams
         );
 
         const exportData: ForecastExportData = {
           metadata: exportMetadata,
           combinedForecast: weightedForecast,
           individualIndicators: indicators,
+          levels,
           performanceStats: {
             cacheStats: {
-              data: getDataCacheStats(),
+              data: getPriceStoreStats(),
               indicators: getIndicatorCacheStats(),
               charts: getChartCacheStats(),
               mergedForecast: getMergedForecastCacheStats(),
@@ -734,8 +1388,20 @@ async function runForecastWorkflow(config: CLIConfig) {
         const backtestConfig: BacktestConfig = {
           periods: 12, // Test 12 historical periods for robust analysis
           forecastDays: config.forecast,
-          historicalRange: Math.max(90, config.range), // Ensure minimum 90 days
+          // Ensure minimum 90 days of daily bars (intraday ranges are capped by providers)
+          historicalRange: isIntraday(config.interval)
+            ? config.range
+            : Math.max(90, config.range),
           minDataPoints: 90, // Require at least 90 data points
+          provider: config.provider,
+          useCache: config.useCache,
+          interval: config.interval,
+          quote: config.quote,
+          repair: config.repair,
+          providers: config.providers,
+          tolerance: config.tolerance,
+          indicatorParams: config.indicatorParams,
+          indicators: config.indicators,
         };
 
         console.log(chalk.cyan(`📊 Backtest Configuration:`));
@@ -746,7 +1412,12 @@ async function runForecastWorkflow(config: CLIConfig) {
           )
         );
         console.log(
-          chalk.cyan(`   • Forecast Days: ${backtestConfig.forecastDays}`)
+          chalk.cyan(
+            `   • Forecast Period: ${describeBars(
+              backtestConfig.forecastDays,
+              config.interval
+            )}`
+          )
         );
         console.log(
           chalk.cyan(`   • Min Data Points: ${backtestConfig.minDataPoints}`)
@@ -804,6 +1475,42 @@ async function main() {
     const config = initializeCLI();
     debug.success("Step 2: CLI Interface ✅");
 
+    // Record or replay raw API responses
+    if (config.replay) {
+      configureRecorder("replay", config.replay);
+      const { recordedAt, args } = getRecording()!;
+      console.log(
+        chalk.blue(
+          `⏪ Replaying API responses recorded ${new Date(
+            recordedAt
+          ).toISOString()} (${args.join(" ")})`
+        )
+      );
+    } else if (config.record) {
+      configureRecorder("record", config.record);
+      console.log(chalk.blue(`⏺️  Recording API responses to ${config.record}`));
+    }
+
+    if (config.command === "cache") {
+      runCacheCommand(config);
+      return;
+    }
+
+    if (config.command === "search") {
+      await runSearchCommand(config);
+      return;
+    }
+
+    if (config.command === "watch") {
+      await runWatchCommand(config);
+      return;
+    }
+
+    if (config.command === "benchmark") {
+      await runBenchmarkCommand(config);
+      return;
+    }
+
     // Step 3: Data fetching - implemented!
     debug.success("Step 3: Data Fetching ✅");
 
@@ -835,9 +1542,14 @@ async function main() {
 ┌─────────────────────────────────────────────┐
 │            ✅ Forecast Complete!            │
 │                                             │
-│  ${config.coin} ${config.forecast}-day forecast generated      │
+│  ${config.coin} ${describeBars(
+        config.forecast,
+        config.interval
+      )} forecast generated      │
 │  Using ${config.range} days of historical data     │
-│  Powered by 10 Technical Indicators        │
+│  ${`Powered by ${config.indicators.length} Technical Indicators`.padEnd(
+        42
+      )}│
 │  📊 ASCII Charts + Advanced Analytics       │
 └─────────────────────────────────────────────┘
     `)
@@ -0,0 +1,88 @@
+import { IndicatorCalculator, AccuracyEvaluation } from "./index";
+
+// Forecast origins scored per indicator, newest first
+const MAX_EVALUATION_WINDOWS = 10;
+
+// Accuracy used when there is no history to score (a coin flip on direction)
+export const UNMEASURED_ACCURACY = 0.5;
+
+/**
+ * Rolling out-of-sample evaluation: the calculator forecasts from earlier
+ * origins using only the bars before them, and each forecast step is scored
+ * against the close that followed. Origins are half a horizon apart, the
+ * newest one a full horizon before the last bar so every step has a close
+ * @param calculator - Indicator calculator
+ * @param closes - Closes of all bars, oldest first
+ * @param highs - Highs of all bars
+ * @param lows - Lows of all bars
+ * @param volumes - Volumes of all bars
+ * @param forecastDays - Horizon in bars, the same as the live forecast
+ * @param params - Calculator parameters
+ * @returns Hit rate and error over the scored steps (0 samples when the
+ * history is too short for any origin)
+ */
+export async function evaluateAccuracy<P>(
+  calculator: IndicatorCalculator<P>,
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: P
+): Promise<AccuracyEvaluation> {
+  const stride = Math.max(1, Math.ceil(forecastDays / 2));
+  let windows = 0;
+  let samples = 0;
+  let hits = 0;
+  let totalError = 0;
+
+  for (let w = 0; w < MAX_EVALUATION_WINDOWS; w++) {
+    const origin = closes.length - forecastDays - w * stride;
+    if (origin < 2) break;
+
+    let steps;
+    try {
+      ({ steps } = await calculator(
+        closes.slice(0, origin),
+        highs.slice(0, origin),
+        lows.slice(0, origin),
+        volumes.slice(0, origin),
+        forecastDays,
+        params
+      ));
+    } catch {
+      // Earlier origins have even fewer bars than the calculator needed
+      break;
+    }
+
+    const originClose = closes[origin - 1];
+    steps.forEach((step) => {
+      const actual = closes[origin + step.day - 1];
+      if (actual === undefined || !isFinite(step.avg)) return;
+
+      const predictedMove = Math.sign(step.avg - originClose);
+      const actualMove = Math.sign(actual - originClose);
+      if (predictedMove === actualMove) hits++;
+      totalError += Math.abs(step.avg - actual) / actual;
+      samples++;
+    });
+    windows++;
+  }
+
+  return {
+    windows,
+    samples,
+    hitRate: samples > 0 ? hits / samples : 0,
+    meanError: samples > 0 ? totalError / samples : 0,
+  };
+}
+
+// "61.3%" or "n/a" when the indicator could not be scored
+export function formatAccuracy(
+  accuracy: number,
+  evaluation?: AccuracyEvaluation
+): string {
+  return evaluation && evaluation.samples === 0
+    ? "n/a"
+    : `${(accuracy * 100).toFixed(1)}%`;
+}
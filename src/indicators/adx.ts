@@ -1,74 +1,116 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import {
+  TrueRange,
+  WilderSmoothing,
+  BarVolume,
+  averageChange,
+  returnsVolatility,
+} from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
 
-// ADX calculation and forecasting
-export async function calculateADX(
-  closes: number[],
-  highs: number[],
-  lows: number[],
-  volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 28) {
-    throw new Error("ADX requires at least 28 data points");
-  }
-
-  debug.log(
-    `Calculating ADX with ${closes.length} data points for ${forecastDays} day forecast`
-  );
-
-  const period = 14;
+export interface ADXParams {
+  period: number;
+}
 
-  // Calculate True Range, +DI, -DI, and ADX
-  const trueRanges: number[] = [];
-  const plusDMs: number[] = [];
-  const minusDMs: number[] = [];
+const DEFAULT_PARAMS: ADXParams = { period: 14 };
+
+export const adxIndicator: IndicatorDefinition<ADXParams> = {
+  id: "ADX",
+  name: "Average Directional Index",
+  weight: 0.07,
+  confidence: 0.7, // Moderate for trend strength
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => 2 * period,
+  requiresOhlc: true,
+  calculate: calculateADX,
+  stream: (params) => new ADXStream(params),
+};
+
+// +DI and -DI from Wilder-smoothed true range and directional movement, and
+// the ADX as the smoothed spread between them, bar by bar
+export class ADXStream implements IndicatorStream {
+  private readonly trueRange = new TrueRange();
+  private readonly ranges: WilderSmoothing;
+  private readonly plusMoves: WilderSmoothing;
+  private readonly minusMoves: WilderSmoothing;
+  private readonly adx: WilderSmoothing;
+  private previous: { high: number; low: number } | null = null;
+
+  constructor({ period }: ADXParams) {
+    this.ranges = new WilderSmoothing(period);
+    this.plusMoves = new WilderSmoothing(period);
+    this.minusMoves = new WilderSmoothing(period);
+    this.adx = new WilderSmoothing(period);
+  }
 
-  for (let i = 1; i < closes.length; i++) {
-    // True Range
-    const highLow = highs[i] - lows[i];
-    const highClose = Math.abs(highs[i] - closes[i - 1]);
-    const lowClose = Math.abs(lows[i] - closes[i - 1]);
-    const tr = Math.max(highLow, highClose, lowClose);
-    trueRanges.push(tr);
+  push(bar: BarVolume): LineValues {
+    const previous = this.previous;
+    this.previous = { high: bar.high, low: bar.low };
+    const trueRange = this.trueRange.push(bar);
+    if (previous === null || trueRange === null) {
+      return { adx: null, plusDI: null, minusDI: null };
+    }
 
     // Directional Movement
-    const upMove = highs[i] - highs[i - 1];
-    const downMove = lows[i - 1] - lows[i];
+    const upMove = bar.high - previous.high;
+    const downMove = previous.low - bar.low;
 
     const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
     const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
 
-    plusDMs.push(plusDM);
-    minusDMs.push(minusDM);
-  }
-
-  // Calculate smoothed values
-  const smoothedTRs = calculateSmoothed(trueRanges, period);
-  const smoothedPlusDMs = calculateSmoothed(plusDMs, period);
-  const smoothedMinusDMs = calculateSmoothed(minusDMs, period);
+    const smoothedTR = this.ranges.push(trueRange);
+    const smoothedPlusDM = this.plusMoves.push(plusDM);
+    const smoothedMinusDM = this.minusMoves.push(minusDM);
+    if (
+      smoothedTR === null ||
+      smoothedPlusDM === null ||
+      smoothedMinusDM === null
+    ) {
+      return { adx: null, plusDI: null, minusDI: null };
+    }
 
-  // Calculate DI+ and DI-
-  const plusDIs: number[] = [];
-  const minusDIs: number[] = [];
+    const plusDI = (smoothedPlusDM / smoothedTR) * 100;
+    const minusDI = (smoothedMinusDM / smoothedTR) * 100;
+    const diSum = plusDI + minusDI;
+    const diDiff = Math.abs(plusDI - minusDI);
+    const dx = diSum > 0 ? (diDiff / diSum) * 100 : 0;
 
-  for (let i = 0; i < smoothedTRs.length; i++) {
-    const plusDI = (smoothedPlusDMs[i] / smoothedTRs[i]) * 100;
-    const minusDI = (smoothedMinusDMs[i] / smoothedTRs[i]) * 100;
-    plusDIs.push(plusDI);
-    minusDIs.push(minusDI);
+    return { adx: this.adx.push(dx), plusDI, minusDI };
   }
+}
 
-  // Calculate DX and ADX
-  const dxValues: number[] = [];
-  for (let i = 0; i < plusDIs.length; i++) {
-    const diSum = plusDIs[i] + minusDIs[i];
-    const diDiff = Math.abs(plusDIs[i] - minusDIs[i]);
-    const dx = diSum > 0 ? (diDiff / diSum) * 100 : 0;
-    dxValues.push(dx);
+// ADX calculation and forecasting
+export async function calculateADX(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: ADXParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < 2 * period) {
+    throw new Error(`ADX requires at least ${2 * period} data points`);
   }
 
-  const adxValues = calculateSmoothed(dxValues, period);
+  debug.log(
+    `Calculating ADX with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  // Calculate +DI, -DI, and ADX
+  const adxLines =
+    lines ?? streamLines(new ADXStream(params), closes, highs, lows, volumes);
+  const { adx: adxValues, plusDI: plusDIs, minusDI: minusDIs } = adxLines;
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -77,15 +119,15 @@ export async function calculateADX(
   const currentMinusDI = minusDIs[minusDIs.length - 1];
 
   // Calculate trends
-  const adxTrend = calculateTrend(adxValues.slice(-5));
-  const priceTrend = calculateTrend(closes.slice(-10));
+  const adxTrend = averageChange(adxValues.slice(-5));
+  const priceTrend = averageChange(closes.slice(-10));
 
   // Determine signals
   const strongTrend = currentADX > 25;
   const veryStrongTrend = currentADX > 40;
   const bullish = currentPlusDI > currentMinusDI;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future ADX
@@ -121,7 +163,7 @@ export async function calculateADX(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 8);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateADXConfidence(currentADX, futureADX, day);
 
     forecast.push({
@@ -135,51 +177,14 @@ export async function calculateADX(
   }
 
   debug.success(`ADX forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate smoothed values (Wilder's smoothing)
-function calculateSmoothed(values: number[], period: number): number[] {
-  const smoothed: number[] = [];
-  let sum = values.slice(0, period).reduce((acc, val) => acc + val, 0);
-  smoothed.push(sum / period);
-
-  for (let i = period; i < values.length; i++) {
-    const newValue =
-      (smoothed[smoothed.length - 1] * (period - 1) + values[i]) / period;
-    smoothed.push(newValue);
-  }
-
-  return smoothed;
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-// Calculate volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      adx: alignSeries(adxValues, closes.length),
+      plusDI: alignSeries(plusDIs, closes.length),
+      minusDI: alignSeries(minusDIs, closes.length),
+    },
+  };
 }
 
 // Calculate ADX confidence
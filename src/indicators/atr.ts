@@ -0,0 +1,140 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { AverageTrueRange, EMA, BarVolume, averageChange, mean } from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface ATRParams {
+  period: number;
+}
+
+const DEFAULT_PARAMS: ATRParams = { period: 14 };
+
+export const atrIndicator: IndicatorDefinition<ATRParams> = {
+  id: "ATR",
+  name: "Average True Range",
+  weight: 0.06,
+  confidence: 0.7, // Measures range, not direction
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period + 1,
+  requiresOhlc: true,
+  calculate: calculateATR,
+  stream: (params) => new ATRStream(params),
+};
+
+// ATR and the EMA of the closes its forecast measures drift with, bar by bar
+export class ATRStream implements IndicatorStream {
+  private readonly atr: AverageTrueRange;
+  private readonly trend: EMA;
+
+  constructor({ period }: ATRParams) {
+    this.atr = new AverageTrueRange(period);
+    this.trend = new EMA(period);
+  }
+
+  push(bar: BarVolume): LineValues {
+    return { atr: this.atr.push(bar), trend: this.trend.push(bar.close) };
+  }
+}
+
+// ATR calculation and forecasting
+export async function calculateATR(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: ATRParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period + 1) {
+    throw new Error(`ATR requires at least ${period + 1} data points`);
+  }
+
+  debug.log(
+    `Calculating ATR with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  // Wilder-smoothed true range (the first bar has no true range)
+  const { atr: atrValues, trend: trendEMA } =
+    lines ?? streamLines(new ATRStream(params), closes, highs, lows, volumes);
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentATR = atrValues[atrValues.length - 1];
+  const averageATR = mean(atrValues.slice(-3 * period));
+  const atrRatio = averageATR > 0 ? currentATR / averageATR : 1;
+
+  // Drift of the closes, measured in ATRs so quiet and wild markets compare
+  const drift = averageChange(trendEMA.slice(-5));
+  const driftInATR = currentATR > 0 ? drift / currentATR : 0;
+
+  // Determine signals
+  const expanding = atrRatio > 1.2;
+  const contracting = atrRatio < 0.8;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Expanding ranges carry the drift further, contracting ranges stall it
+    let priceMultiplier =
+      1 + (Math.max(Math.min(driftInATR, 1), -1) * currentATR) / currentPrice;
+
+    if (expanding) {
+      priceMultiplier = 1 + (priceMultiplier - 1) * 1.5;
+    } else if (contracting) {
+      priceMultiplier = 1 + (priceMultiplier - 1) * 0.5;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 12);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+
+    // Ranges grow with the square root of time, reverting toward the average
+    const futureATR = averageATR + (currentATR - averageATR) * timeDecay;
+    const range = futureATR * Math.sqrt(day);
+    const confidence = calculateATRConfidence(atrRatio, day);
+
+    forecast.push({
+      day,
+      high: predictedPrice + range,
+      low: Math.max(predictedPrice - range, predictedPrice * 0.5),
+      avg: predictedPrice,
+      confidence,
+      indicator: "ATR",
+    });
+  }
+
+  debug.success(`ATR forecast generated: ${forecast.length} points`);
+  return {
+    steps: forecast,
+    series: {
+      atr: alignSeries(atrValues, closes.length),
+    },
+  };
+}
+
+// Calculate ATR confidence
+function calculateATRConfidence(atrRatio: number, day: number): number {
+  let confidence = 0.72;
+
+  // Ranges far from their average make the drift less reliable
+  if (atrRatio > 1.5 || atrRatio < 0.6) {
+    confidence = 0.62;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 14);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
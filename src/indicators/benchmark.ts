@@ -0,0 +1,120 @@
+import { performance } from "perf_hooks";
+import { IndicatorParams, getDefaultIndicatorParams } from "./params";
+import { getIndicator, getIndicatorIds } from "./registry";
+
+export const DEFAULT_BENCHMARK_BARS = [10000, 100000];
+export const DEFAULT_BENCHMARK_RUNS = 3;
+
+// Timing of one indicator on one series length
+export interface BenchmarkResult {
+  indicator: string;
+  bars: number;
+  averageTime: number; // ms per run
+  fastestTime: number; // ms
+  error?: string; // Set when the calculator failed on this series
+}
+
+// Synthetic bars, the same for every run
+export interface BenchmarkBars {
+  closes: number[];
+  highs: number[];
+  lows: number[];
+  volumes: number[];
+}
+
+// Small deterministic generator (mulberry32), so timings compare across runs
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate a random walk of bars around 100 (about 2% moves per bar)
+ * @param count - Number of bars
+ * @param seed - Seed of the random walk
+ * @returns Closes, highs, lows and volumes of the bars
+ */
+export function generateBenchmarkBars(count: number, seed = 42): BenchmarkBars {
+  const random = seededRandom(seed);
+  const bars: BenchmarkBars = { closes: [], highs: [], lows: [], volumes: [] };
+
+  let close = 100;
+  for (let i = 0; i < count; i++) {
+    const open = close;
+    close = Math.max(open * (1 + (random() - 0.5) * 0.04), 0.01);
+    bars.closes.push(close);
+    bars.highs.push(Math.max(open, close) * (1 + random() * 0.01));
+    bars.lows.push(Math.min(open, close) * (1 - random() * 0.01));
+    bars.volumes.push(1000 + random() * 9000);
+  }
+
+  return bars;
+}
+
+/**
+ * Time indicator calculators on synthetic series
+ * @param barCounts - Series lengths to time, e.g. [10000, 100000]
+ * @param params - Indicator parameters
+ * @param runs - Timed runs per indicator and length (after one warm-up run)
+ * @param forecastDays - Forecast length passed to the calculators
+ * @param indicatorIds - Registered indicators to time (all by default)
+ * @returns One result per indicator and series length
+ */
+export async function benchmarkIndicators(
+  barCounts: number[] = DEFAULT_BENCHMARK_BARS,
+  params: IndicatorParams = getDefaultIndicatorParams(),
+  runs: number = DEFAULT_BENCHMARK_RUNS,
+  forecastDays: number = 10,
+  indicatorIds: string[] = getIndicatorIds()
+): Promise<BenchmarkResult[]> {
+  const results: BenchmarkResult[] = [];
+
+  for (const count of barCounts) {
+    const { closes, highs, lows, volumes } = generateBenchmarkBars(count);
+
+    for (const name of indicatorIds) {
+      const definition = getIndicator(name);
+      const run = () =>
+        definition.calculate(
+          closes,
+          highs,
+          lows,
+          volumes,
+          forecastDays,
+          params[name] || definition.params
+        );
+
+      const times: number[] = [];
+      try {
+        await run(); // Warm-up, so the first timed run is not compiling
+        for (let i = 0; i < runs; i++) {
+          const start = performance.now();
+          await run();
+          times.push(performance.now() - start);
+        }
+        results.push({
+          indicator: name,
+          bars: count,
+          averageTime: times.reduce((sum, time) => sum + time, 0) / runs,
+          fastestTime: Math.min(...times),
+        });
+      } catch (error) {
+        results.push({
+          indicator: name,
+          bars: count,
+          averageTime: 0,
+          fastestTime: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return results;
+}
@@ -1,5 +1,61 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { SMA, RollingStdDev, BarVolume, averageChange } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface BollingerParams {
+  period: number;
+  multiplier: number; // Band distance from the mean in standard deviations
+}
+
+const DEFAULT_PARAMS: BollingerParams = { period: 20, multiplier: 2 };
+
+export const bollingerIndicator: IndicatorDefinition<BollingerParams> = {
+  id: "BOLLINGER",
+  name: "Bollinger Bands",
+  weight: 0.11,
+  confidence: 0.8, // Good for volatility
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period,
+  priceScale: true,
+  calculate: calculateBollinger,
+  stream: (params) => new BollingerStream(params),
+};
+
+// SMA of the closes with bands multiplier standard deviations around it, bar
+// by bar
+export class BollingerStream implements IndicatorStream {
+  private readonly average: SMA;
+  private readonly deviation: RollingStdDev;
+
+  constructor(private readonly params: BollingerParams) {
+    this.average = new SMA(params.period);
+    this.deviation = new RollingStdDev(params.period);
+  }
+
+  push({ close }: BarVolume): LineValues {
+    const mean = this.average.push(close);
+    const stdDev = this.deviation.push(close);
+    if (mean === null || stdDev === null) {
+      return { upper: null, middle: null, lower: null };
+    }
+
+    const { multiplier } = this.params;
+    return {
+      upper: mean + multiplier * stdDev,
+      middle: mean,
+      lower: mean - multiplier * stdDev,
+    };
+  }
+}
 
 // Bollinger Bands calculation and forecasting
 export async function calculateBollinger(
@@ -7,32 +63,24 @@ export async function calculateBollinger(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 20) {
-    throw new Error("Bollinger Bands requires at least 20 data points");
+  forecastDays: number,
+  params: BollingerParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period) {
+    throw new Error(`Bollinger Bands requires at least ${period} data points`);
   }
 
   debug.log(
     `Calculating Bollinger Bands with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  const period = 20;
-  const multiplier = 2;
-
-  // Calculate SMA and standard deviation
-  const smaValues = calculateSMA(closes, period);
-  const upperBand: number[] = [];
-  const lowerBand: number[] = [];
-
-  for (let i = period - 1; i < closes.length; i++) {
-    const sma = smaValues[i - period + 1];
-    const slice = closes.slice(i - period + 1, i + 1);
-    const stdDev = calculateStandardDeviation(slice, sma);
-
-    upperBand.push(sma + multiplier * stdDev);
-    lowerBand.push(sma - multiplier * stdDev);
-  }
+  // Calculate SMA and the bands around it
+  const bands =
+    lines ??
+    streamLines(new BollingerStream(params), closes, highs, lows, volumes);
+  const { upper: upperBand, middle: smaValues, lower: lowerBand } = bands;
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -45,8 +93,8 @@ export async function calculateBollinger(
   const positionInBands = (currentPrice - currentLower) / bandWidth;
 
   // Calculate trends
-  const smaTrend = calculateTrend(smaValues.slice(-5));
-  const bandWidthTrend = calculateTrend(
+  const smaTrend = averageChange(smaValues.slice(-5));
+  const bandWidthTrend = averageChange(
     upperBand
       .slice(-5)
       .map((upper, i) => upper - lowerBand[lowerBand.length - 5 + i])
@@ -57,7 +105,7 @@ export async function calculateBollinger(
   const nearLowerBand = positionInBands < 0.2;
   const squeeze = bandWidth < currentPrice * 0.1; // Band width less than 10% of price
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future values
@@ -108,41 +156,14 @@ export async function calculateBollinger(
   debug.success(
     `Bollinger Bands forecast generated: ${forecast.length} points`
   );
-  return forecast;
-}
-
-// Calculate SMA
-function calculateSMA(prices: number[], period: number): number[] {
-  const smaValues: number[] = [];
-
-  for (let i = period - 1; i < prices.length; i++) {
-    const sum = prices
-      .slice(i - period + 1, i + 1)
-      .reduce((acc, price) => acc + price, 0);
-    smaValues.push(sum / period);
-  }
-
-  return smaValues;
-}
-
-// Calculate standard deviation
-function calculateStandardDeviation(values: number[], mean: number): number {
-  const squaredDiffs = values.map((value) => Math.pow(value - mean, 2));
-  const avgSquaredDiff =
-    squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length;
-  return Math.sqrt(avgSquaredDiff);
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
+  return {
+    steps: forecast,
+    series: {
+      upper: alignSeries(upperBand, closes.length),
+      middle: alignSeries(smaValues, closes.length),
+      lower: alignSeries(lowerBand, closes.length),
+    },
+  };
 }
 
 // Calculate Bollinger confidence
@@ -0,0 +1,232 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { AverageTrueRange, RollingMax, RollingMin, BarVolume } from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface ChandelierParams {
+  period: number; // Bars of the highest high, lowest low and ATR
+  multiplier: number; // ATRs the stops hang from the extremes
+}
+
+const DEFAULT_PARAMS: ChandelierParams = { period: 22, multiplier: 3 };
+
+export const chandelierIndicator: IndicatorDefinition<ChandelierParams> = {
+  id: "CHANDELIER",
+  name: "Chandelier Exit",
+  weight: 0.07,
+  confidence: 0.75, // Good for trailing exits
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period + 1,
+  priceScale: true,
+  requiresOhlc: true,
+  calculate: calculateChandelier,
+  stream: (params) => new ChandelierStream(params),
+};
+
+// Chandelier stop, trend direction (1 up, -1 down), ATR and the extremes of
+// the period bar by bar, from the end of the ATR warm-up. The long stop
+// hangs below the highest high and the short stop above the lowest low; each
+// only moves in the trade's favor while price respects it, and a close
+// through the opposite stop flips the trend
+export class ChandelierStream implements IndicatorStream {
+  private readonly atr: AverageTrueRange;
+  private readonly highest: RollingMax;
+  private readonly lowest: RollingMin;
+  private previousClose: number | null = null;
+  private started = false;
+  private longStop = 0;
+  private shortStop = 0;
+  private isUptrend = true;
+
+  constructor(private readonly params: ChandelierParams) {
+    this.atr = new AverageTrueRange(params.period);
+    this.highest = new RollingMax(params.period);
+    this.lowest = new RollingMin(params.period);
+  }
+
+  push(bar: BarVolume): LineValues {
+    const { close } = bar;
+    const previousClose = this.previousClose;
+    this.previousClose = close;
+    const atr = this.atr.push(bar);
+    const highest = this.highest.push(bar.high);
+    const lowest = this.lowest.push(bar.low);
+    if (
+      atr === null ||
+      highest === null ||
+      lowest === null ||
+      previousClose === null
+    ) {
+      return {
+        stop: null,
+        direction: null,
+        atr: null,
+        highest: null,
+        lowest: null,
+      };
+    }
+
+    const { multiplier } = this.params;
+    const basicLong = highest - multiplier * atr;
+    const basicShort = lowest + multiplier * atr;
+
+    if (!this.started) {
+      this.longStop = basicLong;
+      this.shortStop = basicShort;
+      this.isUptrend = close >= (highest + lowest) / 2;
+      this.started = true;
+    } else {
+      const previousLong = this.longStop;
+      const previousShort = this.shortStop;
+      this.longStop =
+        previousClose > previousLong
+          ? Math.max(basicLong, previousLong)
+          : basicLong;
+      this.shortStop =
+        previousClose < previousShort
+          ? Math.min(basicShort, previousShort)
+          : basicShort;
+
+      if (close > previousShort) {
+        this.isUptrend = true;
+      } else if (close < previousLong) {
+        this.isUptrend = false;
+      }
+    }
+
+    return {
+      stop: this.isUptrend ? this.longStop : this.shortStop,
+      direction: this.isUptrend ? 1 : -1,
+      atr,
+      highest,
+      lowest,
+    };
+  }
+}
+
+// Chandelier Exit calculation and forecasting
+export async function calculateChandelier(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: ChandelierParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period + 1) {
+    throw new Error(
+      `Chandelier Exit requires at least ${period + 1} data points`
+    );
+  }
+
+  debug.log(
+    `Calculating Chandelier Exit with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  // Stop, direction, ATR and the extremes of the period of each bar after
+  // the ATR warm-up
+  const chandelier =
+    lines ??
+    streamLines(new ChandelierStream(params), closes, highs, lows, volumes);
+  const { stop: stopValues, direction: directions } = chandelier;
+  const { atr: atrValues, highest, lowest } = chandelier;
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentATR = atrValues[atrValues.length - 1];
+  const currentHigh = highest[highest.length - 1];
+  const currentLow = lowest[lowest.length - 1];
+  const direction = directions[directions.length - 1];
+  const flipped =
+    directions.length > 1 && directions[directions.length - 2] !== direction;
+
+  // Position within the range of the period (0 = lowest low, 1 = highest high)
+  const rangeWidth = currentHigh - currentLow;
+  const positionInRange =
+    rangeWidth > 0 ? (currentPrice - currentLow) / rangeWidth : 0.5;
+
+  // Price near the extreme of its trend has room before the stop is hit
+  const trendStrength = direction > 0 ? positionInRange : 1 - positionInRange;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Calculate price prediction based on Chandelier signals
+    let priceMultiplier = 1;
+
+    if (flipped) {
+      // Exit just triggered - the reversal tends to follow through
+      priceMultiplier = 1 + direction * (currentATR / currentPrice) * 0.4;
+    } else {
+      // Ride the trend, faster while price holds near its extreme
+      priceMultiplier =
+        1 + direction * (currentATR / currentPrice) * 0.3 * trendStrength;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 12);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+    const range = currentATR * Math.sqrt(day) * 0.5;
+    const confidence = calculateChandelierConfidence(
+      flipped,
+      trendStrength,
+      day
+    );
+
+    forecast.push({
+      day,
+      high: predictedPrice + range,
+      low: Math.max(predictedPrice - range, 0),
+      avg: predictedPrice,
+      confidence,
+      indicator: "CHANDELIER",
+    });
+  }
+
+  debug.success(
+    `Chandelier Exit forecast generated: ${forecast.length} points`
+  );
+  return {
+    steps: forecast,
+    series: {
+      stop: alignSeries(stopValues, closes.length),
+    },
+    trend: {
+      line: "stop",
+      directions: alignSeries(directions, closes.length),
+    },
+  };
+}
+
+// Calculate Chandelier confidence
+function calculateChandelierConfidence(
+  flipped: boolean,
+  trendStrength: number,
+  day: number
+): number {
+  let confidence = 0.72;
+
+  // Higher confidence when price holds near the extreme of its trend
+  if (flipped) {
+    confidence = 0.75;
+  } else if (trendStrength > 0.7) {
+    confidence = 0.8;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 12);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
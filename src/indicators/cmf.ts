@@ -0,0 +1,146 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import {
+  SMA,
+  BarVolume,
+  moneyFlowVolume,
+  averageChange,
+  returnsVolatility,
+} from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface CMFParams {
+  period: number;
+}
+
+const DEFAULT_PARAMS: CMFParams = { period: 20 };
+
+export const cmfIndicator: IndicatorDefinition<CMFParams> = {
+  id: "CMF",
+  name: "Chaikin Money Flow",
+  weight: 0.06,
+  confidence: 0.75, // Good for buying/selling pressure
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period,
+  requiresOhlc: true,
+  calculate: calculateCMF,
+  stream: (params) => new CMFStream(params),
+};
+
+// Money flow volume over volume of the period (the means share a length, so
+// their ratio is the ratio of the sums), bar by bar
+export class CMFStream implements IndicatorStream {
+  private readonly flow: SMA;
+  private readonly volume: SMA;
+
+  constructor({ period }: CMFParams) {
+    this.flow = new SMA(period);
+    this.volume = new SMA(period);
+  }
+
+  push(bar: BarVolume): LineValues {
+    const averageFlow = this.flow.push(moneyFlowVolume(bar));
+    const averageVolume = this.volume.push(bar.volume);
+    if (averageFlow === null || averageVolume === null) {
+      return { cmf: null };
+    }
+    return { cmf: averageVolume > 0 ? averageFlow / averageVolume : 0 };
+  }
+}
+
+// Chaikin Money Flow calculation and forecasting
+export async function calculateCMF(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: CMFParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period) {
+    throw new Error(`CMF requires at least ${period} data points`);
+  }
+
+  debug.log(
+    `Calculating CMF with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  const { cmf: cmfValues } =
+    lines ?? streamLines(new CMFStream(params), closes, highs, lows, volumes);
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentCMF = cmfValues[cmfValues.length - 1];
+  const cmfTrend = averageChange(cmfValues.slice(-5));
+
+  // Determine signals
+  const buyingPressure = currentCMF > 0.05;
+  const sellingPressure = currentCMF < -0.05;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Calculate price prediction based on CMF signals
+    let priceMultiplier = 1;
+
+    if (buyingPressure || sellingPressure) {
+      // Sustained pressure moves price in its direction
+      priceMultiplier = 1 + currentCMF * 0.05 + cmfTrend * 0.1;
+    } else {
+      // Balanced flow - follow the change in pressure mildly
+      priceMultiplier = 1 + cmfTrend * 0.05;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 12);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+    const volatility = returnsVolatility(closes.slice(-20));
+    const confidence = calculateCMFConfidence(currentCMF, day);
+
+    forecast.push({
+      day,
+      high: predictedPrice * (1 + volatility * 0.6),
+      low: predictedPrice * (1 - volatility * 0.6),
+      avg: predictedPrice,
+      confidence,
+      indicator: "CMF",
+    });
+  }
+
+  debug.success(`CMF forecast generated: ${forecast.length} points`);
+  return {
+    steps: forecast,
+    series: {
+      cmf: alignSeries(cmfValues, closes.length),
+    },
+  };
+}
+
+// Calculate CMF confidence
+function calculateCMFConfidence(cmf: number, day: number): number {
+  let confidence = 0.7;
+
+  // Higher confidence with stronger pressure
+  if (Math.abs(cmf) > 0.25) {
+    confidence = 0.85;
+  } else if (Math.abs(cmf) > 0.05) {
+    confidence = 0.78;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 14);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
@@ -0,0 +1,496 @@
+// Shared technical analysis math. Each batch function runs the streaming
+// calculator of the same name over the whole input, so a series calculated at
+// once and one extended bar by bar from live prices give the same values
+
+// Incremental calculator: push the value of one new bar, get the result at
+// that bar (null until enough bars have been seen)
+export interface StreamingCalculator<T = number> {
+  readonly value: number | null;
+  push(input: T): number | null;
+  reset(): void;
+}
+
+// Bar input of calculators that need the full range of a bar
+export interface BarRange {
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Bar input of calculators that weigh the bar's range by its volume
+export interface BarVolume extends BarRange {
+  volume: number;
+}
+
+// Fixed-size window over the most recent values
+class Window {
+  private readonly values: number[];
+  private start = 0;
+  private size = 0;
+
+  constructor(private readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(
+        `Window period must be a positive integer. Got: ${capacity}`
+      );
+    }
+    this.values = new Array<number>(capacity);
+  }
+
+  get full(): boolean {
+    return this.size === this.capacity;
+  }
+
+  // Add a value; returns the value that dropped out of a full window
+  add(value: number): number | undefined {
+    if (this.size < this.capacity) {
+      this.values[(this.start + this.size) % this.capacity] = value;
+      this.size++;
+      return undefined;
+    }
+    const dropped = this.values[this.start];
+    this.values[this.start] = value;
+    this.start = (this.start + 1) % this.capacity;
+    return dropped;
+  }
+
+  clear(): void {
+    this.start = 0;
+    this.size = 0;
+  }
+}
+
+// Simple moving average, O(1) per bar
+export class SMA implements StreamingCalculator {
+  private readonly window: Window;
+  private sum = 0;
+  private current: number | null = null;
+
+  constructor(private readonly period: number) {
+    this.window = new Window(period);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(value: number): number | null {
+    this.sum += value - (this.window.add(value) ?? 0);
+    this.current = this.window.full ? this.sum / this.period : null;
+    return this.current;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.current = null;
+  }
+}
+
+// Moving average seeded with the SMA of the first period values, then
+// current = previous + (value - previous) * factor
+abstract class SeededAverage implements StreamingCalculator {
+  private seedSum = 0;
+  private seen = 0;
+  private current: number | null = null;
+
+  constructor(
+    protected readonly period: number,
+    private readonly factor: number
+  ) {
+    if (!Number.isInteger(period) || period < 1) {
+      throw new Error(`Period must be a positive integer. Got: ${period}`);
+    }
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(value: number): number | null {
+    if (this.current === null) {
+      this.seedSum += value;
+      this.seen++;
+      if (this.seen === this.period) {
+        this.current = this.seedSum / this.period;
+      }
+      return this.current;
+    }
+
+    this.current = value * this.factor + this.current * (1 - this.factor);
+    return this.current;
+  }
+
+  reset(): void {
+    this.seedSum = 0;
+    this.seen = 0;
+    this.current = null;
+  }
+}
+
+// Exponential moving average (smoothing 2 / (period + 1))
+export class EMA extends SeededAverage {
+  constructor(period: number) {
+    super(period, 2 / (period + 1));
+  }
+}
+
+// Wilder's smoothing (smoothing 1 / period), used by RSI and ADX
+export class WilderSmoothing extends SeededAverage {
+  constructor(period: number) {
+    super(period, 1 / period);
+  }
+}
+
+// Population standard deviation over a rolling window, O(1) per bar
+export class RollingStdDev implements StreamingCalculator {
+  private readonly window: Window;
+  private sum = 0;
+  private sumOfSquares = 0;
+  private current: number | null = null;
+
+  constructor(private readonly period: number) {
+    this.window = new Window(period);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(value: number): number | null {
+    const dropped = this.window.add(value) ?? 0;
+    this.sum += value - dropped;
+    this.sumOfSquares += value * value - dropped * dropped;
+
+    if (!this.window.full) {
+      this.current = null;
+    } else {
+      const mean = this.sum / this.period;
+      // Rounding can leave a tiny negative variance for flat windows
+      const variance = this.sumOfSquares / this.period - mean * mean;
+      this.current = Math.sqrt(Math.max(variance, 0));
+    }
+    return this.current;
+  }
+
+  reset(): void {
+    this.window.clear();
+    this.sum = 0;
+    this.sumOfSquares = 0;
+    this.current = null;
+  }
+}
+
+// Highest or lowest value over a rolling window, amortized O(1) per bar. The
+// window is kept as a monotonic deque: candidates ordered from the current
+// extreme at the front to the newest value at the back. A new value removes
+// the candidates it beats from the back, since they leave the window before
+// it and can never become the extreme again, and the front drops out once it
+// is older than the window
+abstract class RollingExtreme implements StreamingCalculator {
+  private readonly values: number[];
+  private readonly positions: number[]; // Bar number of each candidate
+  private head = 0;
+  private size = 0;
+  private bars = 0;
+  private current: number | null = null;
+
+  constructor(
+    private readonly period: number,
+    private readonly highest: boolean
+  ) {
+    if (!Number.isInteger(period) || period < 1) {
+      throw new Error(`Period must be a positive integer. Got: ${period}`);
+    }
+    // At most one candidate per bar of the window
+    this.values = new Array<number>(period);
+    this.positions = new Array<number>(period);
+  }
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(value: number): number | null {
+    const position = this.bars++;
+
+    if (this.size > 0 && this.positions[this.head] <= position - this.period) {
+      this.head = (this.head + 1) % this.period;
+      this.size--;
+    }
+
+    while (this.size > 0) {
+      const last = this.values[(this.head + this.size - 1) % this.period];
+      if (this.highest ? last > value : last < value) break;
+      this.size--;
+    }
+
+    const slot = (this.head + this.size) % this.period;
+    this.values[slot] = value;
+    this.positions[slot] = position;
+    this.size++;
+
+    this.current = this.bars >= this.period ? this.values[this.head] : null;
+    return this.current;
+  }
+
+  reset(): void {
+    this.head = 0;
+    this.size = 0;
+    this.bars = 0;
+    this.current = null;
+  }
+}
+
+export class RollingMax extends RollingExtreme {
+  constructor(period: number) {
+    super(period, true);
+  }
+}
+
+export class RollingMin extends RollingExtreme {
+  constructor(period: number) {
+    super(period, false);
+  }
+}
+
+// True range: the bar's range extended to the previous close (null for the
+// first bar, which has no previous close)
+export class TrueRange implements StreamingCalculator<BarRange> {
+  private previousClose: number | null = null;
+  private current: number | null = null;
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(bar: BarRange): number | null {
+    this.current =
+      this.previousClose === null
+        ? null
+        : Math.max(
+            bar.high - bar.low,
+            Math.abs(bar.high - this.previousClose),
+            Math.abs(bar.low - this.previousClose)
+          );
+    this.previousClose = bar.close;
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.current = null;
+  }
+}
+
+// Average true range: Wilder-smoothed true range (the first bar has none)
+export class AverageTrueRange implements StreamingCalculator<BarRange> {
+  private readonly trueRange = new TrueRange();
+  private readonly smoothing: WilderSmoothing;
+
+  constructor(period: number) {
+    this.smoothing = new WilderSmoothing(period);
+  }
+
+  get value(): number | null {
+    return this.smoothing.value;
+  }
+
+  push(bar: BarRange): number | null {
+    const range = this.trueRange.push(bar);
+    return range === null ? this.smoothing.value : this.smoothing.push(range);
+  }
+
+  reset(): void {
+    this.trueRange.reset();
+    this.smoothing.reset();
+  }
+}
+
+// On-balance volume: a running total that adds the volume of up closes and
+// subtracts that of down closes (starts at 0 on the first bar)
+export class OnBalanceVolume
+  implements StreamingCalculator<Pick<BarVolume, "close" | "volume">>
+{
+  private previousClose: number | null = null;
+  private total = 0;
+  private current: number | null = null;
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(bar: Pick<BarVolume, "close" | "volume">): number | null {
+    if (this.previousClose !== null) {
+      this.total += Math.sign(bar.close - this.previousClose) * bar.volume;
+    }
+    this.previousClose = bar.close;
+    this.current = this.total;
+    return this.current;
+  }
+
+  reset(): void {
+    this.previousClose = null;
+    this.total = 0;
+    this.current = null;
+  }
+}
+
+// Money flow volume: the bar's volume weighted by where it closed in its
+// range, from -volume at the low to +volume at the high (0 for flat bars)
+export function moneyFlowVolume(bar: BarVolume): number {
+  const range = bar.high - bar.low;
+  if (range <= 0) return 0;
+  return ((bar.close - bar.low - (bar.high - bar.close)) / range) * bar.volume;
+}
+
+// Accumulation/distribution line: running total of money flow volume
+export class AccumulationDistribution
+  implements StreamingCalculator<BarVolume>
+{
+  private total = 0;
+  private current: number | null = null;
+
+  get value(): number | null {
+    return this.current;
+  }
+
+  push(bar: BarVolume): number | null {
+    this.total += moneyFlowVolume(bar);
+    this.current = this.total;
+    return this.current;
+  }
+
+  reset(): void {
+    this.total = 0;
+    this.current = null;
+  }
+}
+
+// Push every input through a calculator, keeping the results after warm-up
+function runCalculator<T>(
+  calculator: StreamingCalculator<T>,
+  inputs: T[]
+): number[] {
+  const results: number[] = [];
+  inputs.forEach((input) => {
+    const result = calculator.push(input);
+    if (result !== null) {
+      results.push(result);
+    }
+  });
+  return results;
+}
+
+// Batch versions: results from the end of the warm-up to the last input, so
+// the last result belongs to the last bar
+
+export function sma(values: number[], period: number): number[] {
+  return runCalculator(new SMA(period), values);
+}
+
+export function ema(values: number[], period: number): number[] {
+  return runCalculator(new EMA(period), values);
+}
+
+export function wilderSmooth(values: number[], period: number): number[] {
+  return runCalculator(new WilderSmoothing(period), values);
+}
+
+export function rollingStdDev(values: number[], period: number): number[] {
+  return runCalculator(new RollingStdDev(period), values);
+}
+
+export function rollingMax(values: number[], period: number): number[] {
+  return runCalculator(new RollingMax(period), values);
+}
+
+export function rollingMin(values: number[], period: number): number[] {
+  return runCalculator(new RollingMin(period), values);
+}
+
+export function trueRange(
+  highs: number[],
+  lows: number[],
+  closes: number[]
+): number[] {
+  return runCalculator(
+    new TrueRange(),
+    closes.map((close, i) => ({ high: highs[i], low: lows[i], close }))
+  );
+}
+
+// Bars with volume, for the volume-flow calculators
+export function volumeBars(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[]
+): BarVolume[] {
+  return closes.map((close, i) => ({
+    high: highs[i],
+    low: lows[i],
+    close,
+    volume: volumes[i],
+  }));
+}
+
+export function onBalanceVolume(
+  closes: number[],
+  volumes: number[]
+): number[] {
+  return runCalculator(
+    new OnBalanceVolume(),
+    closes.map((close, i) => ({ close, volume: volumes[i] }))
+  );
+}
+
+export function accumulationDistribution(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[]
+): number[] {
+  return runCalculator(
+    new AccumulationDistribution(),
+    volumeBars(highs, lows, closes, volumes)
+  );
+}
+
+// Statistics used by the forecasts
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Population variance
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return (
+    values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) /
+    values.length
+  );
+}
+
+export function standardDeviation(values: number[]): number {
+  return Math.sqrt(variance(values));
+}
+
+// Average change per step, e.g. the slope of the last few indicator values
+export function averageChange(values: number[]): number {
+  if (values.length < 2) return 0;
+  return (values[values.length - 1] - values[0]) / (values.length - 1);
+}
+
+// Standard deviation of bar-to-bar returns (2% when there are too few prices)
+export function returnsVolatility(prices: number[]): number {
+  if (prices.length < 2) return 0.02;
+
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
+  }
+  return standardDeviation(returns);
+}
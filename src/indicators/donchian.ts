@@ -0,0 +1,177 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { RollingMax, RollingMin, BarVolume, returnsVolatility } from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface DonchianParams {
+  period: number;
+}
+
+const DEFAULT_PARAMS: DonchianParams = { period: 20 };
+
+export const donchianIndicator: IndicatorDefinition<DonchianParams> = {
+  id: "DONCHIAN",
+  name: "Donchian Channels",
+  weight: 0.07,
+  confidence: 0.75, // Good for range breakouts
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period + 1,
+  priceScale: true,
+  requiresOhlc: true,
+  calculate: calculateDonchian,
+  stream: (params) => new DonchianStream(params),
+};
+
+// Highest high and lowest low of the last period bars and the middle between
+// them, bar by bar
+export class DonchianStream implements IndicatorStream {
+  private readonly highest: RollingMax;
+  private readonly lowest: RollingMin;
+
+  constructor({ period }: DonchianParams) {
+    this.highest = new RollingMax(period);
+    this.lowest = new RollingMin(period);
+  }
+
+  push({ high, low }: BarVolume): LineValues {
+    const upper = this.highest.push(high);
+    const lower = this.lowest.push(low);
+    if (upper === null || lower === null) {
+      return { upper: null, middle: null, lower: null };
+    }
+    return { upper, middle: (upper + lower) / 2, lower };
+  }
+}
+
+// Donchian Channels calculation and forecasting
+export async function calculateDonchian(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: DonchianParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period + 1) {
+    throw new Error(
+      `Donchian Channels requires at least ${period + 1} data points`
+    );
+  }
+
+  debug.log(
+    `Calculating Donchian Channels with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  // Highest high and lowest low of the last period bars
+  const channel =
+    lines ??
+    streamLines(new DonchianStream(params), closes, highs, lows, volumes);
+  const { upper: upperBand, middle, lower: lowerBand } = channel;
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentUpper = upperBand[upperBand.length - 1];
+  const currentLower = lowerBand[lowerBand.length - 1];
+  const currentMiddle = middle[middle.length - 1];
+  const channelWidth = currentUpper - currentLower;
+
+  // A breakout closes beyond the channel of the bars before it
+  const previousUpper = upperBand[upperBand.length - 2];
+  const previousLower = lowerBand[lowerBand.length - 2];
+  const breakoutUp = currentPrice > previousUpper;
+  const breakoutDown = currentPrice < previousLower;
+
+  // Position within the channel (0 = lowest low, 1 = highest high)
+  const positionInChannel =
+    channelWidth > 0 ? (currentPrice - currentLower) / channelWidth : 0.5;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Calculate price prediction based on Donchian signals
+    let priceMultiplier = 1;
+
+    if (breakoutUp) {
+      // New high - breakouts tend to follow through
+      priceMultiplier = 1 + (channelWidth / currentPrice) * 0.1;
+    } else if (breakoutDown) {
+      // New low - breakdowns tend to follow through
+      priceMultiplier = 1 - (channelWidth / currentPrice) * 0.1;
+    } else {
+      // Inside the channel - drift toward the middle
+      priceMultiplier =
+        1 + ((currentMiddle - currentPrice) / currentPrice) * 0.1;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 12);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+    const volatility = returnsVolatility(closes.slice(-period));
+    const range = predictedPrice * volatility * Math.sqrt(day);
+    const confidence = calculateDonchianConfidence(
+      breakoutUp || breakoutDown,
+      positionInChannel,
+      day
+    );
+
+    // Inside the channel its bands cap the range
+    const inside = !breakoutUp && !breakoutDown;
+    forecast.push({
+      day,
+      high: inside
+        ? Math.min(predictedPrice + range, currentUpper)
+        : predictedPrice + range,
+      low: inside
+        ? Math.max(predictedPrice - range, currentLower)
+        : predictedPrice - range,
+      avg: predictedPrice,
+      confidence,
+      indicator: "DONCHIAN",
+    });
+  }
+
+  debug.success(
+    `Donchian Channels forecast generated: ${forecast.length} points`
+  );
+  return {
+    steps: forecast,
+    series: {
+      upper: alignSeries(upperBand, closes.length),
+      middle: alignSeries(middle, closes.length),
+      lower: alignSeries(lowerBand, closes.length),
+    },
+  };
+}
+
+// Calculate Donchian confidence
+function calculateDonchianConfidence(
+  breakout: boolean,
+  position: number,
+  day: number
+): number {
+  let confidence = 0.72;
+
+  // Higher confidence on breakouts and near the channel edges
+  if (breakout) {
+    confidence = 0.82;
+  } else if (position > 0.9 || position < 0.1) {
+    confidence = 0.76;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 14);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
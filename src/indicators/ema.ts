@@ -1,5 +1,53 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { EMA, BarVolume, averageChange, returnsVolatility } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface EMAParams {
+  shortPeriod: number;
+  longPeriod: number;
+}
+
+const DEFAULT_PARAMS: EMAParams = { shortPeriod: 12, longPeriod: 26 };
+
+export const emaIndicator: IndicatorDefinition<EMAParams> = {
+  id: "EMA",
+  name: "Exponential Moving Average",
+  weight: 0.15,
+  confidence: 0.9, // High confidence for trend following
+  params: DEFAULT_PARAMS,
+  orderedParams: [["shortPeriod", "longPeriod"]],
+  minBars: ({ shortPeriod }) => shortPeriod,
+  priceScale: true,
+  calculate: calculateEMA,
+  stream: (params) => new EMAStream(params),
+};
+
+// Short and long EMA of the closes bar by bar
+export class EMAStream implements IndicatorStream {
+  private readonly short: EMA;
+  private readonly long: EMA;
+
+  constructor({ shortPeriod, longPeriod }: EMAParams) {
+    this.short = new EMA(shortPeriod);
+    this.long = new EMA(longPeriod);
+  }
+
+  push({ close }: BarVolume): LineValues {
+    return {
+      shortEma: this.short.push(close),
+      longEma: this.long.push(close),
+    };
+  }
+}
 
 // EMA calculation and forecasting
 export async function calculateEMA(
@@ -7,10 +55,13 @@ export async function calculateEMA(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 12) {
-    throw new Error("EMA requires at least 12 data points");
+  forecastDays: number,
+  params: EMAParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { shortPeriod } = params;
+  if (closes.length < shortPeriod) {
+    throw new Error(`EMA requires at least ${shortPeriod} data points`);
   }
 
   debug.log(
@@ -18,11 +69,8 @@ export async function calculateEMA(
   );
 
   // Calculate multiple EMA periods for comprehensive analysis
-  const shortPeriod = 12;
-  const longPeriod = 26;
-
-  const shortEMA = calculateEMAValues(closes, shortPeriod);
-  const longEMA = calculateEMAValues(closes, longPeriod);
+  const { shortEma: shortEMA, longEma: longEMA } =
+    lines ?? streamLines(new EMAStream(params), closes, highs, lows, volumes);
 
   // Get current values and trends
   const currentPrice = closes[closes.length - 1];
@@ -30,15 +78,15 @@ export async function calculateEMA(
   const currentLongEMA = longEMA[longEMA.length - 1];
 
   // Calculate EMA trends
-  const shortTrend = calculateEMATrend(shortEMA.slice(-5));
-  const longTrend = calculateEMATrend(longEMA.slice(-5));
+  const shortTrend = averageChange(shortEMA.slice(-5));
+  const longTrend = averageChange(longEMA.slice(-5));
 
   // Determine trend strength and direction
   const trendStrength =
     Math.abs(currentShortEMA - currentLongEMA) / currentPrice;
   const bullish = currentShortEMA > currentLongEMA;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future EMA values
@@ -63,7 +111,7 @@ export async function calculateEMA(
     }
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateEMAConfidence(trendStrength, day, bullish);
 
     forecast.push({
@@ -77,55 +125,13 @@ export async function calculateEMA(
   }
 
   debug.success(`EMA forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate EMA values for a given period
-function calculateEMAValues(prices: number[], period: number): number[] {
-  const emaValues: number[] = [];
-  const multiplier = 2 / (period + 1);
-
-  // Start with SMA for the first value
-  let ema =
-    prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
-  emaValues.push(ema);
-
-  // Calculate EMA for remaining values
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * multiplier + ema * (1 - multiplier);
-    emaValues.push(ema);
-  }
-
-  return emaValues;
-}
-
-// Calculate EMA trend
-function calculateEMATrend(emaValues: number[]): number {
-  if (emaValues.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < emaValues.length; i++) {
-    trend += emaValues[i] - emaValues[i - 1];
-  }
-
-  return trend / (emaValues.length - 1);
-}
-
-// Calculate price volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      shortEma: alignSeries(shortEMA, closes.length),
+      longEma: alignSeries(longEMA, closes.length),
+    },
+  };
 }
 
 // Calculate confidence based on EMA signals
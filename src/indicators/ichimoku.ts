@@ -1,60 +1,137 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import {
+  RollingMax,
+  RollingMin,
+  BarVolume,
+  averageChange,
+  returnsVolatility,
+} from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface IchimokuParams {
+  tenkanPeriod: number;
+  kijunPeriod: number;
+  senkouBPeriod: number;
+}
+
+const DEFAULT_PARAMS: IchimokuParams = {
+  tenkanPeriod: 9,
+  kijunPeriod: 26,
+  senkouBPeriod: 52,
+};
+
+export const ichimokuIndicator: IndicatorDefinition<IchimokuParams> = {
+  id: "ICHIMOKU",
+  name: "Ichimoku Cloud",
+  weight: 0.07,
+  confidence: 0.8, // Complex but comprehensive
+  params: DEFAULT_PARAMS,
+  orderedParams: [
+    ["tenkanPeriod", "kijunPeriod"],
+    ["kijunPeriod", "senkouBPeriod"],
+  ],
+  minBars: ({ senkouBPeriod }) => senkouBPeriod,
+  priceScale: true,
+  requiresOhlc: true,
+  calculate: calculateIchimoku,
+  stream: (params) => new IchimokuStream(params),
+};
+
+// Tenkan, kijun and senkou B midpoints bar by bar. The forecast reads senkou
+// A as the kijun paired with the tenkan 2 * (kijunPeriod - tenkanPeriod)
+// bars earlier (forecastSenkouA)
+export class IchimokuStream implements IndicatorStream {
+  private readonly tenkan: Midpoint;
+  private readonly kijun: Midpoint;
+  private readonly senkouB: Midpoint;
+  private readonly recentTenkan: (number | null)[] = []; // Oldest first
+  private readonly lag: number;
+
+  constructor({ tenkanPeriod, kijunPeriod, senkouBPeriod }: IchimokuParams) {
+    this.tenkan = new Midpoint(tenkanPeriod);
+    this.kijun = new Midpoint(kijunPeriod);
+    this.senkouB = new Midpoint(senkouBPeriod);
+    this.lag = 2 * (kijunPeriod - tenkanPeriod);
+  }
+
+  push(bar: BarVolume): LineValues {
+    const tenkan = this.tenkan.push(bar);
+    const kijun = this.kijun.push(bar);
+
+    this.recentTenkan.push(tenkan);
+    if (this.recentTenkan.length > this.lag + 1) {
+      this.recentTenkan.shift();
+    }
+    const laggedTenkan =
+      this.recentTenkan.length === this.lag + 1 ? this.recentTenkan[0] : null;
+
+    return {
+      tenkan,
+      kijun,
+      senkouB: this.senkouB.push(bar),
+      forecastSenkouA:
+        laggedTenkan !== null && kijun !== null
+          ? (laggedTenkan + kijun) / 2
+          : null,
+    };
+  }
+}
+
+// Middle of the highest high and lowest low of the last period bars
+class Midpoint {
+  private readonly highest: RollingMax;
+  private readonly lowest: RollingMin;
+
+  constructor(period: number) {
+    this.highest = new RollingMax(period);
+    this.lowest = new RollingMin(period);
+  }
+
+  push({ high, low }: BarVolume): number | null {
+    const highestHigh = this.highest.push(high);
+    const lowestLow = this.lowest.push(low);
+    return highestHigh === null || lowestLow === null
+      ? null
+      : (highestHigh + lowestLow) / 2;
+  }
+}
 
 export async function calculateIchimoku(
   closes: number[],
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 52) {
-    throw new Error("Ichimoku requires at least 52 data points");
+  forecastDays: number,
+  params: IchimokuParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { senkouBPeriod } = params;
+  if (closes.length < senkouBPeriod) {
+    throw new Error(`Ichimoku requires at least ${senkouBPeriod} data points`);
   }
 
   debug.log(
     `Calculating Ichimoku with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  // Ichimoku parameters
-  const tenkanPeriod = 9;
-  const kijunPeriod = 26;
-  const senkouBPeriod = 52;
-  const displacement = 26;
-
-  // Calculate Tenkan-sen (Conversion Line)
-  const tenkanValues: number[] = [];
-  for (let i = tenkanPeriod - 1; i < closes.length; i++) {
-    const high = Math.max(...highs.slice(i - tenkanPeriod + 1, i + 1));
-    const low = Math.min(...lows.slice(i - tenkanPeriod + 1, i + 1));
-    tenkanValues.push((high + low) / 2);
-  }
-
-  // Calculate Kijun-sen (Base Line)
-  const kijunValues: number[] = [];
-  for (let i = kijunPeriod - 1; i < closes.length; i++) {
-    const high = Math.max(...highs.slice(i - kijunPeriod + 1, i + 1));
-    const low = Math.min(...lows.slice(i - kijunPeriod + 1, i + 1));
-    kijunValues.push((high + low) / 2);
-  }
-
-  // Calculate Senkou Span A (Leading Span A)
-  const senkouAValues: number[] = [];
-  const startIndex = Math.max(tenkanPeriod, kijunPeriod) - 1;
-  for (let i = 0; i < Math.min(tenkanValues.length, kijunValues.length); i++) {
-    const tenkanIndex = i + tenkanPeriod - kijunPeriod;
-    if (tenkanIndex >= 0 && tenkanIndex < tenkanValues.length) {
-      senkouAValues.push((tenkanValues[tenkanIndex] + kijunValues[i]) / 2);
-    }
-  }
-
-  // Calculate Senkou Span B (Leading Span B)
-  const senkouBValues: number[] = [];
-  for (let i = senkouBPeriod - 1; i < closes.length; i++) {
-    const high = Math.max(...highs.slice(i - senkouBPeriod + 1, i + 1));
-    const low = Math.min(...lows.slice(i - senkouBPeriod + 1, i + 1));
-    senkouBValues.push((high + low) / 2);
-  }
+  // Calculate Tenkan-sen (Conversion Line), Kijun-sen (Base Line) and the
+  // Senkou Spans (Leading Spans)
+  const ichimoku =
+    lines ??
+    streamLines(new IchimokuStream(params), closes, highs, lows, volumes);
+  const tenkanValues = ichimoku.tenkan;
+  const kijunValues = ichimoku.kijun;
+  const senkouAValues = ichimoku.forecastSenkouA;
+  const senkouBValues = ichimoku.senkouB;
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -72,11 +149,11 @@ export async function calculateIchimoku(
   const cloudBullish = currentSenkouA > currentSenkouB;
 
   // Calculate trends
-  const priceTrend = calculateTrend(closes.slice(-10));
-  const tenkanTrend = calculateTrend(tenkanValues.slice(-5));
-  const kijunTrend = calculateTrend(kijunValues.slice(-5));
+  const priceTrend = averageChange(closes.slice(-10));
+  const tenkanTrend = averageChange(tenkanValues.slice(-5));
+  const kijunTrend = averageChange(kijunValues.slice(-5));
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future values
@@ -108,7 +185,7 @@ export async function calculateIchimoku(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 6);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateIchimokuConfidence(
       aboveCloud,
       belowCloud,
@@ -129,34 +206,22 @@ export async function calculateIchimoku(
   }
 
   debug.success(`Ichimoku forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
 
-  return Math.sqrt(variance);
+  // Lines are given at the bar they are calculated from; charts usually shift
+  // the senkou spans kijunPeriod bars ahead
+  const tenkan = alignSeries(tenkanValues, closes.length);
+  const kijun = alignSeries(kijunValues, closes.length);
+  return {
+    steps: forecast,
+    series: {
+      tenkan,
+      kijun,
+      senkouA: tenkan.map((value, i) =>
+        value !== null && kijun[i] !== null ? (value + kijun[i]!) / 2 : null
+      ),
+      senkouB: alignSeries(senkouBValues, closes.length),
+    },
+  };
 }
 
 function calculateIchimokuConfidence(
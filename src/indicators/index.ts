@@ -1,10 +1,13 @@
 // Indicators module - Will handle technical analysis calculations
+import { createHash } from "crypto";
 import { debug } from "../index";
 import { PricePoint } from "../data/fetchPrices";
+import { Interval, DEFAULT_INTERVAL, addBars } from "../data/intervals";
 
 // Forecast data structure
 export interface ForecastPoint {
-  day: number;
+  day: number; // Steps ahead of the last bar (days for daily bars)
+  timestamp: number; // Open time of the forecast bar (ms, UTC)
   high: number;
   low: number;
   avg: number;
@@ -12,15 +15,107 @@ export interface ForecastPoint {
   indicator: string;
 }
 
+// Forecast step as produced by indicator calculators (timestamps are added
+// centrally from the last bar and the interval)
+export type ForecastStep = Omit<ForecastPoint, "timestamp">;
+
+// Indicator lines by name (e.g. macd, signal, histogram), one value per input
+// bar; null while the indicator is still warming up
+export type SeriesValues = Record<string, (number | null)[]>;
+
+// Output of an indicator calculator
+export interface CalculatorOutput {
+  steps: ForecastStep[];
+  series: SeriesValues;
+  trend?: TrendDirections; // Stop-and-reverse indicators only
+}
+
+// Trend of a stop-and-reverse indicator at each bar: 1 while its stop trails
+// below price, -1 while it trails above, null while warming up
+export interface TrendDirections {
+  line: string; // Series line holding the stop, e.g. "supertrend"
+  directions: (number | null)[];
+}
+
+// Bar where a stop-and-reverse indicator changed direction
+export interface TrendFlip {
+  date: string;
+  timestamp: number;
+  direction: "up" | "down"; // Trend after the flip
+  stop: number; // Stop on the bar of the flip
+}
+
+// Trend of a stop-and-reverse indicator at the last bar
+export interface TrendState {
+  direction: "up" | "down";
+  stop: number; // Below price in an uptrend, above it in a downtrend
+  flips: TrendFlip[]; // Oldest first
+}
+
+// Indicator calculator: bars in (oldest first), forecast and lines out. Given
+// the lines its stream produced for the same bars, only the forecast is run
+export type IndicatorCalculator<P> = (
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: P,
+  lines?: IndicatorLines
+) => Promise<CalculatorOutput>;
+
+// Values of an indicator's lines at one bar, including internal lines its
+// forecast reads; null while a line is still warming up
+export type LineValues = Record<string, number | null>;
+
+// Lines of an indicator from the end of each one's warm-up to the last bar
+export type IndicatorLines = Record<string, number[]>;
+
+// Incremental form of an indicator's lines: push a bar, get its line values
+export interface IndicatorStream {
+  push(bar: BarVolume): LineValues;
+}
+
+// Out-of-sample evaluation of an indicator on the bars it was given
+export interface AccuracyEvaluation {
+  windows: number; // Earlier forecast origins scored
+  samples: number; // Forecast steps scored against realized closes
+  hitRate: number; // Share of steps with the direction from the origin right
+  meanError: number; // Mean absolute error of the step averages (0.03 = 3%)
+}
+
+// Historical indicator values aligned to the input bars
+export interface IndicatorSeries {
+  dates: string[]; // PricePoint.date of each bar
+  timestamps: number[];
+  closes: number[]; // Close of each bar, for comparing price to the lines
+  volumes: number[]; // Volume of each bar, for confirming moves
+  values: SeriesValues;
+}
+
 // Individual indicator result
 export interface IndicatorResult {
   name: string;
   forecast: ForecastPoint[];
-  accuracy: number; // Historical accuracy score
+  series: IndicatorSeries;
+  accuracy: number; // Measured hit rate (UNMEASURED_ACCURACY without samples)
+  evaluation?: AccuracyEvaluation; // How accuracy was measured
+  trend?: TrendState; // Stop-and-reverse indicators only
   weight: number; // Weight in final calculation
   executionTime: number;
 }
 
+// Parts of a calculation already known from earlier work on the same bars
+export interface PrecomputedIndicators {
+  evaluations?: Record<string, AccuracyEvaluation>; // By indicator id
+  lines?: Record<string, IndicatorLines>; // Stream lines up to the last bar,
+  // by indicator id
+}
+
+// Weighted forecast as merged into a combined forecast (indicator and
+// strategy results both qualify)
+export type WeightedForecast = Omit<IndicatorResult, "series">;
+
 // Performance: Cache for indicator calculations (equivalent to useMemo)
 const indicatorCache = new Map<
   string,
@@ -35,31 +130,28 @@ const indicatorCache = new Map<
 const CACHE_DURATION = 2 * 60 * 1000; // 2 minutes for indicators
 const MAX_CACHE_SIZE = 50;
 
-// Import individual indicator implementations
-import { calculateRSI } from "./rsi";
-import { calculateEMA } from "./ema";
-import { calculateMACD } from "./macd";
-import { calculateSMA } from "./sma";
-import { calculateBollinger } from "./bollinger";
-import { calculateStochastic } from "./stochastic";
-import { calculateVWAP } from "./vwap";
-import { calculateADX } from "./adx";
-import { calculateParabolicSAR } from "./parabolicSar";
-import { calculateIchimoku } from "./ichimoku";
-
-// Available indicators with their weights
-export const INDICATORS = {
-  RSI: { weight: 0.12, name: "Relative Strength Index" },
-  EMA: { weight: 0.15, name: "Exponential Moving Average" },
-  MACD: { weight: 0.13, name: "MACD" },
-  SMA: { weight: 0.1, name: "Simple Moving Average" },
-  BOLLINGER: { weight: 0.11, name: "Bollinger Bands" },
-  STOCHASTIC: { weight: 0.09, name: "Stochastic Oscillator" },
-  VWAP: { weight: 0.08, name: "Volume Weighted Average Price" },
-  ADX: { weight: 0.07, name: "Average Directional Index" },
-  PARABOLIC_SAR: { weight: 0.08, name: "Parabolic SAR" },
-  ICHIMOKU: { weight: 0.07, name: "Ichimoku Cloud" },
-};
+import {
+  IndicatorParams,
+  getDefaultIndicatorParams,
+  describeParams,
+} from "./params";
+import {
+  IndicatorDefinition,
+  getIndicator,
+  getIndicatorIds,
+} from "./registry";
+import { trendState } from "./series";
+import { variance, BarVolume } from "./core";
+import { evaluateAccuracy, UNMEASURED_ACCURACY } from "./accuracy";
+
+export * from "./params";
+export * from "./registry";
+export * from "./plugins";
+export * from "./series";
+export * from "./core";
+export * from "./stream";
+export * from "./live";
+export * from "./accuracy";
 
 // Performance: Cache management
 function cleanupIndicatorCache(): void {
@@ -118,20 +210,40 @@ function setCachedIndicator(cacheKey: string, result: IndicatorResult): void {
   debug.log(`Cached indicator result: ${cacheKey}`);
 }
 
+// Digest of the time and OHLCV of every bar: series that share their length
+// and last bar can still differ (other providers or quotes, repaired versus
+// raw bars, replayed versus live data) and must not share results
+function hashPriceData(priceData: PricePoint[]): string {
+  const values = new Float64Array(priceData.length * 6);
+  priceData.forEach((bar, i) =>
+    values.set(
+      [bar.timestamp, bar.open, bar.high, bar.low, bar.close, bar.volume],
+      i * 6
+    )
+  );
+  return createHash("sha1").update(Buffer.from(values.buffer)).digest("hex");
+}
+
 // Generate cache key for indicators
 function generateCacheKey(
   symbol: string,
   days: number,
   indicatorName: string,
-  pricesLength: number
+  dataHash: string,
+  interval: Interval,
+  params: object
 ): string {
-  // Include symbol, forecast days, indicator name, and data size for uniqueness
-  return `${symbol}-${days}-${indicatorName}-${pricesLength}`;
+  // Include symbol, forecast steps, indicator, interval, parameters and the
+  // digest of the bars
+  return `${symbol}-${days}-${indicatorName}-${interval}-${describeParams(
+    params
+  )}-${dataHash}`;
 }
 
 // Extract price arrays from PricePoint data
 export function extractPriceArrays(data: PricePoint[]) {
   return {
+    opens: data.map((p) => p.open),
     closes: data.map((p) => p.close),
     highs: data.map((p) => p.high),
     lows: data.map((p) => p.low),
@@ -140,25 +252,27 @@ export function extractPriceArrays(data: PricePoint[]) {
   };
 }
 
-// Calculate individual indicator with caching
-async function calculateIndicator(
-  indicatorName: string,
-  calculator: (
-    closes: number[],
-    highs: number[],
-    lows: number[],
-    volumes: number[],
-    forecastDays: number
-  ) => Promise<ForecastPoint[]>,
+// Calculate individual indicator with caching; given lines and evaluation are
+// used instead of running the stream or scoring the calculator again
+async function calculateIndicator<P extends object>(
+  definition: IndicatorDefinition<P>,
   symbol: string,
   priceData: PricePoint[],
-  forecastDays: number
+  forecastDays: number,
+  interval: Interval,
+  params: P,
+  dataHash: string,
+  lines?: IndicatorLines,
+  closedEvaluation?: AccuracyEvaluation
 ): Promise<IndicatorResult> {
+  const { id: indicatorName, calculate: calculator } = definition;
   const cacheKey = generateCacheKey(
     symbol,
     forecastDays,
     indicatorName,
-    priceData.length
+    dataHash,
+    interval,
+    params
   );
 
   // Check cache first
@@ -170,39 +284,79 @@ async function calculateIndicator(
   const startTime = Date.now();
 
   try {
-    const { closes, highs, lows, volumes } = extractPriceArrays(priceData);
+    const { closes, highs, lows, volumes, dates } =
+      extractPriceArrays(priceData);
 
     debug.log(
-      `Calculating ${indicatorName} for ${symbol} (${forecastDays} days)`
+      `Calculating ${indicatorName} for ${symbol} (${forecastDays} x ${interval}, ${describeParams(
+        params
+      )})`
     );
 
-    const forecast = await calculator(
+    const { steps, series, trend } = await calculator(
       closes,
       highs,
       lows,
       volumes,
-      forecastDays
+      forecastDays,
+      params,
+      lines
     );
+
+    // Place each step on the bar grid after the last known bar
+    const lastBar = priceData[priceData.length - 1].timestamp;
+    const forecast: ForecastPoint[] = steps.map((step) => ({
+      ...step,
+      timestamp: addBars(lastBar, step.day, interval),
+    }));
     const executionTime = Date.now() - startTime;
 
+    // Score forecasts made from earlier bars of the same data (not part of
+    // the execution time)
+    const evaluation =
+      closedEvaluation ??
+      (await evaluateAccuracy(
+        calculator,
+        closes,
+        highs,
+        lows,
+        volumes,
+        forecastDays,
+        params
+      ));
+
     // Calculate confidence based on data quality and indicator characteristics
     const confidence = calculateConfidence(
       forecast,
-      indicatorName,
+      definition.confidence,
       priceData.length
     );
 
+    const indicatorSeries: IndicatorSeries = {
+      dates,
+      timestamps: priceData.map((p) => p.timestamp),
+      closes,
+      volumes,
+      values: series,
+    };
+
     const result: IndicatorResult = {
       name: indicatorName,
       forecast,
-      accuracy: calculateHistoricalAccuracy(indicatorName),
-      weight:
-        INDICATORS[indicatorName as keyof typeof INDICATORS]?.weight || 0.1,
+      series: indicatorSeries,
+      accuracy:
+        evaluation.samples > 0 ? evaluation.hitRate : UNMEASURED_ACCURACY,
+      evaluation,
+      trend: trend && trendState(indicatorSeries, trend),
+      weight: definition.weight,
       executionTime,
     };
 
-    // Cache the result
-    setCachedIndicator(cacheKey, result);
+    // Cache the result; live results change with every tick and would only
+    // crowd out the scored ones
+    if (!closedEvaluation) {
+      setCachedIndicator(cacheKey, result);
+    }
 
     debug.success(`${indicatorName} calculated in ${executionTime}ms`);
     return result;
@@ -213,6 +367,13 @@ async function calculateIndicator(
     return {
       name: indicatorName,
       forecast: [],
+      series: {
+        dates: [],
+        timestamps: [],
+        closes: [],
+        volumes: [],
+        values: {},
+      },
       accuracy: 0,
       weight: 0,
       executionTime: Date.now() - startTime,
@@ -223,7 +384,7 @@ async function calculateIndicator(
 // Calculate confidence score for forecasts
 function calculateConfidence(
   forecast: ForecastPoint[],
-  indicatorName: string,
+  indicatorConfidence: number,
   dataLength: number
 ): number {
   if (!forecast || forecast.length === 0) return 0;
@@ -232,65 +393,42 @@ function calculateConfidence(
   let confidence = Math.min(dataLength / 60, 1); // Max confidence at 60+ days
 
   // Adjust based on indicator characteristics
-  const indicatorMultipliers: Record<string, number> = {
-    EMA: 0.9, // High confidence for trend following
-    SMA: 0.85, // Good confidence for trend
-    MACD: 0.8, // Good for momentum
-    RSI: 0.75, // Good for overbought/oversold
-    BOLLINGER: 0.8, // Good for volatility
-    STOCHASTIC: 0.7, // Moderate for momentum
-    VWAP: 0.85, // Good for volume analysis
-    ADX: 0.7, // Moderate for trend strength
-    PARABOLIC_SAR: 0.75, // Good for trend reversal
-    ICHIMOKU: 0.8, // Complex but comprehensive
-  };
-
-  confidence *= indicatorMultipliers[indicatorName] || 0.7;
+  confidence *= indicatorConfidence;
 
   // Check forecast consistency (lower variance = higher confidence)
   const avgValues = forecast.map((f) => f.avg);
-  const variance = calculateVariance(avgValues);
-  const normalizedVariance = Math.min(variance / 1000, 1); // Normalize by typical price variance
+  const avgVariance = variance(avgValues);
+  const normalizedVariance = Math.min(avgVariance / 1000, 1); // Normalize by typical price variance
   confidence *= 1 - normalizedVariance * 0.3; // Reduce confidence for high variance
 
   return Math.max(Math.min(confidence, 1), 0.1); // Clamp between 0.1 and 1
 }
 
-// Calculate variance for confidence assessment
-function calculateVariance(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-  const squaredDiffs = values.map((val) => Math.pow(val - mean, 2));
-  return squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length;
-}
-
-// Calculate historical accuracy (simulated based on indicator characteristics)
-function calculateHistoricalAccuracy(indicatorName: string): number {
-  // These are realistic accuracy estimates based on financial literature
-  const accuracyEstimates: Record<string, number> = {
-    RSI: 0.72,
-    EMA: 0.78,
-    MACD: 0.75,
-    SMA: 0.7,
-    BOLLINGER: 0.76,
-    STOCHASTIC: 0.68,
-    VWAP: 0.74,
-    ADX: 0.66,
-    PARABOLIC_SAR: 0.71,
-    ICHIMOKU: 0.73,
-  };
-
-  return accuracyEstimates[indicatorName] || 0.7;
-}
-
-// Main function to calculate all indicators
+/**
+ * Calculate all indicators in parallel
+ * @param symbol - Coin symbol (part of the cache key)
+ * @param priceData - Bars sorted oldest to newest
+ * @param forecastDays - Bars to forecast
+ * @param interval - Bar interval of the data
+ * @param params - Calculator parameters per indicator
+ * @param indicatorIds - Registered indicators to calculate (all by default)
+ * @param precomputed - Lines and accuracy evaluations already calculated,
+ * e.g. by a live update of the forming bar (see LiveIndicators)
+ * @returns Results of the indicators that succeeded
+ */
 export async function calculateAllIndicators(
   symbol: string,
   priceData: PricePoint[],
-  forecastDays: number
+  forecastDays: number,
+  interval: Interval = DEFAULT_INTERVAL,
+  params: IndicatorParams = getDefaultIndicatorParams(),
+  indicatorIds: string[] = getIndicatorIds(),
+  precomputed: PrecomputedIndicators = {}
 ): Promise<IndicatorResult[]> {
-  debug.log(`Starting calculation of all 10 indicators for ${symbol}`);
+  const definitions = indicatorIds.map((id) => getIndicator(id));
+  debug.log(
+    `Starting calculation of ${definitions.length} indicators for ${symbol}`
+  );
   const startTime = Date.now();
 
   // Cleanup expired cache entries
@@ -299,51 +437,43 @@ export async function calculateAllIndicators(
   // Validate input data
   if (!priceData || priceData.length < 20) {
     throw new Error(
-      "Insufficient data for technical analysis (minimum 20 days required)"
+      "Insufficient data for technical analysis (minimum 20 bars required)"
     );
   }
 
   if (![10, 20, 30].includes(forecastDays)) {
-    throw new Error("Forecast days must be 10, 20, or 30");
+    throw new Error("Forecast length must be 10, 20, or 30 bars");
   }
 
-  // Calculate all indicators in parallel for performance
-  const indicatorPromises = [
-    calculateIndicator("RSI", calculateRSI, symbol, priceData, forecastDays),
-    calculateIndicator("EMA", calculateEMA, symbol, priceData, forecastDays),
-    calculateIndicator("MACD", calculateMACD, symbol, priceData, forecastDays),
-    calculateIndicator("SMA", calculateSMA, symbol, priceData, forecastDays),
-    calculateIndicator(
-      "BOLLINGER",
-      calculateBollinger,
-      symbol,
-      priceData,
-      forecastDays
-    ),
-    calculateIndicator(
-      "STOCHASTIC",
-      calculateStochastic,
-      symbol,
-      priceData,
-      forecastDays
-    ),
-    calculateIndicator("VWAP", calculateVWAP, symbol, priceData, forecastDays),
-    calculateIndicator("ADX", calculateADX, symbol, priceData, forecastDays),
-    calculateIndicator(
-      "PARABOLIC_SAR",
-      calculateParabolicSAR,
-      symbol,
-      priceData,
-      forecastDays
-    ),
-    calculateIndicator(
-      "ICHIMOKU",
-      calculateIchimoku,
-      symbol,
-      priceData,
-      forecastDays
-    ),
-  ];
+  // Calculate all indicators in parallel for performance, leaving out those
+  // that need more bars than there are
+  const dataHash = hashPriceData(priceData);
+  const indicatorPromises = definitions
+    .filter((definition) => {
+      const minBars = definition.minBars(
+        params[definition.id] || definition.params
+      );
+      if (priceData.length < minBars) {
+        debug.log(
+          `Skipping ${definition.id}: needs ${minBars} bars, got ${priceData.length}`
+        );
+        return false;
+      }
+      return true;
+    })
+    .map((definition) =>
+      calculateIndicator(
+        definition,
+        symbol,
+        priceData,
+        forecastDays,
+        interval,
+        params[definition.id] || definition.params,
+        dataHash,
+        precomputed.lines?.[definition.id],
+        precomputed.evaluations?.[definition.id]
+      )
+    );
 
   try {
     const results = await Promise.all(indicatorPromises);
@@ -353,7 +483,7 @@ export async function calculateAllIndicators(
     const validResults = results.filter((result) => result.forecast.length > 0);
 
     debug.success(
-      `Calculated ${validResults.length}/10 indicators in ${totalTime}ms`
+      `Calculated ${validResults.length}/${definitions.length} indicators in ${totalTime}ms`
     );
     debug.log(
       "Indicator performance:",
@@ -0,0 +1,190 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { EMA, AverageTrueRange, BarVolume, averageChange } from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface KeltnerParams {
+  period: number; // EMA of the middle line
+  atrPeriod: number;
+  multiplier: number; // Channel distance from the middle in ATRs
+}
+
+const DEFAULT_PARAMS: KeltnerParams = {
+  period: 20,
+  atrPeriod: 10,
+  multiplier: 2,
+};
+
+export const keltnerIndicator: IndicatorDefinition<KeltnerParams> = {
+  id: "KELTNER",
+  name: "Keltner Channels",
+  weight: 0.08,
+  confidence: 0.8, // Good for trend and volatility
+  params: DEFAULT_PARAMS,
+  minBars: ({ period, atrPeriod }) => Math.max(period, atrPeriod + 1),
+  priceScale: true,
+  requiresOhlc: true,
+  calculate: calculateKeltner,
+  stream: (params) => new KeltnerStream(params),
+};
+
+// EMA middle line with bands multiplier ATRs around it, from the bar where
+// both have a value
+export class KeltnerStream implements IndicatorStream {
+  private readonly average: EMA;
+  private readonly atr: AverageTrueRange;
+
+  constructor(private readonly params: KeltnerParams) {
+    this.average = new EMA(params.period);
+    this.atr = new AverageTrueRange(params.atrPeriod);
+  }
+
+  push(bar: BarVolume): LineValues {
+    const middle = this.average.push(bar.close);
+    const atr = this.atr.push(bar);
+    if (middle === null || atr === null) {
+      return { upper: null, middle: null, lower: null, atr: null };
+    }
+
+    const { multiplier } = this.params;
+    return {
+      upper: middle + multiplier * atr,
+      middle,
+      lower: middle - multiplier * atr,
+      atr,
+    };
+  }
+}
+
+// Keltner Channels calculation and forecasting
+export async function calculateKeltner(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: KeltnerParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period, atrPeriod, multiplier } = params;
+  const required = Math.max(period, atrPeriod + 1);
+  if (closes.length < required) {
+    throw new Error(
+      `Keltner Channels requires at least ${required} data points`
+    );
+  }
+
+  debug.log(
+    `Calculating Keltner Channels with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  // EMA middle line, ATR and bands, from the bar where both have a value
+  const channel =
+    lines ??
+    streamLines(new KeltnerStream(params), closes, highs, lows, volumes);
+  const { upper: upperBand, middle, lower: lowerBand, atr } = channel;
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentMiddle = middle[middle.length - 1];
+  const currentATR = atr[atr.length - 1];
+  const channelWidth = 2 * multiplier * currentATR;
+
+  // Position within the channel (0 = lower band, 1 = upper band)
+  const positionInChannel =
+    channelWidth > 0
+      ? (currentPrice - (currentMiddle - channelWidth / 2)) / channelWidth
+      : 0.5;
+
+  // Calculate trends
+  const middleTrend = averageChange(middle.slice(-5));
+  const atrTrend = averageChange(atr.slice(-5));
+
+  // Closes outside the channel ride the trend; inside they drift to the middle
+  const aboveChannel = positionInChannel > 1;
+  const belowChannel = positionInChannel < 0;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Project future values
+    const futureMiddle = currentMiddle + middleTrend * day;
+    const futureATR = Math.max(currentATR + atrTrend * day * 0.5, 0);
+    const futureUpper = futureMiddle + multiplier * futureATR;
+    const futureLower = futureMiddle - multiplier * futureATR;
+
+    // Calculate price prediction based on Keltner signals
+    let priceMultiplier = 1;
+
+    if (aboveChannel) {
+      // Breakout above the channel - trend continuation
+      priceMultiplier = 1 + (Math.abs(middleTrend) / currentPrice) * 2;
+    } else if (belowChannel) {
+      // Breakdown below the channel - trend continuation
+      priceMultiplier = 1 - (Math.abs(middleTrend) / currentPrice) * 2;
+    } else {
+      // Inside the channel - follow the middle line
+      priceMultiplier =
+        1 +
+        (middleTrend + (currentMiddle - currentPrice) * 0.1) / currentPrice;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 12);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+    const range = futureATR * Math.sqrt(day) * 0.5;
+    const confidence = calculateKeltnerConfidence(
+      aboveChannel || belowChannel,
+      day
+    );
+
+    forecast.push({
+      day,
+      high: Math.min(predictedPrice + range, futureUpper + futureATR),
+      low: Math.max(predictedPrice - range, futureLower - futureATR),
+      avg: predictedPrice,
+      confidence,
+      indicator: "KELTNER",
+    });
+  }
+
+  debug.success(
+    `Keltner Channels forecast generated: ${forecast.length} points`
+  );
+  return {
+    steps: forecast,
+    series: {
+      upper: alignSeries(upperBand, closes.length),
+      middle: alignSeries(middle, closes.length),
+      lower: alignSeries(lowerBand, closes.length),
+    },
+  };
+}
+
+// Calculate Keltner confidence
+function calculateKeltnerConfidence(
+  outsideChannel: boolean,
+  day: number
+): number {
+  let confidence = 0.76;
+
+  // Higher confidence on closes outside the channel
+  if (outsideChannel) {
+    confidence = 0.84;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 14);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
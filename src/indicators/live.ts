@@ -0,0 +1,116 @@
+import { PricePoint } from "../data/fetchPrices";
+import { Interval } from "../data/intervals";
+import {
+  AccuracyEvaluation,
+  IndicatorLines,
+  IndicatorResult,
+  IndicatorStream,
+  calculateAllIndicators,
+} from "./index";
+import { IndicatorParams } from "./params";
+import { getIndicator } from "./registry";
+import { appendLines, extendLines, cloneStream } from "./stream";
+
+export interface LiveIndicatorOptions {
+  forecastDays: number;
+  interval: Interval;
+  params: IndicatorParams;
+  indicators: string[]; // Registered ids to calculate
+}
+
+// Stream of one indicator with the lines of the closed bars pushed into it
+interface ClosedStream {
+  stream: IndicatorStream;
+  lines: IndicatorLines;
+}
+
+/**
+ * Indicators of a series whose last bar is still forming. Each closed bar is
+ * pushed once into every indicator's stream and scored for accuracy once;
+ * an update calculates the forming bar from a copy of the streams, so only
+ * the forecasts run again. Indicators without a stream (plugins) are
+ * calculated over all bars on every update
+ */
+export class LiveIndicators {
+  private readonly streams = new Map<string, ClosedStream>();
+  private closedBars: PricePoint[] = [];
+  private evaluations: Record<string, AccuracyEvaluation> = {};
+
+  constructor(
+    private readonly symbol: string,
+    private readonly options: LiveIndicatorOptions
+  ) {
+    options.indicators.forEach((id) => {
+      const definition = getIndicator(id);
+      if (definition.stream) {
+        this.streams.set(id, {
+          stream: definition.stream(options.params[id] || definition.params),
+          lines: {},
+        });
+      }
+    });
+  }
+
+  /**
+   * Calculate the indicators with the last bar forming. Bars that closed
+   * since the previous update are pushed into the streams and scored first
+   * @param bars - Bars sorted oldest to newest; bars are only ever added at
+   * the end, and only the last one changes between updates
+   * @returns Results of the indicators that succeeded
+   */
+  async update(bars: PricePoint[]): Promise<IndicatorResult[]> {
+    const closed = bars.slice(this.closedBars.length, -1);
+    if (closed.length > 0) {
+      await this.close(closed);
+    }
+
+    const forming = bars[bars.length - 1];
+    const lines: Record<string, IndicatorLines> = {};
+    this.streams.forEach(({ stream, lines: closedLines }, id) => {
+      lines[id] = extendLines(closedLines, cloneStream(stream).push(forming));
+    });
+
+    const { forecastDays, interval, params, indicators } = this.options;
+    return calculateAllIndicators(
+      this.symbol,
+      bars,
+      forecastDays,
+      interval,
+      params,
+      indicators,
+      { evaluations: this.evaluations, lines }
+    );
+  }
+
+  // Push closed bars into the streams and score the indicators on all
+  // closed bars
+  private async close(bars: PricePoint[]): Promise<void> {
+    bars.forEach((bar) =>
+      this.streams.forEach(({ stream, lines }) =>
+        appendLines(lines, stream.push(bar))
+      )
+    );
+    this.closedBars = [...this.closedBars, ...bars];
+
+    const lines: Record<string, IndicatorLines> = {};
+    this.streams.forEach((closedStream, id) => {
+      lines[id] = closedStream.lines;
+    });
+
+    const { forecastDays, interval, params, indicators } = this.options;
+    const results = await calculateAllIndicators(
+      this.symbol,
+      this.closedBars,
+      forecastDays,
+      interval,
+      params,
+      indicators,
+      { lines }
+    );
+    this.evaluations = Object.fromEntries(
+      results
+        .filter((result) => result.evaluation)
+        .map((result) => [result.name, result.evaluation!])
+    );
+  }
+}
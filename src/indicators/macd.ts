@@ -1,5 +1,65 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { EMA, BarVolume, averageChange, returnsVolatility } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface MACDParams {
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+}
+
+const DEFAULT_PARAMS: MACDParams = { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 };
+
+export const macdIndicator: IndicatorDefinition<MACDParams> = {
+  id: "MACD",
+  name: "MACD",
+  weight: 0.13,
+  confidence: 0.8, // Good for momentum
+  params: DEFAULT_PARAMS,
+  orderedParams: [["fastPeriod", "slowPeriod"]],
+  minBars: ({ slowPeriod }) => slowPeriod,
+  calculate: calculateMACD,
+  stream: (params) => new MACDStream(params),
+};
+
+// MACD line (fast EMA - slow EMA), its signal EMA and the histogram between
+// them, bar by bar
+export class MACDStream implements IndicatorStream {
+  private readonly fast: EMA;
+  private readonly slow: EMA;
+  private readonly signal: EMA;
+
+  constructor({ fastPeriod, slowPeriod, signalPeriod }: MACDParams) {
+    this.fast = new EMA(fastPeriod);
+    this.slow = new EMA(slowPeriod);
+    this.signal = new EMA(signalPeriod);
+  }
+
+  push({ close }: BarVolume): LineValues {
+    const fast = this.fast.push(close);
+    const slow = this.slow.push(close);
+    if (fast === null || slow === null) {
+      return { macd: null, signal: null, histogram: null };
+    }
+
+    const macd = fast - slow;
+    const signal = this.signal.push(macd);
+    return {
+      macd,
+      signal,
+      histogram: signal === null ? null : macd - signal,
+    };
+  }
+}
 
 // MACD calculation and forecasting
 export async function calculateMACD(
@@ -7,41 +67,23 @@ export async function calculateMACD(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 26) {
-    throw new Error("MACD requires at least 26 data points");
+  forecastDays: number,
+  params: MACDParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { slowPeriod } = params;
+  if (closes.length < slowPeriod) {
+    throw new Error(`MACD requires at least ${slowPeriod} data points`);
   }
 
   debug.log(
     `Calculating MACD with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  // MACD parameters
-  const fastPeriod = 12;
-  const slowPeriod = 26;
-  const signalPeriod = 9;
-
-  // Calculate EMAs
-  const fastEMA = calculateEMA(closes, fastPeriod);
-  const slowEMA = calculateEMA(closes, slowPeriod);
-
-  // Calculate MACD line (fast EMA - slow EMA)
-  const macdLine: number[] = [];
-  const startIndex = slowPeriod - fastPeriod;
-
-  for (let i = startIndex; i < fastEMA.length; i++) {
-    macdLine.push(fastEMA[i] - slowEMA[i - startIndex]);
-  }
-
-  // Calculate Signal line (EMA of MACD)
-  const signalLine = calculateEMA(macdLine, signalPeriod);
-
-  // Calculate Histogram (MACD - Signal)
-  const histogram: number[] = [];
-  for (let i = 0; i < signalLine.length; i++) {
-    histogram.push(macdLine[i + signalPeriod - 1] - signalLine[i]);
-  }
+  // Calculate MACD, signal and histogram lines
+  const macdLines =
+    lines ?? streamLines(new MACDStream(params), closes, highs, lows, volumes);
+  const { macd: macdLine, signal: signalLine, histogram } = macdLines;
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -50,9 +92,9 @@ export async function calculateMACD(
   const currentHistogram = histogram[histogram.length - 1];
 
   // Analyze trends
-  const macdTrend = calculateTrend(macdLine.slice(-5));
-  const signalTrend = calculateTrend(signalLine.slice(-5));
-  const histogramTrend = calculateTrend(histogram.slice(-3));
+  const macdTrend = averageChange(macdLine.slice(-5));
+  const signalTrend = averageChange(signalLine.slice(-5));
+  const histogramTrend = averageChange(histogram.slice(-3));
 
   // Determine signals
   const bullishCrossover =
@@ -61,7 +103,7 @@ export async function calculateMACD(
     currentMACD < currentSignal && macdTrend < signalTrend;
   const momentum = currentHistogram > 0 ? 1 : -1;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future MACD values
@@ -88,7 +130,7 @@ export async function calculateMACD(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 6);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateMACDConfidence(
       futureHistogram,
       day,
@@ -125,53 +167,14 @@ export async function calculateMACD(
   }
 
   debug.success(`MACD forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate EMA values
-function calculateEMA(prices: number[], period: number): number[] {
-  const emaValues: number[] = [];
-  const multiplier = 2 / (period + 1);
-
-  let ema =
-    prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period;
-  emaValues.push(ema);
-
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * multiplier + ema * (1 - multiplier);
-    emaValues.push(ema);
-  }
-
-  return emaValues;
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-// Calculate volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      macd: alignSeries(macdLine, closes.length),
+      signal: alignSeries(signalLine, closes.length),
+      histogram: alignSeries(histogram, closes.length),
+    },
+  };
 }
 
 // Calculate MACD confidence
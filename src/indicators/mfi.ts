@@ -0,0 +1,159 @@
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { SMA, BarVolume, averageChange, returnsVolatility } from "./core";
+import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface MFIParams {
+  period: number;
+}
+
+const DEFAULT_PARAMS: MFIParams = { period: 14 };
+
+export const mfiIndicator: IndicatorDefinition<MFIParams> = {
+  id: "MFI",
+  name: "Money Flow Index",
+  weight: 0.07,
+  confidence: 0.75, // Good for volume-weighted overbought/oversold
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period + 1,
+  requiresOhlc: true,
+  calculate: calculateMFI,
+  stream: (params) => new MFIStream(params),
+};
+
+// MFI bar by bar from the money flow of each bar, positive when the typical
+// price rose
+export class MFIStream implements IndicatorStream {
+  private readonly positive: SMA;
+  private readonly negative: SMA;
+  private previousTypical: number | null = null;
+
+  constructor({ period }: MFIParams) {
+    this.positive = new SMA(period);
+    this.negative = new SMA(period);
+  }
+
+  push({ high, low, close, volume }: BarVolume): LineValues {
+    const typicalPrice = (high + low + close) / 3;
+    const previousTypical = this.previousTypical;
+    this.previousTypical = typicalPrice;
+    if (previousTypical === null) {
+      return { mfi: null };
+    }
+
+    // Ratio of the positive and negative flow of the period (the means share
+    // a length, so their ratio is the ratio of the sums)
+    const flow = typicalPrice * volume;
+    const positive = this.positive.push(
+      typicalPrice > previousTypical ? flow : 0
+    );
+    const negative = this.negative.push(
+      typicalPrice < previousTypical ? flow : 0
+    );
+    if (positive === null || negative === null) {
+      return { mfi: null };
+    }
+
+    if (negative === 0) return { mfi: positive === 0 ? 50 : 100 };
+    return { mfi: 100 - 100 / (1 + positive / negative) };
+  }
+}
+
+// MFI calculation and forecasting
+export async function calculateMFI(
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[],
+  forecastDays: number,
+  params: MFIParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period + 1) {
+    throw new Error(`MFI requires at least ${period + 1} data points`);
+  }
+
+  debug.log(
+    `Calculating MFI with ${closes.length} data points for ${forecastDays} day forecast`
+  );
+
+  const { mfi: mfiValues } =
+    lines ?? streamLines(new MFIStream(params), closes, highs, lows, volumes);
+
+  // Get current values
+  const currentPrice = closes[closes.length - 1];
+  const currentMFI = mfiValues[mfiValues.length - 1];
+  const mfiTrend = averageChange(mfiValues.slice(-5));
+
+  // Determine signals
+  const overbought = currentMFI > 80;
+  const oversold = currentMFI < 20;
+
+  const forecast: ForecastStep[] = [];
+
+  for (let day = 1; day <= forecastDays; day++) {
+    // Calculate price prediction based on MFI signals
+    let priceMultiplier = 1;
+
+    if (overbought) {
+      // Heavy buying volume - expect a pullback
+      priceMultiplier = 0.99 - ((currentMFI - 80) / 100) * 0.05;
+    } else if (oversold) {
+      // Heavy selling volume - expect a bounce
+      priceMultiplier = 1.01 + ((20 - currentMFI) / 100) * 0.05;
+    } else {
+      // Follow the money flow
+      priceMultiplier =
+        1 + ((currentMFI - 50) / 100) * 0.02 + mfiTrend * 0.001;
+    }
+
+    // Apply time decay
+    const timeDecay = Math.exp(-day / 10);
+    priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
+
+    const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 5);
+    const volatility = returnsVolatility(closes.slice(-20));
+    const confidence = calculateMFIConfidence(currentMFI, day);
+
+    forecast.push({
+      day,
+      high: predictedPrice * (1 + volatility * 0.6),
+      low: predictedPrice * (1 - volatility * 0.6),
+      avg: predictedPrice,
+      confidence,
+      indicator: "MFI",
+    });
+  }
+
+  debug.success(`MFI forecast generated: ${forecast.length} points`);
+  return {
+    steps: forecast,
+    series: {
+      mfi: alignSeries(mfiValues, closes.length),
+    },
+  };
+}
+
+// Calculate MFI confidence
+function calculateMFIConfidence(mfi: number, day: number): number {
+  let confidence = 0.72;
+
+  // Higher confidence at extremes
+  if (mfi > 80 || mfi < 20) {
+    confidence = 0.85;
+  }
+
+  // Reduce confidence with time
+  confidence *= Math.exp(-day / 12);
+
+  return Math.max(Math.min(confidence, 0.9), 0.3);
+}
@@ -1,13 +1,133 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { BarVolume, returnsVolatility } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface ParabolicSARParams {
+  acceleration: number; // Initial acceleration factor and its step
+  maxAcceleration: number;
+}
+
+const DEFAULT_PARAMS: ParabolicSARParams = { acceleration: 0.02, maxAcceleration: 0.2 };
+
+export const parabolicSarIndicator: IndicatorDefinition<ParabolicSARParams> = {
+  id: "PARABOLIC_SAR",
+  name: "Parabolic SAR",
+  weight: 0.08,
+  confidence: 0.75, // Good for trend reversal
+  params: DEFAULT_PARAMS,
+  orderedParams: [["acceleration", "maxAcceleration"]],
+  minBars: () => 10,
+  priceScale: true,
+  requiresOhlc: true,
+  calculate: calculateParabolicSAR,
+  stream: (params) => new ParabolicSARStream(params),
+};
+
+// SAR and trend direction (1 up, -1 down) bar by bar, starting on the second
+// bar
+export class ParabolicSARStream implements IndicatorStream {
+  private highs: number[] = []; // Last three bars, oldest first
+  private lows: number[] = [];
+  private bars = 0;
+  private isUptrend = true;
+  private sar = 0;
+  private ep = 0;
+  private af: number;
+
+  constructor(private readonly params: ParabolicSARParams) {
+    this.af = params.acceleration;
+  }
+
+  push({ high, low }: BarVolume): LineValues {
+    const { acceleration, maxAcceleration } = this.params;
+    this.highs = [...this.highs, high].slice(-3);
+    this.lows = [...this.lows, low].slice(-3);
+    this.bars++;
+
+    if (this.bars === 1) {
+      return { sar: null, direction: null };
+    }
+
+    if (this.bars === 2) {
+      // Initialize SAR calculation
+      const [firstHigh, secondHigh] = this.highs;
+      const [firstLow, secondLow] = this.lows;
+      this.isUptrend = secondHigh > firstHigh;
+      this.sar = this.isUptrend
+        ? Math.min(firstLow, secondLow)
+        : Math.max(firstHigh, secondHigh);
+      this.ep = this.isUptrend
+        ? Math.max(firstHigh, secondHigh)
+        : Math.min(firstLow, secondLow);
+    } else {
+      const prevSar = this.sar;
+      const [highBefore, previousHigh] = this.highs;
+      const [lowBefore, previousLow] = this.lows;
+
+      // Calculate new SAR
+      this.sar = prevSar + this.af * (this.ep - prevSar);
+
+      if (this.isUptrend) {
+        // Uptrend rules
+        if (low <= this.sar) {
+          // Trend reversal
+          this.isUptrend = false;
+          this.sar = this.ep;
+          this.ep = low;
+          this.af = acceleration;
+        } else {
+          // Continue uptrend
+          if (high > this.ep) {
+            this.ep = high;
+            this.af = Math.min(this.af + acceleration, maxAcceleration);
+          }
+          this.sar = Math.min(this.sar, previousLow, lowBefore || previousLow);
+        }
+      } else {
+        // Downtrend rules
+        if (high >= this.sar) {
+          // Trend reversal
+          this.isUptrend = true;
+          this.sar = this.ep;
+          this.ep = high;
+          this.af = acceleration;
+        } else {
+          // Continue downtrend
+          if (low < this.ep) {
+            this.ep = low;
+            this.af = Math.min(this.af + acceleration, maxAcceleration);
+          }
+          this.sar = Math.max(
+            this.sar,
+            previousHigh,
+            highBefore || previousHigh
+          );
+        }
+      }
+    }
+
+    return { sar: this.sar, direction: this.isUptrend ? 1 : -1 };
+  }
+}
 
 export async function calculateParabolicSAR(
   closes: number[],
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
+  forecastDays: number,
+  params: ParabolicSARParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
   if (closes.length < 10) {
     throw new Error("Parabolic SAR requires at least 10 data points");
   }
@@ -16,64 +136,10 @@ export async function calculateParabolicSAR(
     `Calculating Parabolic SAR with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  const acceleration = 0.02;
-  const maxAcceleration = 0.2;
-
-  // Initialize SAR calculation
-  let isUptrend = highs[1] > highs[0];
-  let sar = isUptrend
-    ? Math.min(...lows.slice(0, 2))
-    : Math.max(...highs.slice(0, 2));
-  let ep = isUptrend
-    ? Math.max(...highs.slice(0, 2))
-    : Math.min(...lows.slice(0, 2));
-  let af = acceleration;
-
-  const sarValues: number[] = [sar];
-
   // Calculate SAR for historical data
-  for (let i = 2; i < closes.length; i++) {
-    const prevSar = sar;
-
-    // Calculate new SAR
-    sar = prevSar + af * (ep - prevSar);
-
-    if (isUptrend) {
-      // Uptrend rules
-      if (lows[i] <= sar) {
-        // Trend reversal
-        isUptrend = false;
-        sar = ep;
-        ep = lows[i];
-        af = acceleration;
-      } else {
-        // Continue uptrend
-        if (highs[i] > ep) {
-          ep = highs[i];
-          af = Math.min(af + acceleration, maxAcceleration);
-        }
-        sar = Math.min(sar, lows[i - 1], lows[i - 2] || lows[i - 1]);
-      }
-    } else {
-      // Downtrend rules
-      if (highs[i] >= sar) {
-        // Trend reversal
-        isUptrend = true;
-        sar = ep;
-        ep = highs[i];
-        af = acceleration;
-      } else {
-        // Continue downtrend
-        if (lows[i] < ep) {
-          ep = lows[i];
-          af = Math.min(af + acceleration, maxAcceleration);
-        }
-        sar = Math.max(sar, highs[i - 1], highs[i - 2] || highs[i - 1]);
-      }
-    }
-
-    sarValues.push(sar);
-  }
+  const { sar: sarValues, direction: directions } =
+    lines ??
+    streamLines(new ParabolicSARStream(params), closes, highs, lows, volumes);
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -83,7 +149,7 @@ export async function calculateParabolicSAR(
   const bullish = currentPrice > currentSAR;
   const distance = Math.abs(currentPrice - currentSAR) / currentPrice;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project SAR continuation
@@ -102,7 +168,7 @@ export async function calculateParabolicSAR(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 4);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateSARConfidence(distance, day, bullish);
 
     forecast.push({
@@ -116,23 +182,16 @@ export async function calculateParabolicSAR(
   }
 
   debug.success(`Parabolic SAR forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      sar: alignSeries(sarValues, closes.length),
+    },
+    trend: {
+      line: "sar",
+      directions: alignSeries(directions, closes.length),
+    },
+  };
 }
 
 function calculateSARConfidence(
@@ -0,0 +1,193 @@
+import fs from "fs";
+import {
+  getIndicator,
+  getIndicatorIds,
+  hasIndicator,
+  normalizeIndicatorId,
+} from "./registry";
+
+// Parameters of one indicator by name (each indicator module declares its
+// own parameter interface and defaults)
+export type IndicatorParamValues = Record<string, number>;
+
+// Parameters of every registered indicator by id
+export type IndicatorParams = Record<string, IndicatorParamValues>;
+
+// Partial parameters, as given on the command line or in a config file
+export type IndicatorParamOverrides = Record<string, IndicatorParamValues>;
+
+// Registered default parameters of every indicator
+export function getDefaultIndicatorParams(): IndicatorParams {
+  return Object.fromEntries(
+    getIndicatorIds().map((id) => [id, { ...getIndicator(id).params }])
+  );
+}
+
+// Parameters counted in bars must be whole numbers
+const isBarCount = (param: string) => /period$/i.test(param);
+
+// "rsi", "Parabolic-SAR" -> "RSI", "PARABOLIC_SAR"
+function findIndicator(name: string): string {
+  if (!hasIndicator(name)) {
+    throw new Error(
+      `Unknown indicator "${name}" in parameters. Available: ${getIndicatorIds().join(
+        ", "
+      )}`
+    );
+  }
+  return normalizeIndicatorId(name);
+}
+
+// Parameter names are matched case-insensitively ("kperiod" -> "kPeriod")
+function findParam(indicator: string, name: string): string {
+  const params = Object.keys(getIndicator(indicator).params);
+  const param = params.find(
+    (known) => known.toLowerCase() === name.trim().toLowerCase()
+  );
+  if (!param) {
+    throw new Error(
+      `Unknown ${indicator} parameter "${name}". Available: ${params.join(
+        ", "
+      )}`
+    );
+  }
+  return param;
+}
+
+// Relations between parameters of one indicator, as declared by it
+function checkRelations(params: IndicatorParams): void {
+  Object.entries(params).forEach(([indicator, values]) => {
+    (getIndicator(indicator).orderedParams || []).forEach(([lower, upper]) => {
+      if (values[lower] > values[upper]) {
+        throw new Error(
+          `${indicator} ${lower} (${values[lower]}) must not exceed ${upper} (${values[upper]})`
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Apply overrides to the default parameters and validate the result
+ * @param overrides - Partial parameters per indicator
+ * @returns Complete parameters for every indicator
+ */
+export function resolveIndicatorParams(
+  overrides: IndicatorParamOverrides = {}
+): IndicatorParams {
+  const resolved = getDefaultIndicatorParams();
+
+  Object.entries(overrides).forEach(([name, values]) => {
+    const indicator = findIndicator(name);
+    const target = resolved[indicator];
+
+    Object.entries(values || {}).forEach(([paramName, value]) => {
+      const param = findParam(indicator, paramName);
+      const number = Number(value);
+      if (!isFinite(number) || number <= 0) {
+        throw new Error(
+          `${indicator} ${param} must be a positive number. Got: ${value}`
+        );
+      }
+      if (isBarCount(param) && !Number.isInteger(number)) {
+        throw new Error(
+          `${indicator} ${param} is a number of bars and must be a whole number. Got: ${value}`
+        );
+      }
+      target[param] = number;
+    });
+  });
+
+  checkRelations(resolved);
+  return resolved;
+}
+
+// Parse "rsi.period=21,bollinger.multiplier=2.5"
+export function parseIndicatorParams(spec: string): IndicatorParamOverrides {
+  const overrides: Record<string, Record<string, number>> = {};
+
+  spec
+    .split(",")
+    .filter((pair) => pair.trim() !== "")
+    .forEach((pair) => {
+      const match = pair.match(/^\s*([\w-]+)\.(\w+)\s*=\s*([^\s]+)\s*$/);
+      if (!match) {
+        throw new Error(
+          `Invalid indicator parameter "${pair}". Use indicator.parameter=value, e.g. rsi.period=21`
+        );
+      }
+
+      const indicator = findIndicator(match[1]);
+      overrides[indicator] = {
+        ...overrides[indicator],
+        [findParam(indicator, match[2])]: Number(match[3]),
+      };
+    });
+
+  return overrides;
+}
+
+// Read overrides from a JSON file shaped like the default parameters,
+// e.g. { "RSI": { "period": 21 }, "BOLLINGER": { "multiplier": 2.5 } }
+export function loadIndicatorParamsFile(
+  filePath: string
+): IndicatorParamOverrides {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Indicator config file not found: ${filePath}`);
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in indicator config ${filePath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (!content || typeof content !== "object" || Array.isArray(content)) {
+    throw new Error(
+      `Indicator config ${filePath} must map indicator names to parameters`
+    );
+  }
+  return content as IndicatorParamOverrides;
+}
+
+// Combine override sets; later sets win per parameter
+export function mergeIndicatorParamOverrides(
+  ...sets: IndicatorParamOverrides[]
+): IndicatorParamOverrides {
+  const merged: Record<string, Record<string, number>> = {};
+  sets.forEach((set) =>
+    Object.entries(set).forEach(([name, values]) => {
+      const indicator = findIndicator(name);
+      merged[indicator] = { ...merged[indicator], ...values };
+    })
+  );
+  return merged;
+}
+
+// "period=20, multiplier=2.5"
+export function describeParams(params: object): string {
+  return Object.entries(params)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(", ");
+}
+
+// Indicators whose parameters differ from the defaults, e.g.
+// ["RSI period=21", "BOLLINGER multiplier=2.5"]
+export function describeCustomParams(params: IndicatorParams): string[] {
+  return getIndicatorIds()
+    .map((indicator) => {
+      const defaults = getIndicator(indicator).params;
+      const changed = Object.entries(params[indicator] || {}).filter(
+        ([name, value]) => defaults[name] !== value
+      );
+      return changed.length > 0
+        ? `${indicator} ${describeParams(Object.fromEntries(changed))}`
+        : "";
+    })
+    .filter((description) => description !== "");
+}
@@ -0,0 +1,85 @@
+import fs from "fs";
+import path from "path";
+import { debug } from "../index";
+import { RegisteredIndicator, registerIndicator } from "./registry";
+
+// Directories already loaded (a second load would re-register every id)
+const loadedPluginDirs = new Set<string>();
+
+// A plugin module exports one definition or an array of them, directly or
+// as `default`, `indicator` or `indicators`
+function pluginDefinitions(exported: any): RegisteredIndicator[] {
+  const value =
+    exported?.default ?? exported?.indicators ?? exported?.indicator ?? exported;
+  return (Array.isArray(value) ? value : [value]).filter(
+    (definition) => definition && typeof definition === "object"
+  );
+}
+
+/**
+ * Register the indicators of every plugin module in a directory. Compiled
+ * runs load .js files; runs through ts-node also load .ts files. Plugins run
+ * as code, so only a directory the user named is ever loaded
+ * @param dir - Plugin directory (from --plugins)
+ * @returns Ids of the registered indicators
+ */
+export function loadIndicatorPlugins(dir: string): string[] {
+  const pluginDir = path.resolve(dir);
+
+  if (loadedPluginDirs.has(pluginDir)) {
+    return [];
+  }
+
+  if (!fs.existsSync(pluginDir)) {
+    throw new Error(`Indicator plugin directory not found: ${dir}`);
+  }
+
+  const extensions = require.extensions[".ts"] ? [".js", ".ts"] : [".js"];
+  const files = fs
+    .readdirSync(pluginDir)
+    .filter(
+      (file) =>
+        extensions.includes(path.extname(file)) && !file.endsWith(".d.ts")
+    )
+    .sort();
+
+  const ids: string[] = [];
+  files.forEach((file) => {
+    const filePath = path.join(pluginDir, file);
+
+    let exported: unknown;
+    try {
+      exported = require(filePath);
+    } catch (error) {
+      throw new Error(
+        `Failed to load indicator plugin ${file}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    const definitions = pluginDefinitions(exported);
+    if (definitions.length === 0) {
+      throw new Error(`Indicator plugin ${file} exports no indicators`);
+    }
+
+    definitions.forEach((definition) => {
+      try {
+        registerIndicator(definition);
+      } catch (error) {
+        throw new Error(
+          `Indicator plugin ${file}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      ids.push(definition.id);
+    });
+  });
+
+  loadedPluginDirs.add(pluginDir);
+  if (ids.length > 0) {
+    debug.success(`Loaded indicator plugins from ${dir}: ${ids.join(", ")}`);
+  }
+  return ids;
+}
@@ -0,0 +1,189 @@
+import { IndicatorCalculator, IndicatorStream } from "./index";
+import { IndicatorParamValues } from "./params";
+import { rsiIndicator } from "./rsi";
+import { emaIndicator } from "./ema";
+import { macdIndicator } from "./macd";
+import { smaIndicator } from "./sma";
+import { bollingerIndicator } from "./bollinger";
+import { stochasticIndicator } from "./stochastic";
+import { vwapIndicator } from "./vwap";
+import { adxIndicator } from "./adx";
+import { parabolicSarIndicator } from "./parabolicSar";
+import { ichimokuIndicator } from "./ichimoku";
+import { atrIndicator } from "./atr";
+import { keltnerIndicator } from "./keltner";
+import { donchianIndicator } from "./donchian";
+import { obvIndicator } from "./obv";
+import { mfiIndicator } from "./mfi";
+import { cmfIndicator } from "./cmf";
+import { adIndicator } from "./accumulationDistribution";
+import { supertrendIndicator } from "./supertrend";
+import { chandelierIndicator } from "./chandelier";
+
+// Everything the pipeline needs to know about an indicator. Each built-in
+// module exports one, and plugins export their own
+export interface IndicatorDefinition<P extends object = IndicatorParamValues> {
+  id: string; // Key of results, parameters and --indicators, e.g. "RSI"
+  name: string; // Display name
+  weight: number; // Weight in the combined forecast
+  confidence: number; // Confidence multiplier of its forecasts (0-1)
+  params: P; // Default parameters; names ending in "period" count bars
+  orderedParams?: [keyof P & string, keyof P & string][]; // Pairs where the
+  // first must not exceed the second, e.g. shortPeriod and longPeriod
+  minBars: (params: P) => number; // Bars needed with these parameters
+  priceScale?: boolean; // Lines are prices (charted with the closes)
+  requiresOhlc?: boolean; // Reads open/high/low, which synthetic bars only
+  // approximate
+  calculate: IndicatorCalculator<P>;
+  stream?: (params: P) => IndicatorStream; // Lines bar by bar, so live
+  // updates of the forming bar only push that bar (calculate accepts them)
+}
+
+// A definition as the registry holds it, with its parameter type erased so
+// indicators of different parameters share one map. Runs pass a calculator
+// its own defaults merged with overrides checked against their names, so the
+// values always have the keys of its parameter type
+export type RegisteredIndicator = IndicatorDefinition<IndicatorParamValues>;
+
+// Check a definition against its own parameter type, then erase that type
+// for the registry
+export function defineIndicator<P extends object>(
+  definition: IndicatorDefinition<P>
+): RegisteredIndicator {
+  return definition as unknown as RegisteredIndicator;
+}
+
+// Built-in indicators, in the order they are calculated and shown
+const BUILT_IN_INDICATORS: RegisteredIndicator[] = [
+  defineIndicator(rsiIndicator),
+  defineIndicator(emaIndicator),
+  defineIndicator(macdIndicator),
+  defineIndicator(smaIndicator),
+  defineIndicator(bollingerIndicator),
+  defineIndicator(stochasticIndicator),
+  defineIndicator(vwapIndicator),
+  defineIndicator(adxIndicator),
+  defineIndicator(parabolicSarIndicator),
+  defineIndicator(ichimokuIndicator),
+  defineIndicator(atrIndicator),
+  defineIndicator(keltnerIndicator),
+  defineIndicator(donchianIndicator),
+  defineIndicator(obvIndicator),
+  defineIndicator(mfiIndicator),
+  defineIndicator(cmfIndicator),
+  defineIndicator(adIndicator),
+  defineIndicator(supertrendIndicator),
+  defineIndicator(chandelierIndicator),
+];
+
+// Indicator registry with memoization (equivalent to useMemo)
+const indicatorRegistry = new Map<string, RegisteredIndicator>();
+
+// "rsi", "Parabolic-SAR" -> "RSI", "PARABOLIC_SAR"
+export function normalizeIndicatorId(id: string): string {
+  return id.trim().toUpperCase().replace(/[-\s]/g, "_");
+}
+
+// Reject definitions that would break the pipeline later (plugins are
+// plain JavaScript, so nothing checked their shape before)
+function checkDefinition(definition: RegisteredIndicator): void {
+  const { id, name, weight, confidence, params } = definition || {};
+  const problem =
+    typeof id !== "string" || !/^[A-Z][A-Z0-9_]*$/.test(id)
+      ? "id must be upper-case letters, digits and underscores"
+      : typeof name !== "string" || name.trim() === ""
+      ? "name is required"
+      : !(isFinite(weight) && weight >= 0)
+      ? "weight must be a non-negative number"
+      : !(confidence > 0 && confidence <= 1)
+      ? "confidence must be between 0 and 1"
+      : !params ||
+        typeof params !== "object" ||
+        Object.values(params).some(
+          (value) => typeof value !== "number" || !isFinite(value)
+        )
+      ? "params must map parameter names to numbers"
+      : typeof definition.minBars !== "function"
+      ? "minBars must be a function of the parameters"
+      : typeof definition.calculate !== "function"
+      ? "calculate must be a function"
+      : definition.stream !== undefined &&
+        typeof definition.stream !== "function"
+      ? "stream must be a function of the parameters"
+      : undefined;
+
+  if (problem) {
+    throw new Error(`Invalid indicator ${id ?? "(no id)"}: ${problem}`);
+  }
+}
+
+// Initialize indicators (equivalent to useCallback)
+export const initializeIndicators = (() => {
+  let initialized = false;
+
+  return (): Map<string, RegisteredIndicator> => {
+    if (initialized) {
+      return indicatorRegistry;
+    }
+
+    BUILT_IN_INDICATORS.forEach((definition) =>
+      indicatorRegistry.set(definition.id, definition)
+    );
+
+    initialized = true;
+    return indicatorRegistry;
+  };
+})();
+
+// Register an additional indicator (ids must be unique)
+export const registerIndicator = <P extends object>(
+  definition: IndicatorDefinition<P>
+): void => {
+  const registry = initializeIndicators();
+  const registered = defineIndicator(definition);
+  checkDefinition(registered);
+
+  if (registry.has(registered.id)) {
+    throw new Error(`Indicator ${registered.id} is already registered`);
+  }
+  registry.set(registered.id, registered);
+};
+
+export const hasIndicator = (id: string): boolean =>
+  initializeIndicators().has(normalizeIndicatorId(id));
+
+// Get indicator by id
+export const getIndicator = (id: string): RegisteredIndicator => {
+  const definition = initializeIndicators().get(normalizeIndicatorId(id));
+
+  if (!definition) {
+    throw new Error(
+      `Unknown indicator: ${id}. Available indicators: ${getIndicatorIds().join(
+        ", "
+      )}`
+    );
+  }
+
+  return definition;
+};
+
+// Get indicator ids (built-ins first, then plugins in load order)
+export const getIndicatorIds = (): string[] =>
+  Array.from(initializeIndicators().keys());
+
+// Parse "--indicators rsi,MACD,bollinger" into registered ids
+export function parseIndicatorSelection(spec: string): string[] {
+  const ids = spec
+    .split(",")
+    .filter((id) => id.trim() !== "")
+    .map((id) => getIndicator(id).id);
+
+  if (ids.length === 0) {
+    throw new Error(
+      `Select at least one indicator. Available: ${getIndicatorIds().join(
+        ", "
+      )}`
+    );
+  }
+  return Array.from(new Set(ids));
+}
@@ -1,5 +1,68 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import {
+  WilderSmoothing,
+  BarVolume,
+  averageChange,
+  returnsVolatility,
+} from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface RSIParams {
+  period: number;
+}
+
+const DEFAULT_PARAMS: RSIParams = { period: 14 };
+
+export const rsiIndicator: IndicatorDefinition<RSIParams> = {
+  id: "RSI",
+  name: "Relative Strength Index",
+  weight: 0.12,
+  confidence: 0.75, // Good for overbought/oversold
+  params: DEFAULT_PARAMS,
+  minBars: ({ period }) => period + 1,
+  calculate: calculateRSI,
+  stream: (params) => new RSIStream(params),
+};
+
+// RSI bar by bar from Wilder-smoothed average gains and losses of the
+// bar-to-bar changes
+export class RSIStream implements IndicatorStream {
+  private readonly gains: WilderSmoothing;
+  private readonly losses: WilderSmoothing;
+  private previousClose: number | null = null;
+
+  constructor({ period }: RSIParams) {
+    this.gains = new WilderSmoothing(period);
+    this.losses = new WilderSmoothing(period);
+  }
+
+  push({ close }: BarVolume): LineValues {
+    const previousClose = this.previousClose;
+    this.previousClose = close;
+    if (previousClose === null) {
+      return { rsi: null };
+    }
+
+    const change = close - previousClose;
+    const avgGain = this.gains.push(Math.max(change, 0));
+    const avgLoss = this.losses.push(Math.max(-change, 0));
+    if (avgGain === null || avgLoss === null) {
+      return { rsi: null };
+    }
+
+    const rs = avgGain / (avgLoss || 0.0001); // Avoid division by zero
+    return { rsi: 100 - 100 / (1 + rs) };
+  }
+}
 
 // RSI calculation and forecasting
 export async function calculateRSI(
@@ -7,10 +70,13 @@ export async function calculateRSI(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 14) {
-    throw new Error("RSI requires at least 14 data points");
+  forecastDays: number,
+  params: RSIParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { period } = params;
+  if (closes.length < period + 1) {
+    throw new Error(`RSI requires at least ${period + 1} data points`);
   }
 
   debug.log(
@@ -18,39 +84,8 @@ export async function calculateRSI(
   );
 
   // Calculate RSI values for historical data
-  const period = 14;
-  const rsiValues: number[] = [];
-
-  // Calculate initial average gains and losses
-  let avgGain = 0;
-  let avgLoss = 0;
-
-  for (let i = 1; i <= period; i++) {
-    const change = closes[i] - closes[i - 1];
-    if (change > 0) {
-      avgGain += change;
-    } else {
-      avgLoss += Math.abs(change);
-    }
-  }
-
-  avgGain /= period;
-  avgLoss /= period;
-
-  // Calculate RSI for the rest of the data
-  for (let i = period; i < closes.length; i++) {
-    const change = closes[i] - closes[i - 1];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? Math.abs(change) : 0;
-
-    // Exponential moving average
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
-
-    const rs = avgGain / (avgLoss || 0.0001); // Avoid division by zero
-    const rsi = 100 - 100 / (1 + rs);
-    rsiValues.push(rsi);
-  }
+  const { rsi: rsiValues } =
+    lines ?? streamLines(new RSIStream(params), closes, highs, lows, volumes);
 
   // Get recent RSI trend
   const recentRSI = rsiValues.slice(-10); // Last 10 RSI values
@@ -58,10 +93,10 @@ export async function calculateRSI(
   const currentPrice = closes[closes.length - 1];
 
   // Calculate RSI trend
-  const rsiTrend = calculateTrend(recentRSI);
+  const rsiTrend = averageChange(recentRSI);
 
   // Generate forecast based on RSI signals
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Predict future RSI
@@ -88,7 +123,7 @@ export async function calculateRSI(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateRSIConfidence(futureRSI, day);
 
     forecast.push({
@@ -102,36 +137,12 @@ export async function calculateRSI(
   }
 
   debug.success(`RSI forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate trend in RSI values
-function calculateTrend(rsiValues: number[]): number {
-  if (rsiValues.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < rsiValues.length; i++) {
-    trend += rsiValues[i] - rsiValues[i - 1];
-  }
-
-  return trend / (rsiValues.length - 1);
-}
-
-// Calculate price volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02; // Default 2% volatility
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      rsi: alignSeries(rsiValues, closes.length),
+    },
+  };
 }
 
 // Calculate confidence based on RSI values
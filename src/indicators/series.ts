@@ -0,0 +1,102 @@
+import {
+  IndicatorResult,
+  IndicatorSeries,
+  TrendDirections,
+  TrendFlip,
+  TrendState,
+} from "./index";
+
+/**
+ * Align calculated values to the input bars. Calculators produce values from
+ * the end of the warm-up to the last bar, so they are padded at the front
+ * @param values - Indicator values, the last one belonging to the last bar
+ * @param length - Number of input bars
+ * @returns One entry per bar, null where the indicator has no value yet
+ */
+export function alignSeries(
+  values: number[],
+  length: number
+): (number | null)[] {
+  const recent = values.slice(-length);
+  return [
+    ...new Array<null>(length - recent.length).fill(null),
+    ...recent.map((value) => (isFinite(value) ? value : null)),
+  ];
+}
+
+// Series of one indicator from a set of results
+export function getIndicatorSeries(
+  indicators: IndicatorResult[],
+  name: string
+): IndicatorSeries | null {
+  const indicator = indicators.find((result) => result.name === name);
+  return indicator && indicator.series.dates.length > 0
+    ? indicator.series
+    : null;
+}
+
+// Values of one line after its warm-up, oldest first (empty when the
+// indicator or line is missing)
+export function getSeriesLine(
+  indicators: IndicatorResult[],
+  name: string,
+  line: string
+): number[] {
+  const values = getIndicatorSeries(indicators, name)?.values[line] || [];
+  return values.filter((value): value is number => value !== null);
+}
+
+// Value of a line at the last bar
+export function latestSeriesValue(
+  indicators: IndicatorResult[],
+  name: string,
+  line: string
+): number | null {
+  const values = getIndicatorSeries(indicators, name)?.values[line];
+  return values?.[values.length - 1] ?? null;
+}
+
+// Names of the lines of a series, e.g. ["upper", "middle", "lower"]
+export function seriesLines(series: IndicatorSeries): string[] {
+  return Object.keys(series.values);
+}
+
+/**
+ * Trend of a stop-and-reverse indicator at the last bar, with the bars it
+ * flipped on
+ * @param series - Series of the indicator
+ * @param trend - Direction of each bar and the line holding the stop
+ * @returns Trend state, or undefined when the last bar has no direction
+ */
+export function trendState(
+  series: IndicatorSeries,
+  trend: TrendDirections
+): TrendState | undefined {
+  const stops = series.values[trend.line] || [];
+  const flips: TrendFlip[] = [];
+  let previous: number | null = null;
+
+  trend.directions.forEach((direction, i) => {
+    const stop = stops[i];
+    if (direction === null || stop === null) return;
+    // The first direction is where the indicator started, not a flip
+    if (previous !== null && direction !== previous) {
+      flips.push({
+        date: series.dates[i],
+        timestamp: series.timestamps[i],
+        direction: direction > 0 ? "up" : "down",
+        stop,
+      });
+    }
+    previous = direction;
+  });
+
+  const last = trend.directions.length - 1;
+  const direction = trend.directions[last] ?? null;
+  const stop = stops[last] ?? null;
+  if (direction === null || stop === null) {
+    return undefined;
+  }
+
+  return { direction: direction > 0 ? "up" : "down", stop, flips };
+}
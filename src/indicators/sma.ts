@@ -1,5 +1,53 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { SMA, BarVolume, averageChange, returnsVolatility } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface SMAParams {
+  shortPeriod: number;
+  longPeriod: number;
+}
+
+const DEFAULT_PARAMS: SMAParams = { shortPeriod: 20, longPeriod: 50 };
+
+export const smaIndicator: IndicatorDefinition<SMAParams> = {
+  id: "SMA",
+  name: "Simple Moving Average",
+  weight: 0.1,
+  confidence: 0.85, // Good confidence for trend
+  params: DEFAULT_PARAMS,
+  orderedParams: [["shortPeriod", "longPeriod"]],
+  minBars: ({ shortPeriod }) => shortPeriod,
+  priceScale: true,
+  calculate: calculateSMA,
+  stream: (params) => new SMAStream(params),
+};
+
+// Short and long SMA of the closes bar by bar
+export class SMAStream implements IndicatorStream {
+  private readonly short: SMA;
+  private readonly long: SMA;
+
+  constructor({ shortPeriod, longPeriod }: SMAParams) {
+    this.short = new SMA(shortPeriod);
+    this.long = new SMA(longPeriod);
+  }
+
+  push({ close }: BarVolume): LineValues {
+    return {
+      shortSma: this.short.push(close),
+      longSma: this.long.push(close),
+    };
+  }
+}
 
 // SMA calculation and forecasting
 export async function calculateSMA(
@@ -7,10 +55,13 @@ export async function calculateSMA(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 20) {
-    throw new Error("SMA requires at least 20 data points");
+  forecastDays: number,
+  params: SMAParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { shortPeriod } = params;
+  if (closes.length < shortPeriod) {
+    throw new Error(`SMA requires at least ${shortPeriod} data points`);
   }
 
   debug.log(
@@ -18,11 +69,8 @@ export async function calculateSMA(
   );
 
   // Calculate multiple SMA periods
-  const shortPeriod = 20;
-  const longPeriod = 50;
-
-  const shortSMA = calculateSMAValues(closes, shortPeriod);
-  const longSMA = calculateSMAValues(closes, longPeriod);
+  const { shortSma: shortSMA, longSma: longSMA } =
+    lines ?? streamLines(new SMAStream(params), closes, highs, lows, volumes);
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -30,8 +78,8 @@ export async function calculateSMA(
   const currentLongSMA = longSMA[longSMA.length - 1];
 
   // Calculate trends
-  const shortTrend = calculateTrend(shortSMA.slice(-5));
-  const longTrend = calculateTrend(longSMA.slice(-10));
+  const shortTrend = averageChange(shortSMA.slice(-5));
+  const longTrend = averageChange(longSMA.slice(-10));
 
   // Determine signals
   const bullish =
@@ -40,7 +88,7 @@ export async function calculateSMA(
     currentPrice < currentShortSMA && currentShortSMA < currentLongSMA;
   const priceAboveSMA = currentPrice > currentShortSMA;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future SMA values
@@ -69,7 +117,7 @@ export async function calculateSMA(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 4);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateSMAConfidence(bullish, bearish, day);
 
     forecast.push({
@@ -83,50 +131,13 @@ export async function calculateSMA(
   }
 
   debug.success(`SMA forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate SMA values
-function calculateSMAValues(prices: number[], period: number): number[] {
-  const smaValues: number[] = [];
-
-  for (let i = period - 1; i < prices.length; i++) {
-    const sum = prices
-      .slice(i - period + 1, i + 1)
-      .reduce((acc, price) => acc + price, 0);
-    smaValues.push(sum / period);
-  }
-
-  return smaValues;
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-// Calculate volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      shortSma: alignSeries(shortSMA, closes.length),
+      longSma: alignSeries(longSMA, closes.length),
+    },
+  };
 }
 
 // Calculate SMA confidence
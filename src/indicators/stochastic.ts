@@ -1,5 +1,66 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import {
+  SMA,
+  RollingMax,
+  RollingMin,
+  BarVolume,
+  averageChange,
+  returnsVolatility,
+} from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface StochasticParams {
+  kPeriod: number;
+  dPeriod: number; // Smoothing of %K into %D
+}
+
+const DEFAULT_PARAMS: StochasticParams = { kPeriod: 14, dPeriod: 3 };
+
+export const stochasticIndicator: IndicatorDefinition<StochasticParams> = {
+  id: "STOCHASTIC",
+  name: "Stochastic Oscillator",
+  weight: 0.09,
+  confidence: 0.7, // Moderate for momentum
+  params: DEFAULT_PARAMS,
+  minBars: ({ kPeriod }) => kPeriod,
+  requiresOhlc: true,
+  calculate: calculateStochastic,
+  stream: (params) => new StochasticStream(params),
+};
+
+// %K (close within the range of the last kPeriod bars) and %D (SMA of %K),
+// bar by bar
+export class StochasticStream implements IndicatorStream {
+  private readonly highest: RollingMax;
+  private readonly lowest: RollingMin;
+  private readonly average: SMA;
+
+  constructor({ kPeriod, dPeriod }: StochasticParams) {
+    this.highest = new RollingMax(kPeriod);
+    this.lowest = new RollingMin(kPeriod);
+    this.average = new SMA(dPeriod);
+  }
+
+  push({ high, low, close }: BarVolume): LineValues {
+    const highestHigh = this.highest.push(high);
+    const lowestLow = this.lowest.push(low);
+    if (highestHigh === null || lowestLow === null) {
+      return { k: null, d: null };
+    }
+
+    const k = ((close - lowestLow) / (highestHigh - lowestLow)) * 100;
+    return { k, d: this.average.push(k) };
+  }
+}
 
 // Stochastic Oscillator calculation and forecasting
 export async function calculateStochastic(
@@ -7,36 +68,23 @@ export async function calculateStochastic(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 14) {
-    throw new Error("Stochastic requires at least 14 data points");
+  forecastDays: number,
+  params: StochasticParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { kPeriod } = params;
+  if (closes.length < kPeriod) {
+    throw new Error(`Stochastic requires at least ${kPeriod} data points`);
   }
 
   debug.log(
     `Calculating Stochastic with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  const kPeriod = 14;
-  const dPeriod = 3;
-
-  // Calculate %K values
-  const kValues: number[] = [];
-  for (let i = kPeriod - 1; i < closes.length; i++) {
-    const highestHigh = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
-    const lowestLow = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
-    const k = ((closes[i] - lowestLow) / (highestHigh - lowestLow)) * 100;
-    kValues.push(k);
-  }
-
-  // Calculate %D values (SMA of %K)
-  const dValues: number[] = [];
-  for (let i = dPeriod - 1; i < kValues.length; i++) {
-    const sum = kValues
-      .slice(i - dPeriod + 1, i + 1)
-      .reduce((acc, val) => acc + val, 0);
-    dValues.push(sum / dPeriod);
-  }
+  // Calculate %K and %D values
+  const { k: kValues, d: dValues } =
+    lines ??
+    streamLines(new StochasticStream(params), closes, highs, lows, volumes);
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -44,8 +92,8 @@ export async function calculateStochastic(
   const currentD = dValues[dValues.length - 1];
 
   // Calculate trends
-  const kTrend = calculateTrend(kValues.slice(-3));
-  const dTrend = calculateTrend(dValues.slice(-3));
+  const kTrend = averageChange(kValues.slice(-3));
+  const dTrend = averageChange(dValues.slice(-3));
 
   // Determine signals
   const overbought = currentK > 80 && currentD > 80;
@@ -53,7 +101,7 @@ export async function calculateStochastic(
   const bullishCrossover = currentK > currentD && kTrend > dTrend;
   const bearishCrossover = currentK < currentD && kTrend < dTrend;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future stochastic values
@@ -90,7 +138,7 @@ export async function calculateStochastic(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 6);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateStochasticConfidence(
       currentK,
       currentD,
@@ -109,36 +157,13 @@ export async function calculateStochastic(
   }
 
   debug.success(`Stochastic forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-// Calculate volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      k: alignSeries(kValues, closes.length),
+      d: alignSeries(dValues, closes.length),
+    },
+  };
 }
 
 // Calculate Stochastic confidence
@@ -0,0 +1,65 @@
+import { IndicatorLines, IndicatorStream, LineValues } from "./index";
+import { volumeBars } from "./core";
+
+/**
+ * Run an indicator stream over every bar
+ * @param stream - Fresh stream of the indicator
+ * @param closes - Closes of all bars, oldest first
+ * @param highs - Highs of all bars
+ * @param lows - Lows of all bars
+ * @param volumes - Volumes of all bars
+ * @returns Each line from the end of its warm-up to the last bar
+ */
+export function streamLines(
+  stream: IndicatorStream,
+  closes: number[],
+  highs: number[],
+  lows: number[],
+  volumes: number[]
+): IndicatorLines {
+  const lines: IndicatorLines = {};
+  volumeBars(highs, lows, closes, volumes).forEach((bar) =>
+    appendLines(lines, stream.push(bar))
+  );
+  return lines;
+}
+
+// Add the values of the next bar to the lines (lines still warming up get
+// no value)
+export function appendLines(lines: IndicatorLines, values: LineValues): void {
+  Object.entries(values).forEach(([name, value]) => {
+    const line = (lines[name] = lines[name] || []);
+    if (value !== null) {
+      line.push(value);
+    }
+  });
+}
+
+// Lines extended by one more bar, leaving the given lines as they are
+export function extendLines(
+  lines: IndicatorLines,
+  values: LineValues
+): IndicatorLines {
+  const extended: IndicatorLines = { ...lines };
+  Object.entries(values).forEach(([name, value]) => {
+    const line = lines[name] || [];
+    extended[name] = value === null ? line : [...line, value];
+  });
+  return extended;
+}
+
+// Deep copy of a stream's state with the same classes, so a bar can be
+// pushed into the copy without changing the original
+export function cloneStream<T>(state: T): T {
+  if (Array.isArray(state)) {
+    return state.map((value) => cloneStream(value)) as unknown as T;
+  }
+  if (state !== null && typeof state === "object") {
+    const copy = Object.create(Object.getPrototypeOf(state));
+    Object.entries(state).forEach(([key, value]) => {
+      copy[key] = cloneStream(value);
+    });
+    return copy;
+  }
+  return state;
+}
@@ -1,5 +1,52 @@
-import { ForecastPoint } from "./index";
+import {
+  ForecastStep,
+  CalculatorOutput,
+  IndicatorLines,
+  IndicatorStream,
+  LineValues,
+} from "./index";
+import { alignSeries } from "./series";
+import { streamLines } from "./stream";
+import { BarVolume, averageChange, returnsVolatility } from "./core";
 import { debug } from "../index";
+import { IndicatorDefinition } from "./registry";
+
+export interface VWAPParams {
+  volumePeriod: number; // Bars averaged to judge the latest volume
+}
+
+const DEFAULT_PARAMS: VWAPParams = { volumePeriod: 20 };
+
+export const vwapIndicator: IndicatorDefinition<VWAPParams> = {
+  id: "VWAP",
+  name: "Volume Weighted Average Price",
+  weight: 0.08,
+  confidence: 0.85, // Good for volume analysis
+  params: DEFAULT_PARAMS,
+  minBars: ({ volumePeriod }) => volumePeriod,
+  priceScale: true,
+  calculate: calculateVWAP,
+  stream: () => new VWAPStream(),
+};
+
+// Cumulative volume weighted typical price bar by bar
+export class VWAPStream implements IndicatorStream {
+  private cumulativePriceVolume = 0;
+  private cumulativeVolume = 0;
+
+  push({ high, low, close, volume }: BarVolume): LineValues {
+    const typicalPrice = (high + low + close) / 3;
+    this.cumulativePriceVolume += typicalPrice * volume;
+    this.cumulativeVolume += volume;
+
+    return {
+      vwap:
+        this.cumulativeVolume > 0
+          ? this.cumulativePriceVolume / this.cumulativeVolume
+          : typicalPrice, // Fallback to typical price
+    };
+  }
+}
 
 // VWAP calculation and forecasting
 export async function calculateVWAP(
@@ -7,35 +54,22 @@ export async function calculateVWAP(
   highs: number[],
   lows: number[],
   volumes: number[],
-  forecastDays: number
-): Promise<ForecastPoint[]> {
-  if (closes.length < 20) {
-    throw new Error("VWAP requires at least 20 data points");
+  forecastDays: number,
+  params: VWAPParams = DEFAULT_PARAMS,
+  lines?: IndicatorLines
+): Promise<CalculatorOutput> {
+  const { volumePeriod } = params;
+  if (closes.length < volumePeriod) {
+    throw new Error(`VWAP requires at least ${volumePeriod} data points`);
   }
 
   debug.log(
     `Calculating VWAP with ${closes.length} data points for ${forecastDays} day forecast`
   );
 
-  // Calculate typical prices and VWAP
-  const typicalPrices = highs.map(
-    (high, i) => (high + lows[i] + closes[i]) / 3
-  );
-  const vwapValues: number[] = [];
-
-  let cumulativePriceVolume = 0;
-  let cumulativeVolume = 0;
-
-  for (let i = 0; i < typicalPrices.length; i++) {
-    cumulativePriceVolume += typicalPrices[i] * volumes[i];
-    cumulativeVolume += volumes[i];
-
-    if (cumulativeVolume > 0) {
-      vwapValues.push(cumulativePriceVolume / cumulativeVolume);
-    } else {
-      vwapValues.push(typicalPrices[i]); // Fallback to typical price
-    }
-  }
+  // Calculate VWAP of the typical prices
+  const { vwap: vwapValues } =
+    lines ?? streamLines(new VWAPStream(), closes, highs, lows, volumes);
 
   // Get current values
   const currentPrice = closes[closes.length - 1];
@@ -43,9 +77,11 @@ export async function calculateVWAP(
   const priceVolumeRatio = currentPrice / currentVWAP;
 
   // Calculate VWAP trend and volume trend
-  const vwapTrend = calculateTrend(vwapValues.slice(-10));
-  const volumeTrend = calculateTrend(volumes.slice(-10));
-  const avgVolume = volumes.slice(-20).reduce((sum, vol) => sum + vol, 0) / 20;
+  const vwapTrend = averageChange(vwapValues.slice(-10));
+  const volumeTrend = averageChange(volumes.slice(-10));
+  const avgVolume =
+    volumes.slice(-volumePeriod).reduce((sum, vol) => sum + vol, 0) /
+    volumePeriod;
   const currentVolumeRatio = volumes[volumes.length - 1] / avgVolume;
 
   // Determine signals
@@ -53,7 +89,7 @@ export async function calculateVWAP(
   const highVolume = currentVolumeRatio > 1.5;
   const lowVolume = currentVolumeRatio < 0.5;
 
-  const forecast: ForecastPoint[] = [];
+  const forecast: ForecastStep[] = [];
 
   for (let day = 1; day <= forecastDays; day++) {
     // Project future VWAP
@@ -84,7 +120,7 @@ export async function calculateVWAP(
     priceMultiplier = 1 + (priceMultiplier - 1) * timeDecay;
 
     const predictedPrice = currentPrice * Math.pow(priceMultiplier, day / 7);
-    const volatility = calculateVolatility(closes.slice(-20));
+    const volatility = returnsVolatility(closes.slice(-20));
     const confidence = calculateVWAPConfidence(
       priceVolumeRatio,
       currentVolumeRatio,
@@ -102,36 +138,12 @@ export async function calculateVWAP(
   }
 
   debug.success(`VWAP forecast generated: ${forecast.length} points`);
-  return forecast;
-}
-
-// Calculate trend
-function calculateTrend(values: number[]): number {
-  if (values.length < 2) return 0;
-
-  let trend = 0;
-  for (let i = 1; i < values.length; i++) {
-    trend += values[i] - values[i - 1];
-  }
-
-  return trend / (values.length - 1);
-}
-
-// Calculate volatility
-function calculateVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0.02;
-
-  const returns = [];
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1]);
-  }
-
-  const mean = returns.reduce((sum, ret) => sum + ret, 0) / returns.length;
-  const variance =
-    returns.reduce((sum, ret) => sum + Math.pow(ret - mean, 2), 0) /
-    returns.length;
-
-  return Math.sqrt(variance);
+  return {
+    steps: forecast,
+    series: {
+      vwap: alignSeries(vwapValues, closes.length),
+    },
+  };
 }
 
 // Calculate VWAP confidence
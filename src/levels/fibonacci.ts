@@ -0,0 +1,56 @@
+import { PricePoint } from "../data/fetchPrices";
+import { FibonacciRetracement, SwingPoint } from "./index";
+
+// Retracement ratios, from the end of the swing (0) back to its start (1)
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+/**
+ * Fibonacci retracement of the last swing: the move between the highest high
+ * and the lowest low of the lookback, retraced from whichever came last
+ * @param bars - Bars sorted oldest to newest
+ * @param lookback - Bars searched for the swing
+ * @returns Retracement, or null when the bars have no range
+ */
+export function calculateFibonacciRetracement(
+  bars: PricePoint[],
+  lookback: number
+): FibonacciRetracement | null {
+  const recent = bars.slice(-lookback);
+  if (recent.length < 2) {
+    return null;
+  }
+
+  // The latest bar wins ties, so the swing ends as late as possible
+  let highBar = recent[0];
+  let lowBar = recent[0];
+  recent.forEach((bar) => {
+    if (bar.high >= highBar.high) highBar = bar;
+    if (bar.low <= lowBar.low) lowBar = bar;
+  });
+
+  const range = highBar.high - lowBar.low;
+  if (range <= 0) {
+    return null;
+  }
+
+  // An up swing retraces down from its high, a down swing up from its low
+  const direction = highBar.timestamp > lowBar.timestamp ? "up" : "down";
+  const swingPoint = (bar: PricePoint, price: number): SwingPoint => ({
+    price,
+    date: bar.date,
+    timestamp: bar.timestamp,
+  });
+
+  return {
+    direction,
+    swingHigh: swingPoint(highBar, highBar.high),
+    swingLow: swingPoint(lowBar, lowBar.low),
+    levels: FIBONACCI_RATIOS.map((ratio) => ({
+      ratio,
+      price:
+        direction === "up"
+          ? highBar.high - ratio * range
+          : lowBar.low + ratio * range,
+    })),
+  };
+}
@@ -0,0 +1,234 @@
+// Levels module - Pivot points, Fibonacci retracements and support/resistance
+// zones from the price history
+import { debug } from "../index";
+import { PricePoint } from "../data/fetchPrices";
+import { Interval, DEFAULT_INTERVAL } from "../data/intervals";
+import { calculatePivotPoints } from "./pivots";
+import { calculateFibonacciRetracement } from "./fibonacci";
+import { calculateZones } from "./zones";
+
+export * from "./pivots";
+export * from "./fibonacci";
+export * from "./zones";
+
+export type PivotMethod = "classic" | "camarilla" | "fibonacci";
+
+// Pivot points of one method
+export interface PivotLevels {
+  method: PivotMethod;
+  pivot: number;
+  resistances: number[]; // R1 first, rising
+  supports: number[]; // S1 first, falling
+}
+
+// Pivots of every method, from the last completed pivot period
+export interface PivotPoints {
+  period: Interval; // Period the pivots come from, e.g. "1w" for daily bars
+  date: string; // Start of that period
+  high: number;
+  low: number;
+  close: number;
+  classic: PivotLevels;
+  camarilla: PivotLevels;
+  fibonacci: PivotLevels;
+}
+
+// Bar a swing high or low was made on
+export interface SwingPoint {
+  price: number;
+  date: string;
+  timestamp: number;
+}
+
+// Fibonacci retracement of the last swing
+export interface FibonacciRetracement {
+  direction: "up" | "down"; // Up when the high came after the low
+  swingHigh: SwingPoint;
+  swingLow: SwingPoint;
+  levels: { ratio: number; price: number }[]; // Retraced from the swing end
+}
+
+// Price band where several swing highs and lows turned
+export interface SupportResistanceZone {
+  low: number;
+  high: number;
+  price: number; // Mean of the swing prices in the zone
+  touches: number; // Swing highs and lows in the zone
+  lastTouch: string; // Date of the latest of them
+  kind: "support" | "resistance"; // Below or above the last close
+}
+
+// Everything the levels subsystem finds in a price history
+export interface PriceLevels {
+  close: number; // Last close
+  previousClose: number; // Close before it, to tell which levels were crossed
+  pivots: PivotPoints | null; // Null without a completed pivot period
+  retracement: FibonacciRetracement | null; // Null when the range is flat
+  zones: SupportResistanceZone[]; // Highest first
+  nearestSupport: SupportResistanceZone | null;
+  nearestResistance: SupportResistanceZone | null;
+}
+
+// Horizontal line of a chart or export row
+export interface PriceLevel {
+  price: number;
+  label: string; // e.g. "Classic R1", "Fib 61.8%", "Resistance zone"
+  source: "pivot" | "fibonacci" | "zone";
+  zone?: SupportResistanceZone; // Zone lines only
+}
+
+// Level options
+export interface LevelOptions {
+  lookback: number; // Bars searched for swings and zones
+  swingStrength: number; // Bars on each side a swing high/low must exceed
+  zoneTolerance: number; // Widest zone, in ATRs
+  minTouches: number; // Swings needed to make a zone
+  maxZones: number; // Zones kept (most touched first)
+}
+
+export const DEFAULT_LEVEL_OPTIONS: LevelOptions = {
+  lookback: 120,
+  swingStrength: 3,
+  zoneTolerance: 0.5,
+  minTouches: 2,
+  maxZones: 6,
+};
+
+// Performance: Cache for level calculations (equivalent to useMemo)
+const levelsCache = new Map<string, PriceLevels>();
+const MAX_CACHE_SIZE = 20;
+
+/**
+ * Calculate pivot points, the Fibonacci retracement of the last swing and
+ * support/resistance zones from a price history
+ * @param bars - Bars sorted oldest to newest
+ * @param interval - Bar interval of the data (picks the pivot period)
+ * @param options - Swing and zone options
+ * @returns Levels of the history
+ */
+export function calculatePriceLevels(
+  bars: PricePoint[],
+  interval: Interval = DEFAULT_INTERVAL,
+  options: LevelOptions = DEFAULT_LEVEL_OPTIONS
+): PriceLevels {
+  if (bars.length < 2) {
+    throw new Error("Price levels require at least 2 bars");
+  }
+
+  const last = bars[bars.length - 1];
+  const cacheKey = `${interval}:${bars.length}:${bars[0].timestamp}:${
+    last.timestamp
+  }:${last.close}:${JSON.stringify(options)}`;
+  const cached = levelsCache.get(cacheKey);
+  if (cached) {
+    debug.log(`Using cached price levels (${bars.length} bars)`);
+    return cached;
+  }
+
+  const close = last.close;
+  const zones = calculateZones(bars, options);
+  const supports = zones.filter((zone) => zone.kind === "support");
+  const resistances = zones.filter((zone) => zone.kind === "resistance");
+
+  const levels: PriceLevels = {
+    close,
+    previousClose: bars[bars.length - 2].close,
+    pivots: calculatePivotPoints(bars, interval),
+    retracement: calculateFibonacciRetracement(bars, options.lookback),
+    zones,
+    // Zones are sorted highest first
+    nearestSupport: supports[0] || null,
+    nearestResistance: resistances[resistances.length - 1] || null,
+  };
+
+  debug.success(
+    `Price levels calculated: ${zones.length} zones, pivots from ${
+      levels.pivots ? `${levels.pivots.period} ${levels.pivots.date}` : "none"
+    }`
+  );
+
+  if (levelsCache.size >= MAX_CACHE_SIZE) {
+    levelsCache.delete(levelsCache.keys().next().value as string);
+  }
+  levelsCache.set(cacheKey, levels);
+
+  return levels;
+}
+
+// Label prefix of each pivot method
+const PIVOT_NAMES: Record<PivotMethod, string> = {
+  classic: "Classic",
+  camarilla: "Camarilla",
+  fibonacci: "Fib pivot",
+};
+
+// Every level as a horizontal line, highest first
+export function levelLines(levels: PriceLevels): PriceLevel[] {
+  const lines: PriceLevel[] = [];
+
+  if (levels.pivots) {
+    const { classic, camarilla, fibonacci } = levels.pivots;
+    [classic, camarilla, fibonacci].forEach((pivots) => {
+      const name = PIVOT_NAMES[pivots.method];
+      lines.push({ price: pivots.pivot, label: `${name} P`, source: "pivot" });
+      pivots.resistances.forEach((price, i) =>
+        lines.push({ price, label: `${name} R${i + 1}`, source: "pivot" })
+      );
+      pivots.supports.forEach((price, i) =>
+        lines.push({ price, label: `${name} S${i + 1}`, source: "pivot" })
+      );
+    });
+  }
+
+  levels.retracement?.levels.forEach(({ ratio, price }) =>
+    lines.push({
+      price,
+      label: `Fib ${(ratio * 100).toFixed(1)}%`,
+      source: "fibonacci",
+    })
+  );
+
+  levels.zones.forEach((zone) =>
+    lines.push({
+      price: zone.price,
+      label: `${zone.kind === "support" ? "Support" : "Resistance"} zone`,
+      source: "zone",
+      zone,
+    })
+  );
+
+  return lines.sort((a, b) => b.price - a.price);
+}
+
+/**
+ * Levels closest to a price on each side, e.g. the support and resistance a
+ * forecast starts between
+ * @param lines - Levels to choose from
+ * @param price - Price to measure from
+ * @param perSide - Levels to keep below and above the price
+ * @returns Chosen levels, highest first
+ */
+export function nearestLevels(
+  lines: PriceLevel[],
+  price: number,
+  perSide: number
+): PriceLevel[] {
+  // Methods that coincide (e.g. Classic S2 and Fib pivot S3) count once
+  const distinct = lines.filter(
+    (line, i) => lines.findIndex((other) => other.price === line.price) === i
+  );
+  const byDistance = (a: PriceLevel, b: PriceLevel) =>
+    Math.abs(a.price - price) - Math.abs(b.price - price);
+  const below = distinct.filter((line) => line.price < price).sort(byDistance);
+  const above = distinct.filter((line) => line.price >= price).sort(byDistance);
+
+  return [...above.slice(0, perSide), ...below.slice(0, perSide)].sort(
+    (a, b) => b.price - a.price
+  );
+}
+
+// Clear the levels cache (for testing)
+export function clearLevelsCache(): void {
+  levelsCache.clear();
+  debug.log("Levels cache cleared");
+}
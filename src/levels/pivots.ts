@@ -0,0 +1,103 @@
+import { PricePoint } from "../data/fetchPrices";
+import { Interval, addBars } from "../data/intervals";
+import { resample } from "../data/resample";
+import { PivotLevels, PivotPoints } from "./index";
+
+// Period whose pivots apply to bars of each interval: intraday bars use the
+// previous day, daily bars the previous week and weekly bars the previous
+// month (monthly bars use the previous month as it is)
+export const PIVOT_PERIODS: Record<Interval, Interval> = {
+  "15m": "1d",
+  "1h": "1d",
+  "4h": "1d",
+  "1d": "1w",
+  "1w": "1M",
+  "1M": "1M",
+};
+
+// Classic floor pivots
+export function classicPivots(
+  high: number,
+  low: number,
+  close: number
+): PivotLevels {
+  const pivot = (high + low + close) / 3;
+  const range = high - low;
+  return {
+    method: "classic",
+    pivot,
+    resistances: [2 * pivot - low, pivot + range, high + 2 * (pivot - low)],
+    supports: [2 * pivot - high, pivot - range, low - 2 * (high - pivot)],
+  };
+}
+
+// Camarilla pivots: four levels each side, hugging the close
+export function camarillaPivots(
+  high: number,
+  low: number,
+  close: number
+): PivotLevels {
+  const range = high - low;
+  const offsets = [12, 6, 4, 2].map((divisor) => (range * 1.1) / divisor);
+  return {
+    method: "camarilla",
+    pivot: (high + low + close) / 3,
+    resistances: offsets.map((offset) => close + offset),
+    supports: offsets.map((offset) => close - offset),
+  };
+}
+
+// Fibonacci pivots: the classic pivot plus Fibonacci shares of the range
+export function fibonacciPivots(
+  high: number,
+  low: number,
+  close: number
+): PivotLevels {
+  const pivot = (high + low + close) / 3;
+  const range = high - low;
+  const ratios = [0.382, 0.618, 1];
+  return {
+    method: "fibonacci",
+    pivot,
+    resistances: ratios.map((ratio) => pivot + ratio * range),
+    supports: ratios.map((ratio) => pivot - ratio * range),
+  };
+}
+
+/**
+ * Pivot points for the bars after the data, from the last completed pivot
+ * period (see PIVOT_PERIODS)
+ * @param bars - Bars sorted oldest to newest
+ * @param interval - Bar interval of the data
+ * @returns Pivots, or null when no pivot period is complete yet
+ */
+export function calculatePivotPoints(
+  bars: PricePoint[],
+  interval: Interval
+): PivotPoints | null {
+  const period = PIVOT_PERIODS[interval];
+  const periodBars = period === interval ? bars : resample(bars, period);
+
+  // The newest period is still in progress unless the last bar closes it
+  const lastBar = bars[bars.length - 1];
+  const newest = periodBars[periodBars.length - 1];
+  const complete =
+    addBars(lastBar.timestamp, 1, interval) >=
+    addBars(newest.timestamp, 1, period);
+  const source = complete ? newest : periodBars[periodBars.length - 2];
+  if (!source) {
+    return null;
+  }
+
+  const { high, low, close } = source;
+  return {
+    period,
+    date: source.date,
+    high,
+    low,
+    close,
+    classic: classicPivots(high, low, close),
+    camarilla: camarillaPivots(high, low, close),
+    fibonacci: fibonacciPivots(high, low, close),
+  };
+}
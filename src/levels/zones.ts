@@ -0,0 +1,112 @@
+import { PricePoint } from "../data/fetchPrices";
+import { trueRange, wilderSmooth, mean } from "../indicators/core";
+import { LevelOptions, SupportResistanceZone, SwingPoint } from "./index";
+
+// ATR period used to size zones
+const ZONE_ATR_PERIOD = 14;
+
+/**
+ * Find swing highs and lows: bars whose high (or low) is beyond that of the
+ * `strength` bars on each side
+ * @param bars - Bars sorted oldest to newest
+ * @param strength - Bars on each side to compare with
+ * @returns Swing highs and lows, oldest first
+ */
+export function findSwingPoints(
+  bars: PricePoint[],
+  strength: number
+): { highs: SwingPoint[]; lows: SwingPoint[] } {
+  const highs: SwingPoint[] = [];
+  const lows: SwingPoint[] = [];
+
+  for (let i = strength; i < bars.length - strength; i++) {
+    const neighbours = [
+      ...bars.slice(i - strength, i),
+      ...bars.slice(i + 1, i + 1 + strength),
+    ];
+    const { high, low, date, timestamp } = bars[i];
+
+    if (neighbours.every((bar) => high > bar.high)) {
+      highs.push({ price: high, date, timestamp });
+    }
+    if (neighbours.every((bar) => low < bar.low)) {
+      lows.push({ price: low, date, timestamp });
+    }
+  }
+
+  return { highs, lows };
+}
+
+/**
+ * Cluster the swing highs and lows of the lookback into support/resistance
+ * zones no wider than `zoneTolerance` ATRs
+ * @param bars - Bars sorted oldest to newest
+ * @param options - Lookback, swing strength and zone options
+ * @returns Zones with at least `minTouches` swings, highest first
+ */
+export function calculateZones(
+  bars: PricePoint[],
+  options: LevelOptions
+): SupportResistanceZone[] {
+  const recent = bars.slice(-options.lookback);
+
+  // Zone width follows volatility (the mean bar range before an ATR exists)
+  const highs = recent.map((bar) => bar.high);
+  const lows = recent.map((bar) => bar.low);
+  const closes = recent.map((bar) => bar.close);
+  const atrValues = wilderSmooth(
+    trueRange(highs, lows, closes),
+    ZONE_ATR_PERIOD
+  );
+  const atr =
+    atrValues[atrValues.length - 1] ??
+    mean(highs.map((high, i) => high - lows[i]));
+  const tolerance = atr * options.zoneTolerance;
+  const close = closes[closes.length - 1];
+
+  const swings = findSwingPoints(recent, options.swingStrength);
+  const prices = [...swings.highs, ...swings.lows].sort(
+    (a, b) => a.price - b.price
+  );
+
+  // Walk up the swing prices, starting a new cluster once one would get
+  // wider than the tolerance
+  const clusters: SwingPoint[][] = [];
+  prices.forEach((swing) => {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && swing.price - cluster[0].price <= tolerance) {
+      cluster.push(swing);
+    } else {
+      clusters.push([swing]);
+    }
+  });
+
+  // Keep the most touched zones (recent first among equals), highest first
+  return clusters
+    .filter((cluster) => cluster.length >= options.minTouches)
+    .sort(
+      (a, b) =>
+        b.length - a.length ||
+        latestSwing(b).timestamp - latestSwing(a).timestamp
+    )
+    .slice(0, options.maxZones)
+    .map((cluster): SupportResistanceZone => {
+      const price = mean(cluster.map((swing) => swing.price));
+      return {
+        low: cluster[0].price,
+        high: cluster[cluster.length - 1].price,
+        price,
+        touches: cluster.length,
+        lastTouch: latestSwing(cluster).date,
+        kind: price < close ? "support" : "resistance",
+      };
+    })
+    .sort((a, b) => b.price - a.price);
+}
+
+// Most recent swing of a cluster
+function latestSwing(cluster: SwingPoint[]): SwingPoint {
+  return cluster.reduce((latest, swing) =>
+    swing.timestamp > latest.timestamp ? swing : latest
+  );
+}
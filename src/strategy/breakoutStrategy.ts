@@ -1,4 +1,6 @@
 import { IndicatorResult, ForecastPoint } from "../indicators";
+import { formatPrice } from "../data/quotes";
+import { PriceLevels, SupportResistanceZone } from "../levels";
 import {
   Strategy,
   StrategyConfig,
@@ -8,11 +10,19 @@ import {
   getCachedStrategyResult,
   setCachedStrategyResult,
   calculateIndicatorSignature,
+  forecastSignature,
   calculateAveragePrice,
   calculateTrend,
   calculateVolatility,
+  recentSeriesValues,
+  analyzeVolumeFlow,
+  isVolumeFlowIndicator,
 } from "./types";
 
+// Distance, in ATRs, beyond the range that makes a close a breakout (and
+// within which it counts as near the range edge)
+const ATR_BREAKOUT_MULTIPLE = 0.5;
+
 export class BreakoutStrategy implements Strategy {
   public readonly name = "Breakout";
   public readonly description =
@@ -22,7 +32,7 @@ export class BreakoutStrategy implements Strategy {
   private calculateSupportResistance = (() => {
     const srCache = new Map<string, { result: any; timestamp: number }>();
     return (forecast: ForecastPoint[], lookbackPeriod: number = 20) => {
-      const cacheKey = `sr:${forecast.length}:${lookbackPeriod}`;
+      const cacheKey = `sr:${forecastSignature(forecast)}:${lookbackPeriod}`;
       const cached = srCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -96,11 +106,139 @@ export class BreakoutStrategy implements Strategy {
     };
   })();
 
+  // Memoized support/resistance zone analysis of the price history
+  // (equivalent to useCallback)
+  private analyzeLevels = (() => {
+    const levelsCache = new Map<string, { result: any; timestamp: number }>();
+    return (levels: PriceLevels) => {
+      const cacheKey = `levels:${levels.close}:${
+        levels.previousClose
+      }:${levels.zones.map((zone) => zone.price).join(",")}`;
+      const cached = levelsCache.get(cacheKey);
+
+      if (cached && Date.now() - cached.timestamp < 60000) {
+        // 1 minute cache
+        return cached.result;
+      }
+
+      const { close, previousClose, nearestSupport, nearestResistance } =
+        levels;
+
+      // Zones the last bar closed through (zones are sorted highest first, so
+      // the nearest to the close is the first crossed up, last crossed down)
+      const crossedUp = levels.zones.filter(
+        (zone) => previousClose < zone.price && close > zone.price
+      );
+      const crossedDown = levels.zones.filter(
+        (zone) => previousClose > zone.price && close < zone.price
+      );
+      const brokenResistance: SupportResistanceZone | null =
+        crossedUp[0] || null;
+      const brokenSupport: SupportResistanceZone | null =
+        crossedDown[crossedDown.length - 1] || null;
+
+      const result = {
+        nearestSupport,
+        nearestResistance,
+        // 0 at the nearest support zone, 1 at the nearest resistance zone
+        positionInRange:
+          nearestSupport && nearestResistance
+            ? (close - nearestSupport.price) /
+              (nearestResistance.price - nearestSupport.price)
+            : 0.5,
+        brokenResistance,
+        brokenSupport,
+      };
+
+      levelsCache.set(cacheKey, { result, timestamp: Date.now() });
+      return result;
+    };
+  })();
+
+  // Memoized ATR range breakout analysis (equivalent to useCallback)
+  private analyzeATRBreakout = (() => {
+    const atrCache = new Map<string, { result: any; timestamp: number }>();
+    return (
+      atrIndicator: IndicatorResult,
+      lookbackPeriod: number = 20,
+      donchianIndicator?: IndicatorResult
+    ) => {
+      const cacheKey = `atr:${calculateIndicatorSignature(
+        donchianIndicator ? [atrIndicator, donchianIndicator] : [atrIndicator]
+      )}:${lookbackPeriod}`;
+      const cached = atrCache.get(cacheKey);
+
+      if (cached && Date.now() - cached.timestamp < 60000) {
+        // 1 minute cache
+        return cached.result;
+      }
+
+      const { values: atrValues, closes } = recentSeriesValues(
+        atrIndicator,
+        "atr",
+        lookbackPeriod + 1
+      );
+      if (atrValues.length < 2) {
+        atrCache.set(cacheKey, { result: null, timestamp: Date.now() });
+        return null;
+      }
+
+      // Range of the bars before the last one: the Donchian channel when
+      // selected, otherwise the highest and lowest close
+      const channelUpper = donchianIndicator
+        ? recentSeriesValues(donchianIndicator, "upper", 2).values
+        : [];
+      const channelLower = donchianIndicator
+        ? recentSeriesValues(donchianIndicator, "lower", 2).values
+        : [];
+      const hasChannel = channelUpper.length === 2 && channelLower.length === 2;
+      const priorCloses = closes.slice(0, -1);
+      const rangeHigh = hasChannel ? channelUpper[0] : Math.max(...priorCloses);
+      const rangeLow = hasChannel ? channelLower[0] : Math.min(...priorCloses);
+
+      const currentPrice = closes[closes.length - 1];
+      const currentATR = atrValues[atrValues.length - 1];
+      const avgATR =
+        atrValues.reduce((sum, val) => sum + val, 0) / atrValues.length;
+      const threshold = ATR_BREAKOUT_MULTIPLE * currentATR;
+
+      const result = {
+        currentPrice,
+        currentATR,
+        avgATR,
+        atrRatio: currentATR / avgATR,
+        rangeName: hasChannel ? "Donchian" : `${lookbackPeriod}-bar`,
+        rangeHigh,
+        rangeLow,
+        threshold,
+        isBreakoutUp: currentPrice > rangeHigh + threshold,
+        isBreakoutDown: currentPrice < rangeLow - threshold,
+        isNearResistance: Math.abs(currentPrice - rangeHigh) <= threshold,
+        isNearSupport: Math.abs(currentPrice - rangeLow) <= threshold,
+        // Distance beyond the range in ATRs (positive above, negative below)
+        breakoutDistance:
+          currentPrice > rangeHigh
+            ? (currentPrice - rangeHigh) / currentATR
+            : currentPrice < rangeLow
+            ? (currentPrice - rangeLow) / currentATR
+            : 0,
+      };
+
+      atrCache.set(cacheKey, { result, timestamp: Date.now() });
+      return result;
+    };
+  })();
+
   // Memoized volume analysis (equivalent to useCallback)
   private analyzeVolumeBreakout = (() => {
     const volumeCache = new Map<string, { result: any; timestamp: number }>();
-    return (vwapIndicator: IndicatorResult, lookbackPeriod: number = 14) => {
-      const cacheKey = `volume:${vwapIndicator.name}:${lookbackPeriod}`;
+    return (
+      volumeIndicators: IndicatorResult[],
+      lookbackPeriod: number = 14
+    ) => {
+      const cacheKey = `volume:${calculateIndicatorSignature(
+        volumeIndicators
+      )}:${lookbackPeriod}`;
       const cached = volumeCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -108,21 +246,41 @@ export class BreakoutStrategy implements Strategy {
         return cached.result;
       }
 
-      const prices = vwapIndicator.forecast.map((f) => f.avg);
-      const recentVolume = prices.slice(-lookbackPeriod);
-      const avgVolume =
-        recentVolume.reduce((sum, vol) => sum + vol, 0) / recentVolume.length;
-      const currentVolume = prices[prices.length - 1];
-      const volumeRatio = currentVolume / avgVolume;
-
-      const result = {
-        avgVolume,
-        currentVolume,
-        volumeRatio,
-        isVolumeBreakout: volumeRatio > 1.5, // 50% above average
-        volumeTrend: calculateTrend(vwapIndicator.forecast),
-        volumeSpike: volumeRatio > 2.0, // 100% above average
-      };
+      // Real volume from the volume-flow indicators when selected
+      const flow = analyzeVolumeFlow(volumeIndicators, lookbackPeriod);
+      let result;
+
+      if (flow) {
+        result = {
+          avgVolume: flow.avgVolume,
+          currentVolume: flow.currentVolume,
+          volumeRatio: flow.volumeRatio,
+          isVolumeBreakout: flow.volumeRatio > 1.5, // 50% above average
+          volumeTrend: flow.flowTrend,
+          volumeSpike: flow.volumeRatio > 2.0, // 100% above average
+          flow,
+        };
+      } else {
+        // Without them, infer volume from the VWAP forecast
+        const vwapIndicator = volumeIndicators[0];
+        const prices = vwapIndicator.forecast.map((f) => f.avg);
+        const recentVolume = prices.slice(-lookbackPeriod);
+        const avgVolume =
+          recentVolume.reduce((sum, vol) => sum + vol, 0) /
+          recentVolume.length;
+        const currentVolume = prices[prices.length - 1];
+        const volumeRatio = currentVolume / avgVolume;
+
+        result = {
+          avgVolume,
+          currentVolume,
+          volumeRatio,
+          isVolumeBreakout: volumeRatio > 1.5, // 50% above average
+          volumeTrend: calculateTrend(vwapIndicator.forecast),
+          volumeSpike: volumeRatio > 2.0, // 100% above average
+          flow: null,
+        };
+      }
 
       volumeCache.set(cacheKey, { result, timestamp: Date.now() });
       return result;
@@ -133,9 +291,9 @@ export class BreakoutStrategy implements Strategy {
   private analyzeMomentum = (() => {
     const momentumCache = new Map<string, { result: any; timestamp: number }>();
     return (macdIndicator: IndicatorResult, rsiIndicator?: IndicatorResult) => {
-      const cacheKey = `momentum:${macdIndicator.name}:${
-        rsiIndicator?.name || "none"
-      }`;
+      const cacheKey = `momentum:${calculateIndicatorSignature(
+        rsiIndicator ? [macdIndicator, rsiIndicator] : [macdIndicator]
+      )}`;
       const cached = momentumCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -209,10 +367,17 @@ export class BreakoutStrategy implements Strategy {
     const adxIndicator = indicators.find((ind) =>
       ind.name.toLowerCase().includes("adx")
     );
-
-    if (!vwapIndicator && !macdIndicator && !bollingerIndicator) {
+    const atrIndicator = indicators.find((ind) => ind.name === "ATR");
+    const donchianIndicator = indicators.find((ind) => ind.name === "DONCHIAN");
+
+    if (
+      !vwapIndicator &&
+      !macdIndicator &&
+      !bollingerIndicator &&
+      !atrIndicator
+    ) {
       throw new Error(
-        "Breakout strategy requires at least one of: VWAP, MACD, or Bollinger Bands indicators"
+        "Breakout strategy requires at least one of: VWAP, MACD, Bollinger Bands, or ATR indicators"
       );
     }
 
@@ -220,48 +385,147 @@ export class BreakoutStrategy implements Strategy {
     let confidenceScore = 0;
     let recommendation: "buy" | "sell" | "neutral" = "neutral";
 
-    // Analyze support/resistance breakouts
-    const baseIndicator =
-      indicators.find((ind) => ind.name.toLowerCase().includes("sma")) ||
-      indicators[0];
-    const srAnalysis = this.calculateSupportResistance(
-      baseIndicator.forecast,
-      config.lookbackPeriod
-    );
+    // Analyze range breakouts against ATR thresholds when ATR is selected
+    const atrAnalysis = atrIndicator
+      ? this.analyzeATRBreakout(
+          atrIndicator,
+          config.lookbackPeriod,
+          donchianIndicator
+        )
+      : null;
 
-    // Check for resistance breakout (bullish)
-    if (srAnalysis.positionInRange > 0.9) {
-      reasons.push(
-        `Price near resistance level ($${srAnalysis.nearestResistance.level.toFixed(
-          2
-        )}) - potential breakout`
+    // Support/resistance zones of the price history when any were found
+    const levelAnalysis = config.levels?.zones.length
+      ? this.analyzeLevels(config.levels)
+      : null;
+
+    // Direction a close near the edge of the ATR range would confirm
+    let nearRangeEdge: "buy" | "sell" | null = null;
+
+    if (atrAnalysis) {
+      const { rangeName } = atrAnalysis;
+
+      if (atrAnalysis.isBreakoutUp) {
+        reasons.push(
+          `Close broke above the ${rangeName} range high (${formatPrice(
+            atrAnalysis.rangeHigh,
+            config.quote
+          )}) by ${atrAnalysis.breakoutDistance.toFixed(1)} ATR`
+        );
+        confidenceScore += 0.3;
+        recommendation = "buy";
+      } else if (atrAnalysis.isBreakoutDown) {
+        reasons.push(
+          `Close broke below the ${rangeName} range low (${formatPrice(
+            atrAnalysis.rangeLow,
+            config.quote
+          )}) by ${Math.abs(atrAnalysis.breakoutDistance).toFixed(1)} ATR`
+        );
+        confidenceScore += 0.3;
+        recommendation = "sell";
+      } else if (atrAnalysis.isNearResistance) {
+        // Closes sit near their recent high throughout an uptrend, so being
+        // near an edge only confirms a direction volume or momentum gives
+        nearRangeEdge = "buy";
+      } else if (atrAnalysis.isNearSupport) {
+        nearRangeEdge = "sell";
+      }
+    } else if (levelAnalysis) {
+      const { nearestSupport, nearestResistance, positionInRange } =
+        levelAnalysis;
+
+      if (nearestResistance && positionInRange > 0.9) {
+        reasons.push(
+          `Price near the resistance zone at ${formatPrice(
+            nearestResistance.price,
+            config.quote
+          )} (${nearestResistance.touches} touches) - potential breakout`
+        );
+        confidenceScore += 0.25;
+        recommendation = "buy";
+      } else if (nearestSupport && positionInRange < 0.1) {
+        reasons.push(
+          `Price near the support zone at ${formatPrice(
+            nearestSupport.price,
+            config.quote
+          )} (${nearestSupport.touches} touches) - potential breakdown`
+        );
+        confidenceScore += 0.25;
+        recommendation = "sell";
+      }
+    } else {
+      // Without price history, estimate support/resistance from the forecast
+      const baseIndicator =
+        indicators.find((ind) => ind.name.toLowerCase().includes("sma")) ||
+        indicators[0];
+      const srAnalysis = this.calculateSupportResistance(
+        baseIndicator.forecast,
+        config.lookbackPeriod
       );
-      confidenceScore += 0.25;
-      recommendation = "buy";
+
+      // Check for resistance breakout (bullish)
+      if (srAnalysis.positionInRange > 0.9) {
+        reasons.push(
+          `Price near resistance level (${formatPrice(
+            srAnalysis.nearestResistance.level,
+            config.quote
+          )}) - potential breakout`
+        );
+        confidenceScore += 0.25;
+        recommendation = "buy";
+      }
+
+      // Check for support breakout (bearish)
+      if (srAnalysis.positionInRange < 0.1) {
+        reasons.push(
+          `Price near support level (${formatPrice(
+            srAnalysis.nearestSupport.level,
+            config.quote
+          )}) - potential breakdown`
+        );
+        confidenceScore += 0.25;
+        recommendation = "sell";
+      }
     }
 
-    // Check for support breakout (bearish)
-    if (srAnalysis.positionInRange < 0.1) {
+    // A close through a support/resistance zone of the price history
+    if (levelAnalysis?.brokenResistance) {
       reasons.push(
-        `Price near support level ($${srAnalysis.nearestSupport.level.toFixed(
-          2
-        )}) - potential breakdown`
+        `Close broke through the resistance zone at ${formatPrice(
+          levelAnalysis.brokenResistance.price,
+          config.quote
+        )} (${levelAnalysis.brokenResistance.touches} touches)`
       );
-      confidenceScore += 0.25;
-      recommendation = "sell";
+      confidenceScore += 0.15;
+      if (recommendation === "neutral") recommendation = "buy";
+    } else if (levelAnalysis?.brokenSupport) {
+      reasons.push(
+        `Close broke through the support zone at ${formatPrice(
+          levelAnalysis.brokenSupport.price,
+          config.quote
+        )} (${levelAnalysis.brokenSupport.touches} touches)`
+      );
+      confidenceScore += 0.15;
+      if (recommendation === "neutral") recommendation = "sell";
     }
 
     // Analyze volume breakouts
-    if (vwapIndicator) {
+    const volumeIndicators = indicators.filter(isVolumeFlowIndicator);
+    if (volumeIndicators.length === 0 && vwapIndicator) {
+      volumeIndicators.push(vwapIndicator);
+    }
+
+    if (volumeIndicators.length > 0) {
       const volumeAnalysis = this.analyzeVolumeBreakout(
-        vwapIndicator,
+        volumeIndicators,
         config.lookbackPeriod
       );
 
       if (volumeAnalysis.isVolumeBreakout) {
         reasons.push(
           `Volume breakout detected (${(
-            volumeAnalysis.volumeRatio * 100
+            (volumeAnalysis.volumeRatio - 1) *
+            100
           ).toFixed(0)}% above average)`
         );
         confidenceScore += 0.3;
@@ -276,11 +540,31 @@ export class BreakoutStrategy implements Strategy {
       if (volumeAnalysis.volumeSpike) {
         reasons.push(
           `Significant volume spike detected (${(
-            volumeAnalysis.volumeRatio * 100
+            (volumeAnalysis.volumeRatio - 1) *
+            100
           ).toFixed(0)}% above average)`
         );
         confidenceScore += 0.2;
       }
+
+      // Money flowing in the direction of the breakout confirms it
+      const { flow } = volumeAnalysis;
+      const breakoutTrend =
+        recommendation === "buy"
+          ? "bullish"
+          : recommendation === "sell"
+          ? "bearish"
+          : null;
+      if (flow && breakoutTrend && flow.flowTrend === breakoutTrend) {
+        reasons.push(
+          `${
+            breakoutTrend === "bullish" ? "Buying" : "Selling"
+          } volume confirms the move (${flow.sources.join(", ")}, ${(
+            flow.upVolumeShare * 100
+          ).toFixed(0)}% of volume on up closes)`
+        );
+        confidenceScore += 0.15;
+      }
     }
 
     // Analyze momentum for breakout confirmation
@@ -318,8 +602,33 @@ export class BreakoutStrategy implements Strategy {
       }
     }
 
-    // Analyze Bollinger Band breakouts
-    if (bollingerIndicator) {
+    // A close near the edge of the range the move heads for confirms it
+    if (atrAnalysis && nearRangeEdge && recommendation === nearRangeEdge) {
+      const edge =
+        nearRangeEdge === "buy" ? atrAnalysis.rangeHigh : atrAnalysis.rangeLow;
+      reasons.push(
+        `Price within ${ATR_BREAKOUT_MULTIPLE} ATR of the ${
+          atrAnalysis.rangeName
+        } range ${nearRangeEdge === "buy" ? "high" : "low"} (${formatPrice(
+          edge,
+          config.quote
+        )}) - potential ${nearRangeEdge === "buy" ? "breakout" : "breakdown"}`
+      );
+      confidenceScore += 0.15;
+    }
+
+    // Analyze volatility: ATR expansion, or the spread of the Bollinger
+    // forecast without ATR
+    if (atrAnalysis) {
+      if (atrAnalysis.atrRatio > 1.2) {
+        reasons.push(
+          `ATR expanding (${(atrAnalysis.atrRatio * 100).toFixed(
+            0
+          )}% of its ${config.lookbackPeriod}-bar average) - breakout conditions`
+        );
+        confidenceScore += 0.15;
+      }
+    } else if (bollingerIndicator) {
       const bbTrend = calculateTrend(bollingerIndicator.forecast);
       const bbVolatility = calculateVolatility(bollingerIndicator.forecast);
 
@@ -453,6 +762,7 @@ export class BreakoutStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * breakoutFactor * volatilityFactor,
           low: basePoint.low * breakoutFactor * volatilityFactor,
           avg: basePoint.avg * breakoutFactor,
@@ -1,4 +1,5 @@
 import { IndicatorResult, ForecastPoint } from "../indicators";
+import { formatPrice } from "../data/quotes";
 import {
   Strategy,
   StrategyConfig,
@@ -8,6 +9,7 @@ import {
   getCachedStrategyResult,
   setCachedStrategyResult,
   calculateIndicatorSignature,
+  forecastSignature,
   calculateAveragePrice,
   calculateTrend,
   calculateVolatility,
@@ -36,7 +38,9 @@ export class CandlestickReversalStrategy implements Strategy {
       priceData: ForecastPoint[],
       lookbackPeriod: number = 10
     ): CandlestickPattern[] => {
-      const cacheKey = `patterns:${priceData.length}:${lookbackPeriod}`;
+      const cacheKey = `patterns:${forecastSignature(
+        priceData
+      )}:${lookbackPeriod}`;
       const cached = patternCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -218,8 +222,12 @@ export class CandlestickReversalStrategy implements Strategy {
       priceData: ForecastPoint[],
       volumeIndicator?: IndicatorResult
     ) => {
-      const cacheKey = `strength:${patterns.length}:${priceData.length}:${
-        volumeIndicator?.name || "none"
+      const cacheKey = `strength:${patterns.length}:${forecastSignature(
+        priceData
+      )}:${
+        volumeIndicator
+          ? calculateIndicatorSignature([volumeIndicator])
+          : "none"
       }`;
       const cached = strengthCache.get(cacheKey);
 
@@ -306,7 +314,9 @@ export class CandlestickReversalStrategy implements Strategy {
       priceData: ForecastPoint[],
       trendIndicator: IndicatorResult
     ) => {
-      const cacheKey = `context:${patterns.length}:${priceData.length}:${trendIndicator.name}`;
+      const cacheKey = `context:${patterns.length}:${forecastSignature(
+        priceData
+      )}:${calculateIndicatorSignature([trendIndicator])}`;
       const cached = trendCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -471,8 +481,9 @@ export class CandlestickReversalStrategy implements Strategy {
       confidenceScore *= trendContext.contextMultiplier.bullish;
       if (trendContext.nearSupport) {
         reasons.push(
-          `Price near support level ($${trendContext.supportLevel.toFixed(
-            2
+          `Price near support level (${formatPrice(
+            trendContext.supportLevel,
+            config.quote
           )}) - reversal potential`
         );
         confidenceScore += 0.15;
@@ -481,8 +492,9 @@ export class CandlestickReversalStrategy implements Strategy {
       confidenceScore *= trendContext.contextMultiplier.bearish;
       if (trendContext.nearResistance) {
         reasons.push(
-          `Price near resistance level ($${trendContext.resistanceLevel.toFixed(
-            2
+          `Price near resistance level (${formatPrice(
+            trendContext.resistanceLevel,
+            config.quote
           )}) - reversal potential`
         );
         confidenceScore += 0.15;
@@ -554,7 +566,11 @@ export class CandlestickReversalStrategy implements Strategy {
       direction: "buy" | "sell" | "neutral",
       patterns: CandlestickPattern[]
     ): ForecastPoint[] => {
-      const cacheKey = `forecast:${config.symbol}:${config.forecastDays}:${direction}:${patterns.length}`;
+      const cacheKey = `forecast:${config.symbol}:${
+        config.forecastDays
+      }:${direction}:${patterns.length}:${calculateIndicatorSignature(
+        indicators
+      )}`;
       const cached = forecastCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 120000) {
@@ -609,6 +625,7 @@ export class CandlestickReversalStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * reversalFactor * volatilityFactor,
           low: basePoint.low * reversalFactor * volatilityFactor,
           avg: basePoint.avg * reversalFactor,
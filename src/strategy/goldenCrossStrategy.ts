@@ -11,6 +11,8 @@ import {
   calculateAveragePrice,
   calculateTrend,
   calculateVolatility,
+  analyzeVolumeFlow,
+  isVolumeFlowIndicator,
 } from "./types";
 
 export class GoldenCrossStrategy implements Strategy {
@@ -29,7 +31,10 @@ export class GoldenCrossStrategy implements Strategy {
       longMA: IndicatorResult,
       lookbackPeriod: number = 10
     ) => {
-      const cacheKey = `crossover:${shortMA.name}:${longMA.name}:${lookbackPeriod}`;
+      const cacheKey = `crossover:${calculateIndicatorSignature([
+        shortMA,
+        longMA,
+      ])}:${lookbackPeriod}`;
       const cached = crossoverCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -131,9 +136,11 @@ export class GoldenCrossStrategy implements Strategy {
       smaIndicator: IndicatorResult,
       adxIndicator?: IndicatorResult
     ) => {
-      const cacheKey = `trend:${emaIndicator.name}:${smaIndicator.name}:${
-        adxIndicator?.name || "none"
-      }`;
+      const cacheKey = `trend:${calculateIndicatorSignature(
+        adxIndicator
+          ? [emaIndicator, smaIndicator, adxIndicator]
+          : [emaIndicator, smaIndicator]
+      )}`;
       const cached = trendCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -177,11 +184,14 @@ export class GoldenCrossStrategy implements Strategy {
   private analyzeVolumeConfirmation = (() => {
     const volumeCache = new Map<string, { result: any; timestamp: number }>();
     return (
-      vwapIndicator: IndicatorResult,
+      volumeIndicators: IndicatorResult[],
       priceIndicator: IndicatorResult,
       lookbackPeriod: number = 14
     ) => {
-      const cacheKey = `volume:${vwapIndicator.name}:${priceIndicator.name}:${lookbackPeriod}`;
+      const cacheKey = `volume:${calculateIndicatorSignature([
+        ...volumeIndicators,
+        priceIndicator,
+      ])}:${lookbackPeriod}`;
       const cached = volumeCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -189,6 +199,32 @@ export class GoldenCrossStrategy implements Strategy {
         return cached.result;
       }
 
+      // Real volume from the volume-flow indicators when selected: the trend
+      // is confirmed when most volume traded on closes moving with it
+      const flow = analyzeVolumeFlow(volumeIndicators, lookbackPeriod);
+      if (flow) {
+        const rising = flow.priceChange >= 0;
+        const confirmationRate = rising
+          ? flow.upVolumeShare
+          : 1 - flow.upVolumeShare;
+        const flowAgrees = rising ? flow.flowScore > 0 : flow.flowScore < 0;
+        const avgStrength = flowAgrees ? Math.abs(flow.flowScore) : 0;
+
+        const result = {
+          flow,
+          confirmationRate,
+          avgStrength,
+          isVolumeSupporting: confirmationRate > 0.6,
+          isStrongRelationship: avgStrength > 0.5,
+          volumeTrend: flow.flowTrend,
+        };
+
+        volumeCache.set(cacheKey, { result, timestamp: Date.now() });
+        return result;
+      }
+
+      // Without them, infer volume from the VWAP forecast
+      const vwapIndicator = volumeIndicators[0];
       const vwapValues = vwapIndicator.forecast.map((f) => f.avg);
       const priceValues = priceIndicator.forecast.map((f) => f.avg);
       const minLength = Math.min(vwapValues.length, priceValues.length);
@@ -228,6 +264,7 @@ export class GoldenCrossStrategy implements Strategy {
         confirmationRate,
         avgStrength,
         isVolumeSupporting: confirmationRate > 0.6,
+        isStrongRelationship: avgStrength > 0.01,
         volumeTrend: calculateTrend(vwapIndicator.forecast),
       };
 
@@ -366,12 +403,18 @@ export class GoldenCrossStrategy implements Strategy {
       }
     }
 
-    // Analyze volume confirmation
-    if (vwapIndicator && (emaIndicator || smaIndicator)) {
+    // Analyze volume confirmation (real volume from the volume-flow
+    // indicators, otherwise the VWAP forecast)
+    const volumeIndicators = indicators.filter(isVolumeFlowIndicator);
+    if (volumeIndicators.length === 0 && vwapIndicator) {
+      volumeIndicators.push(vwapIndicator);
+    }
+
+    if (volumeIndicators.length > 0 && (emaIndicator || smaIndicator)) {
       const priceIndicator = emaIndicator || smaIndicator;
       if (priceIndicator) {
         const volumeAnalysis = this.analyzeVolumeConfirmation(
-          vwapIndicator,
+          volumeIndicators,
           priceIndicator,
           config.lookbackPeriod
         );
@@ -390,7 +433,7 @@ export class GoldenCrossStrategy implements Strategy {
           confidenceScore *= 0.8; // Reduce confidence
         }
 
-        if (volumeAnalysis.avgStrength > 0.01) {
+        if (volumeAnalysis.isStrongRelationship) {
           reasons.push(
             `Strong volume-price relationship (strength: ${(
               volumeAnalysis.avgStrength * 100
@@ -512,6 +555,7 @@ export class GoldenCrossStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * trendFactor * volatilityFactor,
           low: basePoint.low * trendFactor * volatilityFactor,
           avg: basePoint.avg * trendFactor,
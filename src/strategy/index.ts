@@ -17,6 +17,7 @@ import { MomentumDivergenceStrategy } from "./momentumDivergenceStrategy";
 import { CandlestickReversalStrategy } from "./candlestickReversalStrategy";
 import { VolatilityBreakoutStrategy } from "./volatilityBreakoutStrategy";
 import { Strategy } from "./types";
+import { DEFAULT_QUOTE } from "../data/quotes";
 
 // Strategy registry with memoization (equivalent to useMemo)
 const strategyRegistry = new Map<string, Strategy>();
@@ -125,6 +126,7 @@ export const getStrategyPerformanceStats = () => {
 export const DEFAULT_STRATEGY_CONFIG = {
   forecastDays: 10,
   symbol: "BTC",
+  quote: DEFAULT_QUOTE,
   lookbackPeriod: 14,
   sensitivity: 0.5,
   riskLevel: "medium" as const,
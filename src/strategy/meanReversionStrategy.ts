@@ -8,9 +8,9 @@ import {
   getCachedStrategyResult,
   setCachedStrategyResult,
   calculateIndicatorSignature,
-  calculateAveragePrice,
+  forecastSignature,
   calculateTrend,
-  calculateVolatility,
+  recentSeriesValues,
 } from "./types";
 
 export class MeanReversionStrategy implements Strategy {
@@ -21,8 +21,14 @@ export class MeanReversionStrategy implements Strategy {
   // Memoized calculation for RSI analysis (equivalent to useCallback)
   private analyzeRSI = (() => {
     const rsiCache = new Map<string, { result: any; timestamp: number }>();
-    return (rsi: IndicatorResult, sensitivity: number = 0.5) => {
-      const cacheKey = `rsi:${rsi.name}:${sensitivity}:${rsi.forecast.length}`;
+    return (
+      rsi: IndicatorResult,
+      sensitivity: number = 0.5,
+      lookbackPeriod: number = 14
+    ) => {
+      const cacheKey = `rsi:${calculateIndicatorSignature([
+        rsi,
+      ])}:${sensitivity}:${lookbackPeriod}`;
       const cached = rsiCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -30,19 +36,21 @@ export class MeanReversionStrategy implements Strategy {
         return cached.result;
       }
 
+      // RSI of the recent bars; higher sensitivity narrows the neutral zone
+      const rsiValues = recentSeriesValues(rsi, "rsi", lookbackPeriod).values;
+      const oversoldLevel = 30 + sensitivity * 20;
+      const overboughtLevel = 70 - sensitivity * 20;
+
       const result = {
-        oversold: rsi.forecast.filter(
-          (point) => point.avg < 30 + sensitivity * 20
-        ),
-        overbought: rsi.forecast.filter(
-          (point) => point.avg > 70 - sensitivity * 20
+        oversold: rsiValues.filter((value) => value < oversoldLevel),
+        overbought: rsiValues.filter((value) => value > overboughtLevel),
+        neutral: rsiValues.filter(
+          (value) => value >= oversoldLevel && value <= overboughtLevel
         ),
-        neutral: rsi.forecast.filter(
-          (point) =>
-            point.avg >= 30 + sensitivity * 20 &&
-            point.avg <= 70 - sensitivity * 20
-        ),
-        avgRSI: calculateAveragePrice(rsi.forecast),
+        avgRSI:
+          rsiValues.reduce((sum, value) => sum + value, 0) /
+          (rsiValues.length || 1),
+        currentRSI: rsiValues[rsiValues.length - 1] ?? 50,
       };
 
       rsiCache.set(cacheKey, { result, timestamp: Date.now() });
@@ -56,8 +64,10 @@ export class MeanReversionStrategy implements Strategy {
       string,
       { result: any; timestamp: number }
     >();
-    return (bollinger: IndicatorResult) => {
-      const cacheKey = `bollinger:${bollinger.name}:${bollinger.forecast.length}`;
+    return (bollinger: IndicatorResult, lookbackPeriod: number = 14) => {
+      const cacheKey = `bollinger:${calculateIndicatorSignature([
+        bollinger,
+      ])}:${lookbackPeriod}`;
       const cached = bollingerCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -65,14 +75,24 @@ export class MeanReversionStrategy implements Strategy {
         return cached.result;
       }
 
+      // Closes of the recent bars against the bands
+      const { values: lower, closes } = recentSeriesValues(
+        bollinger,
+        "lower",
+        lookbackPeriod
+      );
+      const upper = recentSeriesValues(
+        bollinger,
+        "upper",
+        lookbackPeriod
+      ).values;
+      const middle = recentSeriesValues(bollinger, "middle", 1).values[0];
+      const last = lower.length - 1;
+
       const result = {
-        lowerBandTouches: bollinger.forecast.filter(
-          (point) => point.low <= point.avg - (point.high - point.low) * 0.4
-        ),
-        upperBandTouches: bollinger.forecast.filter(
-          (point) => point.high >= point.avg + (point.high - point.low) * 0.4
-        ),
-        bandwidth: calculateVolatility(bollinger.forecast),
+        lowerBandTouches: closes.filter((close, i) => close <= lower[i]),
+        upperBandTouches: closes.filter((close, i) => close >= upper[i]),
+        bandwidth: middle ? (upper[last] - lower[last]) / middle : 0,
         trend: calculateTrend(bollinger.forecast),
       };
 
@@ -85,7 +105,9 @@ export class MeanReversionStrategy implements Strategy {
   private calculateMeanReversion = (() => {
     const meanCache = new Map<string, { result: any; timestamp: number }>();
     return (forecasts: ForecastPoint[], lookbackPeriod: number = 14) => {
-      const cacheKey = `meanrev:${forecasts.length}:${lookbackPeriod}`;
+      const cacheKey = `meanrev:${forecastSignature(
+        forecasts
+      )}:${lookbackPeriod}`;
       const cached = meanCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -155,17 +177,21 @@ export class MeanReversionStrategy implements Strategy {
 
     // Analyze RSI for mean reversion signals
     if (rsiIndicator) {
-      const rsiAnalysis = this.analyzeRSI(rsiIndicator, config.sensitivity);
+      const rsiAnalysis = this.analyzeRSI(
+        rsiIndicator,
+        config.sensitivity,
+        config.lookbackPeriod
+      );
 
       if (rsiAnalysis.oversold.length > rsiAnalysis.overbought.length) {
         reasons.push(
-          `RSI indicates oversold condition (${rsiAnalysis.oversold.length} oversold vs ${rsiAnalysis.overbought.length} overbought periods)`
+          `RSI indicates oversold condition (${rsiAnalysis.oversold.length} oversold vs ${rsiAnalysis.overbought.length} overbought bars, now ${rsiAnalysis.currentRSI.toFixed(1)})`
         );
         confidenceScore += 0.3;
         recommendation = "buy";
       } else if (rsiAnalysis.overbought.length > rsiAnalysis.oversold.length) {
         reasons.push(
-          `RSI indicates overbought condition (${rsiAnalysis.overbought.length} overbought vs ${rsiAnalysis.oversold.length} oversold periods)`
+          `RSI indicates overbought condition (${rsiAnalysis.overbought.length} overbought vs ${rsiAnalysis.oversold.length} oversold bars, now ${rsiAnalysis.currentRSI.toFixed(1)})`
         );
         confidenceScore += 0.3;
         recommendation = "sell";
@@ -178,7 +204,10 @@ export class MeanReversionStrategy implements Strategy {
 
     // Analyze Bollinger Bands for mean reversion
     if (bollingerIndicator) {
-      const bollingerAnalysis = this.analyzeBollinger(bollingerIndicator);
+      const bollingerAnalysis = this.analyzeBollinger(
+        bollingerIndicator,
+        config.lookbackPeriod
+      );
 
       if (bollingerAnalysis.lowerBandTouches.length > 0) {
         reasons.push(
@@ -194,8 +223,9 @@ export class MeanReversionStrategy implements Strategy {
         if (recommendation === "neutral") recommendation = "sell";
       }
 
-      // Consider bandwidth for volatility
-      if (bollingerAnalysis.bandwidth < 0.02) {
+      // Consider bandwidth (band width relative to the middle band) for
+      // volatility
+      if (bollingerAnalysis.bandwidth < 0.05) {
         reasons.push(
           `Low volatility detected (bandwidth: ${(
             bollingerAnalysis.bandwidth * 100
@@ -302,6 +332,7 @@ export class MeanReversionStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * meanReversionFactor * volatilityAdjustment,
           low: basePoint.low * meanReversionFactor * volatilityAdjustment,
           avg: basePoint.avg * meanReversionFactor,
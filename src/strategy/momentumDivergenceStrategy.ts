@@ -8,9 +8,9 @@ import {
   getCachedStrategyResult,
   setCachedStrategyResult,
   calculateIndicatorSignature,
-  calculateAveragePrice,
   calculateTrend,
   calculateVolatility,
+  recentSeriesValues,
 } from "./types";
 
 export class MomentumDivergenceStrategy implements Strategy {
@@ -25,11 +25,13 @@ export class MomentumDivergenceStrategy implements Strategy {
       { result: any; timestamp: number }
     >();
     return (
-      priceIndicator: IndicatorResult,
       momentumIndicator: IndicatorResult,
+      line: string,
       lookbackPeriod: number = 14
     ) => {
-      const cacheKey = `divergence:${priceIndicator.name}:${momentumIndicator.name}:${lookbackPeriod}`;
+      const cacheKey = `divergence:${calculateIndicatorSignature([
+        momentumIndicator,
+      ])}:${line}:${lookbackPeriod}`;
       const cached = divergenceCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -37,8 +39,19 @@ export class MomentumDivergenceStrategy implements Strategy {
         return cached.result;
       }
 
-      const priceValues = priceIndicator.forecast.map((f) => f.avg);
-      const momentumValues = momentumIndicator.forecast.map((f) => f.avg);
+      // Historical closes against the momentum line; windows ending in the
+      // lookback period reach back up to two more lookback periods. Prices
+      // are in percent of the last close so slopes compare across coins
+      const recent = recentSeriesValues(
+        momentumIndicator,
+        line,
+        lookbackPeriod * 3
+      );
+      const lastClose = recent.closes[recent.closes.length - 1];
+      const priceValues = recent.closes.map(
+        (close) => (close / lastClose) * 100
+      );
+      const momentumValues = recent.values;
       const minLength = Math.min(priceValues.length, momentumValues.length);
 
       const divergences = [];
@@ -179,12 +192,10 @@ export class MomentumDivergenceStrategy implements Strategy {
   // Memoized RSI divergence analysis (equivalent to useCallback)
   private analyzeRSIDivergence = (() => {
     const rsiCache = new Map<string, { result: any; timestamp: number }>();
-    return (
-      priceIndicator: IndicatorResult,
-      rsiIndicator: IndicatorResult,
-      lookbackPeriod: number = 14
-    ) => {
-      const cacheKey = `rsi_div:${priceIndicator.name}:${rsiIndicator.name}:${lookbackPeriod}`;
+    return (rsiIndicator: IndicatorResult, lookbackPeriod: number = 14) => {
+      const cacheKey = `rsi_div:${calculateIndicatorSignature([
+        rsiIndicator,
+      ])}:${lookbackPeriod}`;
       const cached = rsiCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -193,15 +204,20 @@ export class MomentumDivergenceStrategy implements Strategy {
       }
 
       const baseDivergence = this.analyzeDivergence(
-        priceIndicator,
         rsiIndicator,
+        "rsi",
         lookbackPeriod
       );
 
       // RSI-specific analysis
-      const rsiValues = rsiIndicator.forecast.map((f) => f.avg);
+      const rsiValues = recentSeriesValues(
+        rsiIndicator,
+        "rsi",
+        lookbackPeriod
+      ).values;
       const currentRSI = rsiValues[rsiValues.length - 1];
-      const avgRSI = calculateAveragePrice(rsiIndicator.forecast);
+      const avgRSI =
+        rsiValues.reduce((sum, value) => sum + value, 0) / rsiValues.length;
 
       // RSI extreme levels enhance divergence signals
       const isRSIExtreme = currentRSI > 70 || currentRSI < 30;
@@ -248,12 +264,10 @@ export class MomentumDivergenceStrategy implements Strategy {
   // Memoized MACD divergence analysis (equivalent to useCallback)
   private analyzeMACDDivergence = (() => {
     const macdCache = new Map<string, { result: any; timestamp: number }>();
-    return (
-      priceIndicator: IndicatorResult,
-      macdIndicator: IndicatorResult,
-      lookbackPeriod: number = 14
-    ) => {
-      const cacheKey = `macd_div:${priceIndicator.name}:${macdIndicator.name}:${lookbackPeriod}`;
+    return (macdIndicator: IndicatorResult, lookbackPeriod: number = 14) => {
+      const cacheKey = `macd_div:${calculateIndicatorSignature([
+        macdIndicator,
+      ])}:${lookbackPeriod}`;
       const cached = macdCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -262,13 +276,17 @@ export class MomentumDivergenceStrategy implements Strategy {
       }
 
       const baseDivergence = this.analyzeDivergence(
-        priceIndicator,
         macdIndicator,
+        "macd",
         lookbackPeriod
       );
 
       // MACD-specific analysis
-      const macdValues = macdIndicator.forecast.map((f) => f.avg);
+      const macdValues = recentSeriesValues(
+        macdIndicator,
+        "macd",
+        lookbackPeriod * 3
+      ).values;
       const macdTrend = calculateTrend(macdIndicator.forecast);
       const macdVolatility = calculateVolatility(macdIndicator.forecast);
 
@@ -365,9 +383,6 @@ export class MomentumDivergenceStrategy implements Strategy {
     const stochasticIndicator = indicators.find((ind) =>
       ind.name.toLowerCase().includes("stochastic")
     );
-    const priceIndicator =
-      indicators.find((ind) => ind.name.toLowerCase().includes("sma")) ||
-      indicators[0];
 
     if (!rsiIndicator && !macdIndicator && !stochasticIndicator) {
       throw new Error(
@@ -382,7 +397,6 @@ export class MomentumDivergenceStrategy implements Strategy {
     // Analyze RSI divergences
     if (rsiIndicator) {
       const rsiDivergence = this.analyzeRSIDivergence(
-        priceIndicator,
         rsiIndicator,
         config.lookbackPeriod
       );
@@ -448,7 +462,6 @@ export class MomentumDivergenceStrategy implements Strategy {
     // Analyze MACD divergences
     if (macdIndicator) {
       const macdDivergence = this.analyzeMACDDivergence(
-        priceIndicator,
         macdIndicator,
         config.lookbackPeriod
       );
@@ -502,8 +515,8 @@ export class MomentumDivergenceStrategy implements Strategy {
     // Analyze Stochastic divergences
     if (stochasticIndicator) {
       const stochasticDivergence = this.analyzeDivergence(
-        priceIndicator,
         stochasticIndicator,
+        "k",
         config.lookbackPeriod
       );
 
@@ -632,6 +645,7 @@ export class MomentumDivergenceStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * divergenceFactor * volatilityFactor,
           low: basePoint.low * divergenceFactor * volatilityFactor,
           avg: basePoint.avg * divergenceFactor,
@@ -5,6 +5,8 @@ import {
   StrategyConfig,
   StrategyResult,
   TradeSignal,
+  calculateIndicatorSignature,
+  findSignalStop,
   cleanupStrategyCache,
   getStrategyCacheStats,
   clearStrategyCache,
@@ -75,14 +77,13 @@ function generateCombinedCacheKey(
   indicators: IndicatorResult[],
   config: StrategyConfig
 ): string {
-  const indicatorSignature = indicators
-    .map(
-      (ind) =>
-        `${ind.name}:${ind.accuracy}:${ind.weight}:${ind.forecast.length}`
-    )
-    .join("|");
+  const indicatorSignature = calculateIndicatorSignature(indicators);
 
-  const configSignature = `${config.symbol}:${config.forecastDays}:${config.lookbackPeriod}:${config.sensitivity}:${config.riskLevel}`;
+  const configSignature = `${config.symbol}:${config.quote}:${
+    config.forecastDays
+  }:${config.lookbackPeriod}:${config.sensitivity}:${config.riskLevel}:${
+    config.levels ? "levels" : "no-levels"
+  }`;
 
   return `combined:${configSignature}:${indicatorSignature}`;
 }
@@ -233,6 +234,20 @@ const combineSignals = (() => {
   };
 })();
 
+// Attach the stop that invalidates a signal (see findSignalStop)
+function withSignalStop(
+  result: StrategyResult,
+  indicators: IndicatorResult[]
+): StrategyResult {
+  return {
+    ...result,
+    signal: {
+      ...result.signal,
+      stop: findSignalStop(indicators, result.signal.recommendation),
+    },
+  };
+}
+
 // Main function to run all strategies
 export async function runAllStrategies(
   indicators: IndicatorResult[],
@@ -258,20 +273,32 @@ export async function runAllStrategies(
     try {
       return await strategy.execute(indicators, fullConfig);
     } catch (error) {
-      console.warn(`Strategy ${strategy.name} failed:`, error);
+      // Strategies fail when an indicator they need was not calculated
+      // (e.g. left out with --indicators), so the message is enough
+      console.warn(
+        `Strategy ${strategy.name} skipped: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
       return null;
     }
   });
 
   const results = await Promise.all(strategyPromises);
-  const validResults = results.filter(Boolean) as StrategyResult[];
+  const validResults = (results.filter(Boolean) as StrategyResult[]).map(
+    (result) => withSignalStop(result, indicators)
+  );
 
   if (validResults.length === 0) {
     throw new Error("No strategies executed successfully");
   }
 
   // Combine signals using memoized logic
-  const combinedSignal = combineSignals(validResults);
+  const signal = combineSignals(validResults);
+  const combinedSignal: TradeSignal = {
+    ...signal,
+    stop: findSignalStop(indicators, signal.recommendation),
+  };
 
   // Merge forecasts using existing merge logic
   const combinedForecast = mergeForecasts(
@@ -349,7 +376,8 @@ export async function runSelectedStrategy(
   }
 
   const fullConfig = createStrategyConfig(config);
-  return await strategy.execute(indicators, fullConfig);
+  const result = await strategy.execute(indicators, fullConfig);
+  return withSignalStop(result, indicators);
 }
 
 // Utility functions for cache management
@@ -1,4 +1,11 @@
-import { ForecastPoint, IndicatorResult } from "../indicators";
+import {
+  ForecastPoint,
+  IndicatorResult,
+  WeightedForecast,
+} from "../indicators";
+import { mean, standardDeviation } from "../indicators/core";
+import { DEFAULT_QUOTE } from "../data/quotes";
+import { PriceLevels } from "../levels";
 
 // Trade signal interface
 export interface TradeSignal {
@@ -7,6 +14,14 @@ export interface TradeSignal {
   confidenceScore: number; // 0-1 confidence score
   timestamp: number;
   strategy: string;
+  stop?: SignalStop; // Where the signal is invalidated (buy and sell only)
+}
+
+// Trailing stop of a trend-stop indicator that protects a signal
+export interface SignalStop {
+  price: number; // Below the close for a buy, above it for a sell
+  indicator: string; // Indicator the stop comes from, e.g. "SUPERTREND"
+  distance: number; // Distance from the last close (0.05 = 5%)
 }
 
 // Strategy result interface
@@ -23,9 +38,23 @@ export interface StrategyResult {
 export interface StrategyConfig {
   forecastDays: number;
   symbol: string;
+  quote?: string; // Quote currency of all prices, defaults to DEFAULT_QUOTE
   lookbackPeriod?: number;
   sensitivity?: number;
   riskLevel?: "low" | "medium" | "high";
+  levels?: PriceLevels; // Levels of the price history (calculatePriceLevels)
+}
+
+// Real volume behavior of the recent bars, read by volume confirmation
+export interface VolumeFlow {
+  sources: string[]; // Volume-flow indicators read, e.g. ["OBV", "CMF"]
+  currentVolume: number; // Volume of the last bar
+  avgVolume: number; // Mean volume of the bars before it
+  volumeRatio: number; // currentVolume / avgVolume
+  priceChange: number; // Change of the close over the bars (0.05 = 5%)
+  upVolumeShare: number; // Share of the volume traded on up closes (0-1)
+  flowScore: number; // -1 (money leaving) to 1 (money entering)
+  flowTrend: "bullish" | "bearish" | "neutral";
 }
 
 // Base strategy interface
@@ -83,9 +112,13 @@ export function generateStrategyCacheKey(
   config: StrategyConfig,
   indicatorsSignature: string
 ): string {
-  const configSignature = `${config.symbol}:${config.forecastDays}:${
-    config.lookbackPeriod || "default"
-  }:${config.sensitivity || "default"}:${config.riskLevel || "medium"}`;
+  const configSignature = `${config.symbol}:${
+    config.quote || DEFAULT_QUOTE
+  }:${config.forecastDays}:${config.lookbackPeriod || "default"}:${
+    config.sensitivity || "default"
+  }:${config.riskLevel || "medium"}:${
+    config.levels ? "levels" : "no-levels"
+  }`;
   return `strategy:${strategyName}:${configSignature}:${indicatorsSignature}`;
 }
 
@@ -140,15 +173,25 @@ export function debugStrategyCacheContents(): void {
 }
 
 // Utility functions for strategy calculations
+// Identifies a forecast by its bars and first/last values; a live tick keeps
+// the bars but moves the values, so memoized analyses must see both
+export function forecastSignature(forecast: ForecastPoint[]): string {
+  const first = forecast[0];
+  const last = forecast[forecast.length - 1];
+  return `${forecast.length}:${first?.timestamp || 0}:${first?.avg || 0}:${
+    last?.avg || 0
+  }`;
+}
+
 export function calculateIndicatorSignature(
-  indicators: IndicatorResult[]
+  indicators: WeightedForecast[]
 ): string {
   return indicators
     .map(
       (ind) =>
-        `${ind.name}:${ind.accuracy.toFixed(2)}:${ind.weight.toFixed(2)}:${
-          ind.forecast.length
-        }`
+        `${ind.name}:${ind.accuracy.toFixed(2)}:${ind.weight.toFixed(
+          2
+        )}:${forecastSignature(ind.forecast)}`
     )
     .join("|");
 }
@@ -185,10 +228,140 @@ export function calculateVolatility(forecasts: ForecastPoint[]): number {
   if (forecasts.length < 2) return 0;
 
   const prices = forecasts.map((f) => f.avg);
-  const mean = prices.reduce((sum, price) => sum + price, 0) / prices.length;
-  const variance =
-    prices.reduce((sum, price) => sum + Math.pow(price - mean, 2), 0) /
-    prices.length;
+  return standardDeviation(prices) / mean(prices); // Coefficient of variation
+}
+
+// Helper function to read the last bars of an indicator line with the close
+// of each bar (warm-up bars without a value are skipped)
+export function recentSeriesValues(
+  indicator: IndicatorResult,
+  line: string,
+  bars: number
+): { values: number[]; closes: number[] } {
+  const { closes, values } = indicator.series;
+  const recent = (values[line] || [])
+    .map((value, i) => ({ value, close: closes[i] }))
+    .filter((bar) => bar.value !== null)
+    .slice(-bars);
+
+  return {
+    values: recent.map((bar) => bar.value as number),
+    closes: recent.map((bar) => bar.close),
+  };
+}
+
+// Volume-flow indicators and the line of each that volume confirmation reads
+const VOLUME_FLOW_LINES: Record<string, string> = {
+  OBV: "obv",
+  AD: "ad",
+  CMF: "cmf",
+  MFI: "mfi",
+};
+
+export function isVolumeFlowIndicator(indicator: IndicatorResult): boolean {
+  return indicator.name in VOLUME_FLOW_LINES;
+}
+
+/**
+ * Read real volume behavior from the volume-flow indicators (OBV, A/D, CMF
+ * and MFI): how the last bar's volume compares with the bars before it, and
+ * which way money flowed over them
+ * @param indicators - Indicator results (other indicators are ignored)
+ * @param bars - Bars to look back over
+ * @returns Volume flow, or null when no volume-flow indicator has a series
+ */
+export function analyzeVolumeFlow(
+  indicators: IndicatorResult[],
+  bars: number
+): VolumeFlow | null {
+  const flowIndicators = indicators.filter(
+    (indicator) =>
+      isVolumeFlowIndicator(indicator) && indicator.series.dates.length > 0
+  );
+  if (flowIndicators.length === 0) return null;
+
+  // Every indicator shares the bars, so any of them has the volumes
+  const { closes, volumes } = flowIndicators[0].series;
+  const recentVolumes = volumes.slice(-bars - 1, -1);
+  const currentVolume = volumes[volumes.length - 1];
+  const avgVolume = mean(recentVolumes);
+
+  const startClose = closes[Math.max(0, closes.length - 1 - bars)];
+  const priceChange = (closes[closes.length - 1] - startClose) / startClose;
+
+  let upVolume = 0;
+  let totalVolume = 0;
+  for (let i = Math.max(1, closes.length - bars); i < closes.length; i++) {
+    if (closes[i] > closes[i - 1]) upVolume += volumes[i];
+    if (closes[i] !== closes[i - 1]) totalVolume += volumes[i];
+  }
+
+  // Each indicator scores the flow from -1 to 1: the cumulative lines by
+  // their change against the volume traded (30% counts as strong), CMF by
+  // its level (0.25 is strong) and MFI by its distance from 50
+  const clamp = (score: number) => Math.max(Math.min(score, 1), -1);
+  const traded = volumes.slice(-bars).reduce((sum, volume) => sum + volume, 0);
+  const scores = flowIndicators.map((indicator) => {
+    const { values } = recentSeriesValues(
+      indicator,
+      VOLUME_FLOW_LINES[indicator.name],
+      bars + 1
+    );
+    const last = values[values.length - 1] ?? 0;
+
+    if (indicator.name === "CMF") return clamp(last / 0.25);
+    if (indicator.name === "MFI") return clamp((last - 50) / 30);
+    return traded > 0 ? clamp((last - values[0]) / traded / 0.3) : 0;
+  });
+  const flowScore = mean(scores);
+
+  return {
+    sources: flowIndicators.map((indicator) => indicator.name),
+    currentVolume,
+    avgVolume,
+    volumeRatio: avgVolume > 0 ? currentVolume / avgVolume : 1,
+    priceChange,
+    upVolumeShare: totalVolume > 0 ? upVolume / totalVolume : 0.5,
+    flowScore,
+    flowTrend:
+      flowScore > 0.2 ? "bullish" : flowScore < -0.2 ? "bearish" : "neutral",
+  };
+}
+
+/**
+ * Find the stop that invalidates a signal: the nearest stop of a trend-stop
+ * indicator (Supertrend, Chandelier Exit, Parabolic SAR) trending with the
+ * signal and on the protective side of the last close
+ * @param indicators - Indicator results (those without a trend are ignored)
+ * @param recommendation - Signal to protect
+ * @returns Stop, or undefined for neutral signals and when no stop qualifies
+ */
+export function findSignalStop(
+  indicators: IndicatorResult[],
+  recommendation: TradeSignal["recommendation"]
+): SignalStop | undefined {
+  if (recommendation === "neutral") return undefined;
+  const long = recommendation === "buy";
+
+  const stops = indicators
+    .filter((indicator) => indicator.trend)
+    .map((indicator) => {
+      const { closes } = indicator.series;
+      const close = closes[closes.length - 1];
+      const { direction, stop } = indicator.trend!;
+      return {
+        price: stop,
+        indicator: indicator.name,
+        distance: Math.abs(close - stop) / close,
+        protective: long
+          ? direction === "up" && stop < close
+          : direction === "down" && stop > close,
+      };
+    })
+    .filter((stop) => stop.protective)
+    .sort((a, b) => a.distance - b.distance);
 
-  return Math.sqrt(variance) / mean; // Coefficient of variation
+  if (stops.length === 0) return undefined;
+  const { price, indicator, distance } = stops[0];
+  return { price, indicator, distance };
 }
@@ -1,4 +1,5 @@
 import { IndicatorResult, ForecastPoint } from "../indicators";
+import { sma, rollingStdDev, trueRange } from "../indicators/core";
 import {
   Strategy,
   StrategyConfig,
@@ -11,8 +12,20 @@ import {
   calculateAveragePrice,
   calculateTrend,
   calculateVolatility,
+  recentSeriesValues,
 } from "./types";
 
+// Close-to-close move, in ATRs of the bar before, that counts as a breakout
+const ATR_BREAKOUT_MULTIPLE = 1;
+
+// Distance between the upper and lower lines of a channel indicator over
+// the last bars
+function channelWidths(indicator: IndicatorResult, bars: number): number[] {
+  const upper = recentSeriesValues(indicator, "upper", bars).values;
+  const lower = recentSeriesValues(indicator, "lower", bars).values;
+  return upper.map((value, i) => value - lower[i]);
+}
+
 export class VolatilityBreakoutStrategy implements Strategy {
   public readonly name = "Volatility Breakout";
   public readonly description =
@@ -24,8 +37,14 @@ export class VolatilityBreakoutStrategy implements Strategy {
       string,
       { result: any; timestamp: number }
     >();
-    return (indicator: IndicatorResult, lookbackPeriod: number = 20) => {
-      const cacheKey = `volatility:${indicator.name}:${lookbackPeriod}`;
+    return (
+      indicator: IndicatorResult,
+      lookbackPeriod: number = 20,
+      atrIndicator?: IndicatorResult
+    ) => {
+      const cacheKey = `volatility:${calculateIndicatorSignature(
+        atrIndicator ? [indicator, atrIndicator] : [indicator]
+      )}:${lookbackPeriod}`;
       const cached = volatilityCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -33,39 +52,40 @@ export class VolatilityBreakoutStrategy implements Strategy {
         return cached.result;
       }
 
-      const prices = indicator.forecast.map((f) => f.avg);
-      const highs = indicator.forecast.map((f) => f.high);
-      const lows = indicator.forecast.map((f) => f.low);
-
-      // Calculate rolling volatility
-      const volatilities = [];
-      for (let i = lookbackPeriod; i < prices.length; i++) {
-        const window = prices.slice(i - lookbackPeriod, i);
-        const mean = window.reduce((sum, val) => sum + val, 0) / window.length;
-        const variance =
-          window.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) /
-          window.length;
-        volatilities.push(Math.sqrt(variance) / mean); // Coefficient of variation
-      }
-
-      // Calculate ATR (Average True Range)
-      const atr = [];
-      for (let i = 1; i < highs.length; i++) {
-        const tr = Math.max(
-          highs[i] - lows[i],
-          Math.abs(highs[i] - prices[i - 1]),
-          Math.abs(lows[i] - prices[i - 1])
+      const history = atrIndicator
+        ? recentSeriesValues(atrIndicator, "atr", 2 * lookbackPeriod)
+        : null;
+
+      let volatilities: number[];
+      let rollingATR: number[];
+      let breakoutMove = 0; // Last close-to-close move in ATRs
+
+      if (history && history.values.length > 1) {
+        // ATR of the recent bars, relative to their closes
+        rollingATR = history.values;
+        volatilities = rollingATR.map((atr, i) => atr / history.closes[i]);
+
+        // A flat market (ATR 0) has no move to measure
+        const last = rollingATR.length - 1;
+        breakoutMove =
+          rollingATR[last - 1] > 0
+            ? (history.closes[last] - history.closes[last - 1]) /
+              rollingATR[last - 1]
+            : 0;
+      } else {
+        // Without ATR, fall back to the spread of the forecast prices
+        const prices = indicator.forecast.map((f) => f.avg);
+        const highs = indicator.forecast.map((f) => f.high);
+        const lows = indicator.forecast.map((f) => f.low);
+
+        // Calculate rolling volatility (coefficient of variation)
+        const stdDevs = rollingStdDev(prices, lookbackPeriod);
+        volatilities = sma(prices, lookbackPeriod).map(
+          (mean, i) => stdDevs[i] / mean
         );
-        atr.push(tr);
-      }
 
-      // Rolling ATR
-      const rollingATR = [];
-      for (let i = lookbackPeriod; i < atr.length; i++) {
-        const window = atr.slice(i - lookbackPeriod, i);
-        rollingATR.push(
-          window.reduce((sum, val) => sum + val, 0) / window.length
-        );
+        // Rolling ATR (Average True Range)
+        rollingATR = sma(trueRange(highs, lows, prices), lookbackPeriod);
       }
 
       const currentVolatility = volatilities[volatilities.length - 1];
@@ -88,6 +108,7 @@ export class VolatilityBreakoutStrategy implements Strategy {
         avgATR,
         isCompression,
         isExpansion,
+        breakoutMove,
         volatilityRatio: currentVolatility / avgVolatility,
         atrRatio: currentATR / avgATR,
         compressionPhase: this.detectCompressionPhase(volatilities),
@@ -161,9 +182,14 @@ export class VolatilityBreakoutStrategy implements Strategy {
     const squeezeCache = new Map<string, { result: any; timestamp: number }>();
     return (
       bollingerIndicator: IndicatorResult,
-      lookbackPeriod: number = 20
+      lookbackPeriod: number = 20,
+      keltnerIndicator?: IndicatorResult
     ) => {
-      const cacheKey = `squeeze:${bollingerIndicator.name}:${lookbackPeriod}`;
+      const cacheKey = `squeeze:${calculateIndicatorSignature(
+        keltnerIndicator
+          ? [bollingerIndicator, keltnerIndicator]
+          : [bollingerIndicator]
+      )}:${lookbackPeriod}`;
       const cached = squeezeCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -171,13 +197,36 @@ export class VolatilityBreakoutStrategy implements Strategy {
         return cached.result;
       }
 
-      const forecast = bollingerIndicator.forecast;
-      const bandwidths = [];
-
-      for (let i = 0; i < forecast.length; i++) {
-        const point = forecast[i];
-        const bandwidth = (point.high - point.low) / point.avg;
-        bandwidths.push(bandwidth);
+      const bollingerWidths = keltnerIndicator
+        ? channelWidths(bollingerIndicator, lookbackPeriod)
+        : [];
+      const keltnerWidths = keltnerIndicator
+        ? channelWidths(keltnerIndicator, lookbackPeriod)
+        : [];
+      const bars = Math.min(bollingerWidths.length, keltnerWidths.length);
+
+      let bandwidths: number[];
+      let squeezeLevel: number;
+      let expansionLevel: number;
+
+      if (bars > 1) {
+        // Bollinger width in Keltner widths (ATRs): the bands squeeze inside
+        // the Keltner Channels below 1 and break out of them above it
+        const keltnerRecent = keltnerWidths.slice(-bars);
+        bandwidths = bollingerWidths
+          .slice(-bars)
+          .map((width, i) => width / keltnerRecent[i]);
+        squeezeLevel = 1;
+        expansionLevel = 1;
+      } else {
+        // Without Keltner, compare the forecast spread with its average
+        bandwidths = bollingerIndicator.forecast.map(
+          (point) => (point.high - point.low) / point.avg
+        );
+        const average =
+          bandwidths.reduce((sum, val) => sum + val, 0) / bandwidths.length;
+        squeezeLevel = average * 0.7;
+        expansionLevel = average * 1.3;
       }
 
       const avgBandwidth =
@@ -185,21 +234,21 @@ export class VolatilityBreakoutStrategy implements Strategy {
       const currentBandwidth = bandwidths[bandwidths.length - 1];
 
       // Detect squeeze (low volatility periods)
-      const isSqueeze = currentBandwidth < avgBandwidth * 0.7;
+      const isSqueeze = currentBandwidth < squeezeLevel;
       const squeezeIntensity = isSqueeze
-        ? (avgBandwidth * 0.7 - currentBandwidth) / (avgBandwidth * 0.7)
+        ? (squeezeLevel - currentBandwidth) / squeezeLevel
         : 0;
 
       // Detect expansion (high volatility periods)
-      const isExpansion = currentBandwidth > avgBandwidth * 1.3;
+      const isExpansion = currentBandwidth > expansionLevel;
       const expansionIntensity = isExpansion
-        ? (currentBandwidth - avgBandwidth * 1.3) / (avgBandwidth * 1.3)
+        ? (currentBandwidth - expansionLevel) / expansionLevel
         : 0;
 
       // Calculate squeeze duration
       let squeezeDuration = 0;
       for (let i = bandwidths.length - 1; i >= 0; i--) {
-        if (bandwidths[i] < avgBandwidth * 0.7) {
+        if (bandwidths[i] < squeezeLevel) {
           squeezeDuration++;
         } else {
           break;
@@ -239,9 +288,11 @@ export class VolatilityBreakoutStrategy implements Strategy {
       volumeIndicator?: IndicatorResult,
       momentumIndicator?: IndicatorResult
     ) => {
-      const cacheKey = `direction:${priceIndicator.name}:${
-        volumeIndicator?.name || "none"
-      }:${momentumIndicator?.name || "none"}`;
+      const cacheKey = `direction:${calculateIndicatorSignature([
+        priceIndicator,
+        ...(volumeIndicator ? [volumeIndicator] : []),
+        ...(momentumIndicator ? [momentumIndicator] : []),
+      ])}`;
       const cached = directionCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 60000) {
@@ -347,6 +398,8 @@ export class VolatilityBreakoutStrategy implements Strategy {
     const momentumIndicator =
       indicators.find((ind) => ind.name.toLowerCase().includes("macd")) ||
       indicators.find((ind) => ind.name.toLowerCase().includes("rsi"));
+    const atrIndicator = indicators.find((ind) => ind.name === "ATR");
+    const keltnerIndicator = indicators.find((ind) => ind.name === "KELTNER");
 
     if (!bollingerIndicator) {
       throw new Error(
@@ -361,13 +414,15 @@ export class VolatilityBreakoutStrategy implements Strategy {
     // Analyze volatility patterns
     const volatilityAnalysis = this.analyzeVolatilityPattern(
       priceIndicator,
-      config.lookbackPeriod
+      config.lookbackPeriod,
+      atrIndicator
     );
 
     // Analyze Bollinger Band squeeze
     const squeezeAnalysis = this.analyzeBollingerSqueeze(
       bollingerIndicator,
-      config.lookbackPeriod
+      config.lookbackPeriod,
+      keltnerIndicator
     );
 
     // Analyze breakout direction
@@ -419,6 +474,21 @@ export class VolatilityBreakoutStrategy implements Strategy {
       }
     }
 
+    // ATR breakout bar: the last close moved at least an ATR
+    if (Math.abs(volatilityAnalysis.breakoutMove) >= ATR_BREAKOUT_MULTIPLE) {
+      const bullish = volatilityAnalysis.breakoutMove > 0;
+      reasons.push(
+        `Close moved ${Math.abs(volatilityAnalysis.breakoutMove).toFixed(
+          1
+        )} ATR ${bullish ? "above" : "below"} the previous close`
+      );
+      confidenceScore += 0.2;
+
+      if (recommendation === "neutral") {
+        recommendation = bullish ? "buy" : "sell";
+      }
+    }
+
     // ATR confirmation
     if (volatilityAnalysis.atrRatio > 1.2) {
       reasons.push(
@@ -511,7 +581,11 @@ export class VolatilityBreakoutStrategy implements Strategy {
       direction: "buy" | "sell" | "neutral",
       volatilityAnalysis: any
     ): ForecastPoint[] => {
-      const cacheKey = `forecast:${config.symbol}:${config.forecastDays}:${direction}:${volatilityAnalysis.volatilityRatio}`;
+      const cacheKey = `forecast:${config.symbol}:${
+        config.forecastDays
+      }:${direction}:${
+        volatilityAnalysis.volatilityRatio
+      }:${calculateIndicatorSignature(indicators)}`;
       const cached = forecastCache.get(cacheKey);
 
       if (cached && Date.now() - cached.timestamp < 120000) {
@@ -568,6 +642,7 @@ export class VolatilityBreakoutStrategy implements Strategy {
 
         forecast.push({
           day,
+          timestamp: basePoint.timestamp,
           high: basePoint.high * volatilityFactor * volatilityMultiplier,
           low: basePoint.low * volatilityFactor * volatilityMultiplier,
           avg: basePoint.avg * volatilityFactor,
@@ -1,7 +1,29 @@
 import * as asciichart from "asciichart";
 import chalk from "chalk";
-import { IndicatorResult, ForecastPoint } from "../indicators";
+import {
+  IndicatorResult,
+  ForecastPoint,
+  seriesLines,
+  formatAccuracy,
+  hasIndicator,
+  getIndicator,
+  TrendState,
+} from "../indicators";
 import { debug } from "../index";
+import {
+  Interval,
+  describeBars,
+  intervalFromSpacing,
+} from "../data/intervals";
+import { DEFAULT_QUOTE, formatPrice, priceDecimals } from "../data/quotes";
+import { PricePoint } from "../data/fetchPrices";
+import {
+  PriceLevel,
+  PriceLevels,
+  PivotLevels,
+  levelLines,
+  nearestLevels,
+} from "../levels";
 
 // ASCII chart configuration
 const CHART_CONFIG = {
@@ -15,11 +37,55 @@ const CHART_CONFIG = {
     chalk.magenta, // Additional lines
     chalk.cyan, // Additional lines
   ],
-  format: (value: number, idx: number) => {
-    return `$${value.toFixed(2)}`.padStart(10);
+  format: (value: number, quote: string = DEFAULT_QUOTE) => {
+    return formatPrice(value, quote).padStart(10);
   },
 };
 
+// Indicator history charts: bars shown, height and line colors
+const HISTORY_CONFIG = {
+  bars: 40,
+  height: 8,
+  colors: [
+    asciichart.green,
+    asciichart.blue,
+    asciichart.red,
+    asciichart.yellow,
+    asciichart.magenta,
+  ],
+};
+
+// Price level lines: color per source and levels drawn on each side of the
+// price (asciichart colors, like HISTORY_CONFIG)
+const LEVEL_CONFIG = {
+  colors: {
+    pivot: asciichart.yellow,
+    fibonacci: asciichart.magenta,
+    zone: asciichart.cyan,
+  } as Record<PriceLevel["source"], string>,
+  perSide: 2,
+};
+
+// Most recent trend flips listed under a stop-and-reverse indicator
+const TREND_FLIPS_SHOWN = 3;
+
+// Forecast table step column header per bar interval (4 characters wide)
+const STEP_LABELS: Record<Interval, string> = {
+  "15m": "Bar ",
+  "1h": "Hour",
+  "4h": "Bar ",
+  "1d": "Day ",
+  "1w": "Week",
+  "1M": "Mon ",
+};
+
+// Bar interval of a forecast, from the spacing of its timestamps
+function forecastInterval(forecast: ForecastPoint[]): Interval {
+  return intervalFromSpacing(
+    forecast.length > 1 ? forecast[1].timestamp - forecast[0].timestamp : 0
+  );
+}
+
 // Performance cache for charts (equivalent to useMemo)
 const chartCache = new Map<
   string,
@@ -93,17 +159,28 @@ function setCachedChart(cacheKey: string, chart: string): void {
 // Generate cache key for charts
 function generateChartCacheKey(
   indicatorName: string,
-  forecast: ForecastPoint[]
+  forecast: ForecastPoint[],
+  quote: string
 ): string {
   const dataHash = forecast.map((f) => f.avg.toFixed(2)).join(",");
-  return `${indicatorName}-${forecast.length}-${dataHash.slice(0, 50)}`;
+  return `${indicatorName}-${quote}-${forecast.length}-${dataHash.slice(
+    0,
+    50
+  )}`;
 }
 
 // Plot individual indicator forecast
-export function plotIndicatorForecast(indicator: IndicatorResult): string {
+export function plotIndicatorForecast(
+  indicator: IndicatorResult,
+  quote: string = DEFAULT_QUOTE
+): string {
   cleanupChartCache();
 
-  const cacheKey = generateChartCacheKey(indicator.name, indicator.forecast);
+  const cacheKey = generateChartCacheKey(
+    indicator.name,
+    indicator.forecast,
+    quote
+  );
   const cached = getCachedChart(cacheKey);
   if (cached) return cached;
 
@@ -150,7 +227,7 @@ export function plotIndicatorForecast(indicator: IndicatorResult): string {
   try {
     const chart = asciichart.plot(cleanedChartData, {
       height: CHART_CONFIG.height,
-      format: CHART_CONFIG.format,
+      format: (value: number) => CHART_CONFIG.format(value, quote),
       padding: CHART_CONFIG.padding,
     });
 
@@ -161,7 +238,8 @@ export function plotIndicatorForecast(indicator: IndicatorResult): string {
       avgPrices,
       highPrices,
       lowPrices,
-      confidences
+      confidences,
+      quote
     );
 
     // Cache the result
@@ -181,7 +259,8 @@ function buildIndicatorVisualization(
   avgPrices: number[],
   highPrices: number[],
   lowPrices: number[],
-  confidences: number[]
+  confidences: number[],
+  quote: string
 ): string {
   const currentPrice = avgPrices[0];
   const finalPrice = avgPrices[avgPrices.length - 1];
@@ -201,7 +280,9 @@ function buildIndicatorVisualization(
   result += chalk.cyan(
     `│ ${chalk.bold.white(indicator.name.padEnd(30))} │ ${chalk.yellow(
       "Accuracy:"
-    )} ${chalk.white((indicator.accuracy * 100).toFixed(1) + "%")} │\n`
+    )} ${chalk.white(
+      formatAccuracy(indicator.accuracy, indicator.evaluation).padStart(5)
+    )} │\n`
   );
   result += chalk.cyan(
     `│ ${changeColor(
@@ -215,14 +296,21 @@ function buildIndicatorVisualization(
   // ASCII Chart
   result += chalk.green(chart) + "\n";
 
+  // Indicator lines leading up to the forecast
+  result += plotIndicatorSeries(indicator, quote);
+  if (indicator.trend) {
+    result += describeTrendState(indicator.trend, quote);
+  }
+
   // Forecast table (first 10 days or all if less)
   const displayDays = Math.min(indicator.forecast.length, 10);
+  const stepLabel = STEP_LABELS[forecastInterval(indicator.forecast)];
 
   result += chalk.yellow(
     `\n┌──────┬────────────┬────────────┬────────────┬─────────────┐\n`
   );
   result += chalk.yellow(
-    `│ Day  │    High    │    Low     │    Avg     │ Confidence  │\n`
+    `│ ${stepLabel} │    High    │    Low     │    Avg     │ Confidence  │\n`
   );
   result += chalk.yellow(
     `├──────┼────────────┼────────────┼────────────┼─────────────┤\n`
@@ -231,9 +319,9 @@ function buildIndicatorVisualization(
   for (let i = 0; i < displayDays; i++) {
     const forecast = indicator.forecast[i];
     const dayStr = forecast.day.toString().padStart(4);
-    const highStr = `$${forecast.high.toFixed(2)}`.padStart(10);
-    const lowStr = `$${forecast.low.toFixed(2)}`.padStart(10);
-    const avgStr = `$${forecast.avg.toFixed(2)}`.padStart(10);
+    const highStr = formatPrice(forecast.high, quote).padStart(10);
+    const lowStr = formatPrice(forecast.low, quote).padStart(10);
+    const avgStr = formatPrice(forecast.avg, quote).padStart(10);
     const confStr = `${(forecast.confidence * 100).toFixed(1)}%`.padStart(11);
 
     result += chalk.yellow(
@@ -247,9 +335,9 @@ function buildIndicatorVisualization(
     );
     const lastForecast = indicator.forecast[indicator.forecast.length - 1];
     const dayStr = lastForecast.day.toString().padStart(4);
-    const highStr = `$${lastForecast.high.toFixed(2)}`.padStart(10);
-    const lowStr = `$${lastForecast.low.toFixed(2)}`.padStart(10);
-    const avgStr = `$${lastForecast.avg.toFixed(2)}`.padStart(10);
+    const highStr = formatPrice(lastForecast.high, quote).padStart(10);
+    const lowStr = formatPrice(lastForecast.low, quote).padStart(10);
+    const avgStr = formatPrice(lastForecast.avg, quote).padStart(10);
     const confStr = `${(lastForecast.confidence * 100).toFixed(1)}%`.padStart(
       11
     );
@@ -266,16 +354,153 @@ function buildIndicatorVisualization(
   return result;
 }
 
+/**
+ * Chart the historical lines of an indicator (e.g. RSI, MACD and signal,
+ * Bollinger bands with the closes)
+ * @param indicator - Indicator result with its series
+ * @param quote - Quote currency for price-scale lines
+ * @param bars - Number of recent bars to chart
+ * @returns Chart with a legend, or a note when there is no history
+ */
+export function plotIndicatorSeries(
+  indicator: IndicatorResult,
+  quote: string = DEFAULT_QUOTE,
+  bars: number = HISTORY_CONFIG.bars
+): string {
+  const { series } = indicator;
+
+  // Values of each line after its warm-up, within the window
+  const defined = seriesLines(series)
+    .map((name) => {
+      const values = series.values[name].slice(-bars);
+      const warmUp = values.lastIndexOf(null);
+      return { name, values: values.slice(warmUp + 1) as number[] };
+    })
+    .filter((line) => line.values.length > 1);
+
+  if (defined.length === 0) {
+    return chalk.gray(`No ${indicator.name} history to chart\n`);
+  }
+
+  // Clip the window to the bars where every line has a value (e.g. the MACD
+  // signal warms up later than the MACD line)
+  const window = Math.min(...defined.map((line) => line.values.length));
+  const lines = defined.map((line) => ({
+    name: line.name,
+    values: line.values.slice(-window),
+  }));
+
+  // Lines that are prices are drawn with the closes
+  const onPriceScale =
+    hasIndicator(indicator.name) && !!getIndicator(indicator.name).priceScale;
+  if (onPriceScale) {
+    lines.unshift({ name: "close", values: series.closes.slice(-bars) });
+  }
+
+  const shown = lines[0].values.length;
+  const dates = series.dates.slice(-shown);
+  // asciichart colors are raw escape codes; follow chalk on whether the
+  // terminal takes colors
+  const colors = lines.map((_, i) =>
+    chalk.level > 0
+      ? HISTORY_CONFIG.colors[i % HISTORY_CONFIG.colors.length]
+      : undefined
+  );
+
+  try {
+    const chart = asciichart.plot(
+      lines.map((line) => line.values),
+      {
+        height: HISTORY_CONFIG.height,
+        colors,
+        format: (value: number) =>
+          onPriceScale
+            ? CHART_CONFIG.format(value, quote)
+            : value.toFixed(2).padStart(10),
+        padding: CHART_CONFIG.padding,
+      }
+    );
+    const legend = lines
+      .map((line, i) => asciichart.colored(`■ ${line.name}`, colors[i]))
+      .join("  ");
+
+    return (
+      chalk.gray(
+        `\n${indicator.name} over the last ${shown} bars (${dates[0]} → ${
+          dates[dates.length - 1]
+        })\n`
+      ) +
+      chart +
+      `\n${CHART_CONFIG.padding}${legend}\n`
+    );
+  } catch (error) {
+    debug.error(`Failed to chart ${indicator.name} history:`, error);
+    return chalk.red(`History chart failed for ${indicator.name}\n`);
+  }
+}
+
+// Trend, stop and recent flips of a stop-and-reverse indicator, e.g.
+// "Trend: UP since 2024-05-10 · stop $95.00 · flips: 2024-04-02 ↓, ..."
+function describeTrendState(trend: TrendState, quote: string): string {
+  const last = trend.flips[trend.flips.length - 1];
+  const flips = trend.flips
+    .slice(-TREND_FLIPS_SHOWN)
+    .map((flip) => `${flip.date} ${flip.direction === "up" ? "↑" : "↓"}`);
+  const color = trend.direction === "up" ? chalk.green : chalk.red;
+
+  return (
+    color(
+      `${CHART_CONFIG.padding}Trend: ${trend.direction.toUpperCase()}${
+        last ? ` since ${last.date}` : ""
+      } · stop ${formatPrice(trend.stop, quote)}`
+    ) +
+    chalk.gray(
+      ` · ${flips.length > 0 ? `flips: ${flips.join(", ")}` : "no flips"}\n`
+    )
+  );
+}
+
+// Chart a price line together with horizontal level lines, followed by a
+// legend of the levels
+function plotWithLevels(
+  prices: number[],
+  levels: PriceLevel[],
+  options: { height: number; format: (value: number) => string },
+  priceColor: string
+): string {
+  // asciichart colors are raw escape codes; follow chalk on whether the
+  // terminal takes colors
+  const color = (code: string) => (chalk.level > 0 ? code : undefined);
+  const colors = [
+    color(priceColor),
+    ...levels.map((level) => color(LEVEL_CONFIG.colors[level.source])),
+  ];
+
+  const chart = asciichart.plot(
+    [prices, ...levels.map((level) => prices.map(() => level.price))],
+    { ...options, colors, padding: CHART_CONFIG.padding }
+  );
+  if (levels.length === 0) {
+    return chart;
+  }
+
+  const legend = levels
+    .map((level, i) =>
+      asciichart.colored(
+        `■ ${level.label} ${options.format(level.price).trim()}`,
+        colors[i + 1]
+      )
+    )
+    .join("  ");
+  return `${chart}\n${CHART_CONFIG.padding}${legend}`;
+}
+
 // Plot combined forecast from all indicators
 export function plotCombinedForecast(
   indicators: IndicatorResult[],
-  weightedForecast: Array<{
-    day: number;
-    high: number;
-    low: number;
-    avg: number;
-    confidence: number;
-  }>
+  weightedForecast: ForecastPoint[],
+  quote: string = DEFAULT_QUOTE,
+  levels: PriceLevel[] = []
 ): string {
   debug.log(
     `Generating combined ASCII chart for ${indicators.length} indicators`
@@ -285,9 +510,11 @@ export function plotCombinedForecast(
     return chalk.red("No combined forecast data available");
   }
 
-  const cacheKey = `combined-${indicators.length}-${
+  const cacheKey = `combined-${quote}-${indicators.length}-${
     weightedForecast.length
-  }-${weightedForecast[0].avg.toFixed(2)}`;
+  }-${weightedForecast[0].avg.toFixed(2)}-${levels
+    .map((level) => level.price.toFixed(2))
+    .join(",")}`;
   const cached = getCachedChart(cacheKey);
   if (cached) return cached;
 
@@ -316,12 +543,16 @@ export function plotCombinedForecast(
       return val;
     });
 
-    // Create main chart for average prices
-    const mainChart = asciichart.plot(cleanedChartData, {
-      height: CHART_CONFIG.height + 2,
-      format: CHART_CONFIG.format,
-      padding: CHART_CONFIG.padding,
-    });
+    // Create main chart for average prices, with the nearest price levels
+    const mainChart = plotWithLevels(
+      cleanedChartData,
+      levels,
+      {
+        height: CHART_CONFIG.height + 2,
+        format: (value: number) => CHART_CONFIG.format(value, quote),
+      },
+      asciichart.green
+    );
 
     // Build complete combined visualization
     const result = buildCombinedVisualization(
@@ -331,7 +562,8 @@ export function plotCombinedForecast(
       avgPrices,
       highPrices,
       lowPrices,
-      confidences
+      confidences,
+      quote
     );
 
     // Cache the result
@@ -347,18 +579,13 @@ export function plotCombinedForecast(
 // Build complete combined visualization
 function buildCombinedVisualization(
   indicators: IndicatorResult[],
-  weightedForecast: Array<{
-    day: number;
-    high: number;
-    low: number;
-    avg: number;
-    confidence: number;
-  }>,
+  weightedForecast: ForecastPoint[],
   chart: string,
   avgPrices: number[],
   highPrices: number[],
   lowPrices: number[],
-  confidences: number[]
+  confidences: number[],
+  quote: string
 ): string {
   const currentPrice = avgPrices[0];
   const finalPrice = avgPrices[avgPrices.length - 1];
@@ -370,6 +597,7 @@ function buildCombinedVisualization(
   const totalWeight = indicators
     .reduce((sum, ind) => sum + ind.weight, 0)
     .toFixed(2);
+  const interval = forecastInterval(weightedForecast);
 
   const changeColor = priceChange >= 0 ? chalk.green : chalk.red;
   const changeSymbol = priceChange >= 0 ? "📈" : "📉";
@@ -382,7 +610,7 @@ function buildCombinedVisualization(
     `│ ${chalk.bold.white("🎯 COMBINED FORECAST")} ${" ".repeat(
       16
     )} │ ${chalk.yellow("Indicators:")} ${chalk.white(
-      indicators.length + "/10"
+      String(indicators.length).padEnd(5)
     )} │\n`
   );
   result += chalk.magenta(
@@ -393,7 +621,7 @@ function buildCombinedVisualization(
     )} ${chalk.white(totalWeight)} │\n`
   );
   result += chalk.magenta(
-    `│ Period: ${weightedForecast.length} days${" ".repeat(
+    `│ Period: ${describeBars(weightedForecast.length, interval)}${" ".repeat(
       25
     )} │ ${chalk.yellow("Avg Confidence:")} ${chalk.white(
       avgConfidence + "%"
@@ -410,20 +638,22 @@ function buildCombinedVisualization(
   const priceRange = maxPrice - minPrice;
 
   result += chalk.blue(`\n📊 Price Analysis:\n`);
-  result += chalk.blue(`   Current: $${currentPrice.toFixed(2)}\n`);
+  result += chalk.blue(`   Current: ${formatPrice(currentPrice, quote)}\n`);
   result += chalk.blue(
-    `   Target:  $${finalPrice.toFixed(2)} (${changeColor(
+    `   Target:  ${formatPrice(finalPrice, quote)} (${changeColor(
       percentChange + "%"
     )})\n`
   );
   result += chalk.blue(
-    `   Range:   $${minPrice.toFixed(2)} - $${maxPrice.toFixed(
-      2
-    )} (±$${priceRange.toFixed(2)})\n`
+    `   Range:   ${formatPrice(minPrice, quote)} - ${formatPrice(
+      maxPrice,
+      quote
+    )} (±${formatPrice(priceRange, quote)})\n`
   );
 
-  // Top performing indicators
+  // Top performing indicators (of those whose accuracy could be measured)
   const sortedIndicators = indicators
+    .filter((ind) => ind.evaluation?.samples !== 0)
     .sort((a, b) => b.accuracy - a.accuracy)
     .slice(0, 3);
 
@@ -439,12 +669,13 @@ function buildCombinedVisualization(
 
   // Detailed forecast table (first 10 days)
   const displayDays = Math.min(weightedForecast.length, 10);
+  const stepLabel = STEP_LABELS[interval];
 
   result += chalk.yellow(
     `\n┌──────┬────────────┬────────────┬────────────┬─────────────┐\n`
   );
   result += chalk.yellow(
-    `│ Day  │    High    │    Low     │    Avg     │ Confidence  │\n`
+    `│ ${stepLabel} │    High    │    Low     │    Avg     │ Confidence  │\n`
   );
   result += chalk.yellow(
     `├──────┼────────────┼────────────┼────────────┼─────────────┤\n`
@@ -453,9 +684,9 @@ function buildCombinedVisualization(
   for (let i = 0; i < displayDays; i++) {
     const forecast = weightedForecast[i];
     const dayStr = forecast.day.toString().padStart(4);
-    const highStr = `$${forecast.high.toFixed(2)}`.padStart(10);
-    const lowStr = `$${forecast.low.toFixed(2)}`.padStart(10);
-    const avgStr = `$${forecast.avg.toFixed(2)}`.padStart(10);
+    const highStr = formatPrice(forecast.high, quote).padStart(10);
+    const lowStr = formatPrice(forecast.low, quote).padStart(10);
+    const avgStr = formatPrice(forecast.avg, quote).padStart(10);
     const confStr = `${(forecast.confidence * 100).toFixed(1)}%`.padStart(11);
 
     result += chalk.yellow(
@@ -469,9 +700,9 @@ function buildCombinedVisualization(
     );
     const lastForecast = weightedForecast[weightedForecast.length - 1];
     const dayStr = lastForecast.day.toString().padStart(4);
-    const highStr = `$${lastForecast.high.toFixed(2)}`.padStart(10);
-    const lowStr = `$${lastForecast.low.toFixed(2)}`.padStart(10);
-    const avgStr = `$${lastForecast.avg.toFixed(2)}`.padStart(10);
+    const highStr = formatPrice(lastForecast.high, quote).padStart(10);
+    const lowStr = formatPrice(lastForecast.low, quote).padStart(10);
+    const avgStr = formatPrice(lastForecast.avg, quote).padStart(10);
     const confStr = `${(lastForecast.confidence * 100).toFixed(1)}%`.padStart(
       11
     );
@@ -489,7 +720,10 @@ function buildCombinedVisualization(
 }
 
 // Plot all indicators with individual charts
-export function plotAllIndicators(indicators: IndicatorResult[]): string {
+export function plotAllIndicators(
+  indicators: IndicatorResult[],
+  quote: string = DEFAULT_QUOTE
+): string {
   debug.log(
     `Generating individual ASCII charts for ${indicators.length} indicators`
   );
@@ -498,7 +732,7 @@ export function plotAllIndicators(indicators: IndicatorResult[]): string {
   result += chalk.gray(`${"═".repeat(70)}\n`);
 
   indicators.forEach((indicator, index) => {
-    result += plotIndicatorForecast(indicator);
+    result += plotIndicatorForecast(indicator, quote);
 
     // Add separator between indicators (except for the last one)
     if (index < indicators.length - 1) {
@@ -529,7 +763,9 @@ export function clearChartCaches(): void {
 export function plotPriceComparison(
   currentPrice: number,
   forecastPrices: number[],
-  symbol: string
+  symbol: string,
+  quote: string = DEFAULT_QUOTE,
+  levels: PriceLevel[] = []
 ): string {
   debug.log(`Generating price comparison chart for ${symbol}`);
 
@@ -560,11 +796,16 @@ export function plotPriceComparison(
   });
 
   try {
-    const chart = asciichart.plot(cleanedPriceData, {
-      height: 10,
-      format: (value: number) => `$${value.toFixed(0)}`,
-      padding: "  ",
-    });
+    const chart = plotWithLevels(
+      cleanedPriceData,
+      levels,
+      {
+        height: 10,
+        format: (value: number) =>
+          formatPrice(value, quote, value >= 1 ? 0 : priceDecimals(value)),
+      },
+      asciichart.blue
+    );
 
     const priceChange =
       forecastPrices[forecastPrices.length - 1] - currentPrice;
@@ -576,9 +817,10 @@ export function plotPriceComparison(
     result += chalk.gray(`${"─".repeat(50)}\n`);
     result += chalk.blue(chart) + "\n";
     result += chalk.white(
-      `Current: $${currentPrice.toFixed(2)} → Target: $${forecastPrices[
-        forecastPrices.length - 1
-      ].toFixed(2)}\n`
+      `Current: ${formatPrice(currentPrice, quote)} → Target: ${formatPrice(
+        forecastPrices[forecastPrices.length - 1],
+        quote
+      )}\n`
     );
     result += chalk.white(
       `Expected Change: ${changeColor(percentChange + "%")}\n`
@@ -594,6 +836,113 @@ export function plotPriceComparison(
   }
 }
 
+/**
+ * Chart the recent closes against the price levels nearest to the last
+ * close, followed by the pivots, Fibonacci retracement and support/resistance
+ * zones
+ * @param bars - Price history the levels were calculated from
+ * @param levels - Levels of that history (calculatePriceLevels)
+ * @param quote - Quote currency for prices
+ * @returns Chart with a legend and the level tables
+ */
+export function plotPriceLevels(
+  bars: PricePoint[],
+  levels: PriceLevels,
+  quote: string = DEFAULT_QUOTE
+): string {
+  debug.log(`Generating price levels chart for ${bars.length} bars`);
+
+  const recent = bars.slice(-HISTORY_CONFIG.bars);
+  if (recent.length < 2) {
+    return chalk.gray("Not enough price history to chart levels\n");
+  }
+
+  const format = (value: number) => formatPrice(value, quote);
+  let result = chalk.bold.yellow(`\n📏 PRICE LEVELS\n`);
+  result += chalk.gray(`${"═".repeat(70)}\n`);
+
+  try {
+    const shown = nearestLevels(
+      levelLines(levels),
+      levels.close,
+      LEVEL_CONFIG.perSide
+    );
+    result += chalk.gray(
+      `Last ${recent.length} closes (${recent[0].date} → ${
+        recent[recent.length - 1].date
+      }) with the nearest levels\n`
+    );
+    result +=
+      plotWithLevels(
+        recent.map((bar) => bar.close),
+        shown,
+        {
+          height: HISTORY_CONFIG.height + 2,
+          format: (value: number) => CHART_CONFIG.format(value, quote),
+        },
+        asciichart.green
+      ) + "\n";
+  } catch (error) {
+    debug.error("Failed to generate price levels chart:", error);
+    result += chalk.red("Price levels chart generation failed\n");
+  }
+
+  // Pivots, one row per method
+  if (levels.pivots) {
+    const { period, date, classic, camarilla, fibonacci } = levels.pivots;
+    const row = (name: string, pivots: PivotLevels) =>
+      `   ${name.padEnd(10)} P ${format(pivots.pivot)}  R ${pivots.resistances
+        .map(format)
+        .join(" / ")}  S ${pivots.supports.map(format).join(" / ")}\n`;
+
+    result += chalk.yellow(`\n📌 Pivots (${period} from ${date}):\n`);
+    result += chalk.yellow(row("Classic", classic));
+    result += chalk.yellow(row("Camarilla", camarilla));
+    result += chalk.yellow(row("Fibonacci", fibonacci));
+  } else {
+    result += chalk.gray(`\n📌 Pivots: no completed pivot period yet\n`);
+  }
+
+  // Retracement of the last swing
+  if (levels.retracement) {
+    const { direction, swingHigh, swingLow } = levels.retracement;
+    const [start, end] =
+      direction === "up" ? [swingLow, swingHigh] : [swingHigh, swingLow];
+    result += chalk.magenta(
+      `\n🌀 Fibonacci retracement (${direction} swing ${format(
+        start.price
+      )} on ${start.date} → ${format(end.price)} on ${end.date}):\n`
+    );
+    result += chalk.magenta(
+      `   ${levels.retracement.levels
+        .map(
+          ({ ratio, price }) => `${(ratio * 100).toFixed(1)}% ${format(price)}`
+        )
+        .join("  ")}\n`
+    );
+  }
+
+  // Support/resistance zones, highest first
+  result += chalk.cyan(`\n🧱 Support/resistance zones:\n`);
+  if (levels.zones.length === 0) {
+    result += chalk.gray(`   No zones with enough touches\n`);
+  }
+  levels.zones.forEach((zone) => {
+    const nearest =
+      zone === levels.nearestSupport || zone === levels.nearestResistance;
+    const color = zone.kind === "support" ? chalk.green : chalk.red;
+    result += color(
+      `   ${zone.kind.padEnd(10)} ${format(zone.price).padStart(12)}  (${format(
+        zone.low
+      )} - ${format(zone.high)}, ${zone.touches} touches, last ${
+        zone.lastTouch
+      })${nearest ? " ◀ nearest" : ""}\n`
+    );
+  });
+
+  return result;
+}
+
 // Debug chart cache contents
 export function debugChartCacheContents(): void {
   debug.log("Chart cache contents:");
@@ -0,0 +1,104 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { setVerboseLogging } from "../src/index";
+import { BinanceProvider } from "../src/data/providers/binanceProvider";
+import {
+  startMockBinanceServer,
+  MockServer,
+} from "../src/dev/mockBinanceServer";
+import btcHourly from "../src/dev/fixtures/binance/BTCUSDT-1h.json";
+
+// One retry on 1s Retry-After keeps the rate limit test short (read when the
+// shared scheduler is created)
+process.env.CRYPTO_FORECAST_MAX_RETRIES = "1";
+
+const PAGE_LIMIT = 24;
+
+let server: MockServer;
+let limited: MockServer;
+
+before(async () => {
+  setVerboseLogging(false);
+  server = await startMockBinanceServer({ port: 0, pageLimit: PAGE_LIMIT });
+  limited = await startMockBinanceServer({ port: 0, rateLimitEvery: 1 });
+});
+
+after(async () => {
+  await server.close();
+  await limited.close();
+});
+
+test("pages through klines until the range end", async () => {
+  const provider = new BinanceProvider(server.url);
+  const before = server.requests();
+
+  const bars = await provider.fetchHistory("BTC", 4, "1h", { quote: "USD" });
+
+  // The fixture holds exactly four days of hours, ending at the current bar
+  assert.equal(bars.length, btcHourly.length);
+  assert.equal(server.requests() - before, btcHourly.length / PAGE_LIMIT);
+  bars.slice(1).forEach((bar, index) => {
+    assert.equal(bar.timestamp - bars[index].timestamp, 3600000);
+  });
+  assert.deepEqual(
+    bars.map((bar) => bar.close),
+    btcHourly.map((kline) => parseFloat(kline[4] as string))
+  );
+});
+
+test("maps kline fields to bars with quote volume", async () => {
+  const provider = new BinanceProvider(server.url);
+
+  const bars = await provider.fetchHistory("BTC", 1, "1h", { quote: "USD" });
+  const last = bars[bars.length - 1];
+  const kline = btcHourly[btcHourly.length - 1];
+
+  assert.equal(last.open, parseFloat(kline[1] as string));
+  assert.equal(last.high, parseFloat(kline[2] as string));
+  assert.equal(last.low, parseFloat(kline[3] as string));
+  assert.equal(last.close, 65543.97);
+  assert.equal(last.volume, parseFloat(kline[7] as string));
+  assert.equal(last.trades, kline[8]);
+});
+
+test("serves the ticker of the interval last read", async () => {
+  const provider = new BinanceProvider(server.url);
+
+  await provider.fetchHistory("BTC", 2, "1h", { quote: "USD" });
+  assert.equal(await provider.fetchCurrentPrice("BTC", "USD"), 65543.97);
+});
+
+test("reports markets Binance does not list", async () => {
+  const provider = new BinanceProvider(server.url);
+
+  await assert.rejects(
+    provider.fetchHistory("NOPE", 4, "1d", { quote: "USD" }),
+    { message: "Binance has no NOPEUSDT market" }
+  );
+  await assert.rejects(provider.fetchCurrentPrice("NOPE", "USD"), {
+    message: "Binance has no NOPEUSDT market",
+  });
+});
+
+test("passes Binance's reason for other invalid requests", async () => {
+  const provider = new BinanceProvider(server.url);
+
+  // The mock only has daily ETH klines
+  await assert.rejects(
+    provider.fetchHistory("ETH", 4, "1h", { quote: "USD" }),
+    { message: "Invalid request for ETHUSDT: Invalid interval." }
+  );
+});
+
+test("reports the rate limit once retries run out", async () => {
+  const provider = new BinanceProvider(limited.url);
+
+  await assert.rejects(
+    provider.fetchHistory("BTC", 4, "1d", { quote: "USD" }),
+    {
+      message:
+        "Binance rate limit exceeded after retrying. Please try again later.",
+    }
+  );
+  assert.equal(limited.requests(), 2);
+});
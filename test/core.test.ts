@@ -0,0 +1,189 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  StreamingCalculator,
+  SMA,
+  EMA,
+  WilderSmoothing,
+  RollingStdDev,
+  RollingMax,
+  RollingMin,
+  TrueRange,
+  AverageTrueRange,
+  OnBalanceVolume,
+  AccumulationDistribution,
+  BarVolume,
+  sma,
+  ema,
+  wilderSmooth,
+  rollingStdDev,
+  rollingMax,
+  rollingMin,
+  trueRange,
+  onBalanceVolume,
+  accumulationDistribution,
+} from "../src/indicators/core";
+
+// Bars of a noisy wave, with flat stretches and repeated extremes
+const bars: BarVolume[] = Array.from({ length: 300 }, (_, i) => {
+  const close =
+    i % 50 < 5 ? 100 : 100 + 20 * Math.sin(i / 9) + ((i * 7919) % 13) - 6;
+  return {
+    close,
+    high: close + ((i * 31) % 5),
+    low: close - ((i * 17) % 4),
+    volume: 1000 + ((i * 97) % 400),
+  };
+});
+const closes = bars.map((bar) => bar.close);
+const highs = bars.map((bar) => bar.high);
+const lows = bars.map((bar) => bar.low);
+const volumes = bars.map((bar) => bar.volume);
+
+// Push inputs one at a time, checking value after every push
+function pushAll<T>(calculator: StreamingCalculator<T>, inputs: T[]) {
+  const results: number[] = [];
+  inputs.forEach((input) => {
+    const result = calculator.push(input);
+    assert.equal(calculator.value, result);
+    if (result !== null) {
+      results.push(result);
+    }
+  });
+  return results;
+}
+
+const cases: {
+  name: string;
+  create: () => StreamingCalculator<any>;
+  inputs: any[];
+  batch: number[];
+  warmUp: number; // Inputs before the first result
+}[] = [
+  {
+    name: "SMA",
+    create: () => new SMA(20),
+    inputs: closes,
+    batch: sma(closes, 20),
+    warmUp: 19,
+  },
+  {
+    name: "EMA",
+    create: () => new EMA(12),
+    inputs: closes,
+    batch: ema(closes, 12),
+    warmUp: 11,
+  },
+  {
+    name: "WilderSmoothing",
+    create: () => new WilderSmoothing(14),
+    inputs: closes,
+    batch: wilderSmooth(closes, 14),
+    warmUp: 13,
+  },
+  {
+    name: "RollingStdDev",
+    create: () => new RollingStdDev(20),
+    inputs: closes,
+    batch: rollingStdDev(closes, 20),
+    warmUp: 19,
+  },
+  {
+    name: "RollingMax",
+    create: () => new RollingMax(26),
+    inputs: highs,
+    batch: rollingMax(highs, 26),
+    warmUp: 25,
+  },
+  {
+    name: "RollingMin",
+    create: () => new RollingMin(26),
+    inputs: lows,
+    batch: rollingMin(lows, 26),
+    warmUp: 25,
+  },
+  {
+    name: "TrueRange",
+    create: () => new TrueRange(),
+    inputs: bars,
+    batch: trueRange(highs, lows, closes),
+    warmUp: 1,
+  },
+  {
+    name: "AverageTrueRange",
+    create: () => new AverageTrueRange(14),
+    inputs: bars,
+    batch: wilderSmooth(trueRange(highs, lows, closes), 14),
+    warmUp: 14,
+  },
+  {
+    name: "OnBalanceVolume",
+    create: () => new OnBalanceVolume(),
+    inputs: bars,
+    batch: onBalanceVolume(closes, volumes),
+    warmUp: 0,
+  },
+  {
+    name: "AccumulationDistribution",
+    create: () => new AccumulationDistribution(),
+    inputs: bars,
+    batch: accumulationDistribution(highs, lows, closes, volumes),
+    warmUp: 0,
+  },
+];
+
+cases.forEach(({ name, create, inputs, batch, warmUp }) => {
+  test(`${name} pushed bar by bar matches the batch function`, () => {
+    const calculator = create();
+    assert.equal(calculator.value, null);
+
+    const streamed = pushAll(calculator, inputs);
+
+    assert.equal(streamed.length, inputs.length - warmUp);
+    assert.deepEqual(streamed, batch);
+  });
+
+  test(`${name} starts over after reset`, () => {
+    const calculator = create();
+    pushAll(calculator, inputs.slice(0, 100));
+    calculator.reset();
+    assert.equal(calculator.value, null);
+
+    assert.deepEqual(pushAll(calculator, inputs), batch);
+  });
+});
+
+// Straightforward window recalculations to check the incremental math
+const windowOf = (values: number[], period: number) =>
+  values.slice(period - 1).map((_, i) => values.slice(i, i + period));
+
+test("rolling windows match their direct calculation", () => {
+  const close = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+  const averages = sma(closes, 20);
+  const deviations = rollingStdDev(closes, 20);
+
+  windowOf(closes, 20).forEach((window, i) => {
+    const mean = window.reduce((sum, value) => sum + value, 0) / 20;
+    const std = Math.sqrt(
+      window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / 20
+    );
+    assert.ok(close(averages[i], mean), `SMA at ${i}`);
+    assert.ok(close(deviations[i], std), `std dev at ${i}`);
+  });
+  assert.deepEqual(
+    rollingMax(highs, 26),
+    windowOf(highs, 26).map((window) => Math.max(...window))
+  );
+  assert.deepEqual(
+    rollingMin(lows, 26),
+    windowOf(lows, 26).map((window) => Math.min(...window))
+  );
+});
+
+test("EMA is seeded with the SMA of its first period", () => {
+  const [seed, next] = ema(closes, 12);
+  const average = closes.slice(0, 12).reduce((sum, v) => sum + v, 0) / 12;
+
+  assert.equal(seed, average);
+  assert.equal(next, closes[12] * (2 / 13) + average * (1 - 2 / 13));
+});
@@ -0,0 +1,34 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { setVerboseLogging } from "../src/index";
+import { PricePoint } from "../src/data/fetchPrices";
+import { calculateAllIndicators } from "../src/indicators";
+
+before(() => setVerboseLogging(false));
+
+// Daily bars of a wave, identical in length and last bar
+function bars(dip: number): PricePoint[] {
+  return Array.from({ length: 60 }, (_, i) => {
+    const close = 100 + 10 * Math.sin(i / 5) - (i === 30 ? dip : 0);
+    const timestamp = Date.UTC(2024, 0, 1) + i * 86400000;
+    return {
+      timestamp,
+      date: new Date(timestamp).toISOString().slice(0, 10),
+      open: close,
+      high: close + 1,
+      low: close - 1,
+      close,
+      volume: 1000,
+    };
+  });
+}
+
+test("does not share results between series that differ mid-way", async () => {
+  const rsi = (series: PricePoint[]) =>
+    calculateAllIndicators("X", series, 10, "1d", undefined, ["RSI"]);
+  const [raw] = await rsi(bars(0));
+  const [repaired] = await rsi(bars(20));
+
+  assert.notDeepEqual(repaired.series.values.rsi, raw.series.values.rsi);
+  assert.notDeepEqual(repaired.series.closes, raw.series.closes);
+});
@@ -0,0 +1,155 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { setVerboseLogging } from "../src/index";
+import { registerProvider } from "../src/data/providers";
+import { BinanceProvider } from "../src/data/providers/binanceProvider";
+import { PollingPriceFeed, PriceTick, applyTick } from "../src/data/liveFeed";
+import { alignToInterval } from "../src/data/intervals";
+import {
+  startMockBinanceServer,
+  MockServer,
+} from "../src/dev/mockBinanceServer";
+
+const TICK_WAVE = 0.01;
+const LAST_CLOSE = 65543.97; // Close of the last BTCUSDT hourly kline
+const HOUR = 3600000;
+
+let server: MockServer;
+
+before(async () => {
+  setVerboseLogging(false);
+  server = await startMockBinanceServer({ port: 0, tickWave: TICK_WAVE });
+  registerProvider(new BinanceProvider(server.url));
+});
+
+after(() => server.close());
+
+// Run a feed until it delivered count ticks
+function collectTicks(
+  feed: PollingPriceFeed,
+  count: number
+): Promise<PriceTick[]> {
+  return new Promise((resolve, reject) => {
+    const ticks: PriceTick[] = [];
+    feed.start((tick) => {
+      ticks.push(tick);
+      if (ticks.length === count) {
+        feed.stop();
+        resolve(ticks);
+      }
+    }, reject);
+  });
+}
+
+// Price of the k-th ticker request of the mock (one wave is 16 requests)
+const wavePrice = (k: number) =>
+  parseFloat(
+    (LAST_CLOSE * (1 + TICK_WAVE * Math.sin((2 * Math.PI * k) / 16))).toFixed(2)
+  );
+
+test("polls ticker prices into the forming bar", async () => {
+  const history = await new BinanceProvider(server.url).fetchHistory(
+    "BTC",
+    2,
+    "1h",
+    { quote: "USD" }
+  );
+  const feed = new PollingPriceFeed("BTC", {
+    provider: "binance",
+    quote: "USD",
+    pollMs: 10,
+  });
+
+  const ticks = await collectTicks(feed, 6);
+
+  assert.deepEqual(
+    ticks.map((tick) => tick.price),
+    [0, 1, 2, 3, 4, 5].map(wavePrice)
+  );
+  assert.deepEqual(feed.getStats(), { running: false, ticks: 6, failures: 0 });
+
+  // The mock's klines end at the current hour, which the ticks fall in
+  let bars = history;
+  ticks.forEach((tick) => {
+    assert.equal(
+      alignToInterval(tick.timestamp, "1h"),
+      history[history.length - 1].timestamp
+    );
+    const update = applyTick(bars, tick, "1h");
+    assert.equal(update.opened, false);
+    bars = update.bars;
+  });
+
+  const prices = ticks.map((tick) => tick.price);
+  const forming = bars[bars.length - 1];
+  const original = history[history.length - 1];
+  assert.equal(bars.length, history.length);
+  assert.deepEqual(bars.slice(0, -1), history.slice(0, -1));
+  assert.deepEqual(forming, {
+    ...original,
+    close: prices[prices.length - 1],
+    high: Math.max(original.high, ...prices),
+    low: Math.min(original.low, ...prices),
+  });
+});
+
+test("opens a new bar at the previous close when the hour rolls over", async () => {
+  const bars = await new BinanceProvider(server.url).fetchHistory(
+    "BTC",
+    2,
+    "1h",
+    { quote: "USD" }
+  );
+  const last = bars[bars.length - 1];
+
+  const update = applyTick(
+    bars,
+    { price: last.close + 50, timestamp: last.timestamp + HOUR + 60000 },
+    "1h"
+  );
+
+  assert.equal(update.opened, true);
+  assert.equal(update.bars.length, bars.length + 1);
+  assert.deepEqual(update.bars.slice(0, -1), bars);
+  const opened = update.bars[update.bars.length - 1];
+  assert.equal(opened.timestamp, last.timestamp + HOUR);
+  assert.deepEqual(
+    [opened.open, opened.high, opened.low, opened.close, opened.volume],
+    [last.close, last.close + 50, last.close, last.close + 50, 0]
+  );
+
+  // A late tick for the closed bar changes nothing
+  const late = applyTick(
+    update.bars,
+    { price: 1, timestamp: last.timestamp + 1000 },
+    "1h"
+  );
+  assert.equal(late.opened, false);
+  assert.equal(late.bars, update.bars);
+});
+
+test("stops after maxFailures failed polls in a row", async () => {
+  const feed = new PollingPriceFeed("NOPE", {
+    provider: "binance",
+    quote: "USD",
+    pollMs: 10,
+    maxFailures: 3,
+  });
+  const before = server.requests();
+  let ticks = 0;
+
+  const error = await new Promise<Error>((resolve) =>
+    feed.start(() => {
+      ticks++;
+    }, resolve)
+  );
+
+  assert.match(error.message, /Binance has no NOPEUSDT market/);
+  assert.equal(ticks, 0);
+  assert.deepEqual(feed.getStats(), { running: false, ticks: 0, failures: 3 });
+  assert.equal(server.requests() - before, 3);
+
+  // No poll is scheduled after the feed gave up
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(server.requests() - before, 3);
+});
@@ -0,0 +1,84 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { setVerboseLogging } from "../src/index";
+import { PricePoint } from "../src/data/fetchPrices";
+import { PriceTick, applyTick } from "../src/data/liveFeed";
+import {
+  IndicatorResult,
+  LiveIndicators,
+  calculateAllIndicators,
+  clearIndicatorCaches,
+} from "../src/indicators";
+import { getDefaultIndicatorParams } from "../src/indicators/params";
+import { getIndicatorIds } from "../src/indicators/registry";
+
+before(() => setVerboseLogging(false));
+
+const HOUR = 3600000;
+const START = Date.UTC(2024, 0, 1);
+
+// Hourly bars of a noisy wave
+const history: PricePoint[] = Array.from({ length: 150 }, (_, i) => {
+  const close = 100 + 10 * Math.sin(i / 7) + ((i * 7919) % 11) / 5;
+  const timestamp = START + i * HOUR;
+  return {
+    timestamp,
+    date: new Date(timestamp).toISOString(),
+    open: close - 0.5,
+    high: close + 1 + (i % 3),
+    low: close - 1 - (i % 4),
+    close,
+    volume: 1000 + ((i * 97) % 400),
+  };
+});
+
+// Ticks on the forming bar (a new high and a new low), then two more hours
+const last = START + 149 * HOUR;
+const ticks: PriceTick[] = [
+  { price: 104, timestamp: last + 60000 },
+  { price: 130, timestamp: last + 120000 },
+  { price: 80, timestamp: last + 180000 },
+  { price: 101, timestamp: last + HOUR + 60000 },
+  { price: 99, timestamp: last + HOUR + 120000 },
+  { price: 102, timestamp: last + 2 * HOUR + 60000 },
+];
+
+// Everything but the accuracy, which live updates score on closed bars
+const calculated = (results: IndicatorResult[]) =>
+  results.map(({ name, forecast, series, trend }) => ({
+    name,
+    forecast,
+    series,
+    trend,
+  }));
+
+async function calculateAll(bars: PricePoint[]) {
+  clearIndicatorCaches();
+  return calculateAllIndicators("X", bars, 10, "1h");
+}
+
+test("live updates match a full calculation after every tick", async () => {
+  const live = new LiveIndicators("X", {
+    forecastDays: 10,
+    interval: "1h",
+    params: getDefaultIndicatorParams(),
+    indicators: getIndicatorIds(),
+  });
+  let bars = history;
+
+  for (const tick of ticks) {
+    bars = applyTick(bars, tick, "1h").bars;
+    clearIndicatorCaches();
+    const updated = await live.update(bars);
+    const full = await calculateAll(bars);
+    const closed = await calculateAll(bars.slice(0, -1));
+
+    assert.equal(updated.length, getIndicatorIds().length);
+    assert.deepEqual(calculated(updated), calculated(full));
+    assert.deepEqual(
+      updated.map((result) => result.evaluation),
+      closed.map((result) => result.evaluation)
+    );
+  }
+  assert.equal(bars.length, history.length + 2);
+});
@@ -0,0 +1,118 @@
+import { test, before, after, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { setVerboseLogging } from "../src/index";
+import { BinanceProvider } from "../src/data/providers/binanceProvider";
+import {
+  configureRecorder,
+  getRecording,
+  recordedGet,
+} from "../src/data/providers/recorder";
+import { getScheduler } from "../src/data/providers/scheduler";
+import {
+  startMockBinanceServer,
+  MockServer,
+} from "../src/dev/mockBinanceServer";
+
+// Retry on 1s Retry-After without the default backoff (read when the shared
+// scheduler is created)
+process.env.CRYPTO_FORECAST_RETRY_DELAY = "0";
+
+let server: MockServer;
+let directory = "";
+
+before(async () => {
+  setVerboseLogging(false);
+  server = await startMockBinanceServer({
+    port: 0,
+    pageLimit: 24,
+    rateLimitEvery: 3,
+  });
+});
+
+after(() => server.close());
+
+afterEach(() => {
+  configureRecorder("live");
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+// Run the same requests as a forecast followed by a watch poll
+async function fetchAll(provider: BinanceProvider) {
+  const bars = await provider.fetchHistory("BTC", 4, "1h", { quote: "USD" });
+  const price = await provider.fetchCurrentPrice("BTC", "USD");
+  return { bars, price };
+}
+
+function readRecording() {
+  return getRecording()!.responses.map((entry) => ({
+    entry,
+    ...JSON.parse(fs.readFileSync(path.join(directory, entry.file), "utf8")),
+  }));
+}
+
+test("replays a recorded run with the same results", async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "recording-"));
+  const provider = new BinanceProvider(server.url);
+
+  configureRecorder("record", directory);
+  const recorded = await fetchAll(provider);
+  const sent = server.requests();
+
+  // Rate limited attempts were retried while recording, not recorded
+  assert.ok(sent > getRecording()!.responses.length);
+  assert.ok(
+    getRecording()!.responses.every((entry) => entry.status === 200)
+  );
+
+  configureRecorder("replay", directory);
+  const replayed = await fetchAll(provider);
+
+  assert.deepEqual(replayed, recorded);
+  assert.equal(server.requests(), sent, "replay sent requests");
+});
+
+test("replays the recorded bytes of every response", async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "recording-"));
+  const provider = new BinanceProvider(server.url);
+
+  configureRecorder("record", directory);
+  await fetchAll(provider);
+  await assert.rejects(provider.fetchCurrentPrice("NOPE", "USD"));
+  const responses = readRecording();
+  assert.equal(responses[responses.length - 1].status, 400);
+
+  configureRecorder("replay", directory);
+  const scheduler = getScheduler("binance");
+  for (const { entry, body, status, headers } of responses) {
+    const response = await recordedGet(
+      scheduler,
+      entry.url,
+      entry.params,
+      {},
+      1000,
+      "replay"
+    ).catch((error) => error.response);
+
+    assert.equal(response.status, status);
+    assert.deepEqual(response.headers, headers);
+    assert.equal(JSON.stringify(response.data), body);
+  }
+});
+
+test("refuses requests that were not recorded", async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "recording-"));
+  const provider = new BinanceProvider(server.url);
+
+  configureRecorder("record", directory);
+  await provider.fetchCurrentPrice("BTC", "USD");
+
+  configureRecorder("replay", directory);
+  await provider.fetchCurrentPrice("BTC", "USD");
+  await assert.rejects(
+    provider.fetchCurrentPrice("BTC", "USD"),
+    /No recorded response for GET \/api\/v3\/ticker\/price\?symbol=BTCUSDT/
+  );
+});
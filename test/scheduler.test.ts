@@ -0,0 +1,160 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import axios from "axios";
+import { setVerboseLogging } from "../src/index";
+import { RequestScheduler } from "../src/data/providers/scheduler";
+
+// Local API whose answers the tests script: each request is passed to the
+// current handler together with the number of requests in flight
+type Handler = (res: http.ServerResponse, inFlight: number) => void;
+
+let server: http.Server;
+let baseUrl = "";
+let handler: Handler = (res) => res.end("{}");
+let inFlight = 0;
+let requests = 0;
+
+before(async () => {
+  setVerboseLogging(false);
+  server = http.createServer((req, res) => {
+    requests++;
+    inFlight++;
+    res.on("finish", () => inFlight--);
+    handler(res, inFlight);
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+function reset(next: Handler) {
+  handler = next;
+  requests = 0;
+}
+
+function reply(res: http.ServerResponse, status: number, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ status }));
+}
+
+const get = () => axios.get(baseUrl).then((response) => response.data);
+
+test("waits for Retry-After before retrying a 429", async () => {
+  let calls = 0;
+  reset((res) =>
+    calls++ === 0 ? reply(res, 429, { "Retry-After": "1" }) : reply(res, 200)
+  );
+  const scheduler = new RequestScheduler("retry-after", { baseDelayMs: 10 });
+
+  const started = Date.now();
+  assert.deepEqual(await scheduler.schedule(get), { status: 200 });
+
+  assert.ok(Date.now() - started >= 1000, "retried before Retry-After");
+  assert.equal(requests, 2);
+  const stats = scheduler.getStats();
+  assert.equal(stats.rateLimited, 1);
+  assert.equal(stats.retries, 1);
+});
+
+test("holds back queued requests while rate limited", async () => {
+  const times: number[] = [];
+  reset((res) => {
+    times.push(Date.now());
+    if (times.length === 1) {
+      reply(res, 429, { "Retry-After": "1" });
+    } else {
+      reply(res, 200);
+    }
+  });
+  const scheduler = new RequestScheduler("pause", { baseDelayMs: 10 });
+
+  const first = scheduler.schedule(get);
+  // Scheduled after the 429 arrived, with free slots and tokens left
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  const second = scheduler.schedule(get);
+  await Promise.all([first, second]);
+
+  assert.equal(times.length, 3);
+  assert.ok(
+    times[1] - times[0] >= 1000 && times[2] - times[0] >= 1000,
+    "a request was sent during the pause"
+  );
+});
+
+test("reports a 429 whose Retry-After exceeds the longest wait", async () => {
+  reset((res) => reply(res, 429, { "Retry-After": "120" }));
+  const scheduler = new RequestScheduler("too-long", { maxDelayMs: 5000 });
+
+  await assert.rejects(scheduler.schedule(get), (error: unknown) => {
+    assert.ok(axios.isAxiosError(error));
+    assert.equal(error.response?.status, 429);
+    return true;
+  });
+  assert.equal(requests, 1);
+  assert.equal(scheduler.getStats().failures, 1);
+});
+
+test("backs off server errors and gives up after maxRetries", async () => {
+  reset((res) => reply(res, 503));
+  const scheduler = new RequestScheduler("server-error", {
+    maxRetries: 2,
+    baseDelayMs: 20,
+  });
+
+  await assert.rejects(scheduler.schedule(get), /status code 503/);
+  assert.equal(requests, 3);
+  assert.equal(scheduler.getStats().retries, 2);
+});
+
+test("does not retry client errors", async () => {
+  reset((res) => reply(res, 404));
+  const scheduler = new RequestScheduler("client-error", { baseDelayMs: 10 });
+
+  await assert.rejects(scheduler.schedule(get), /status code 404/);
+  assert.equal(requests, 1);
+});
+
+test("keeps at most maxConcurrent requests in flight", async () => {
+  let peak = 0;
+  reset((res, active) => {
+    peak = Math.max(peak, active);
+    setTimeout(() => reply(res, 200), 30);
+  });
+  const scheduler = new RequestScheduler("concurrency", {
+    maxConcurrent: 2,
+    burst: 10,
+    requestsPerMinute: 6000,
+  });
+
+  const results = await Promise.all(
+    Array.from({ length: 8 }, () => scheduler.schedule(get))
+  );
+
+  assert.equal(results.length, 8);
+  assert.equal(requests, 8);
+  assert.equal(peak, 2);
+  const { active, queued } = scheduler.getStats();
+  assert.deepEqual({ active, queued }, { active: 0, queued: 0 });
+});
+
+test("spaces requests beyond the burst by the sustained rate", async () => {
+  const times: number[] = [];
+  reset((res) => {
+    times.push(Date.now());
+    reply(res, 200);
+  });
+  // One token every 100ms after a burst of 2
+  const scheduler = new RequestScheduler("rate", {
+    requestsPerMinute: 600,
+    burst: 2,
+  });
+
+  await Promise.all(Array.from({ length: 4 }, () => scheduler.schedule(get)));
+
+  assert.equal(times.length, 4);
+  assert.ok(times[3] - times[0] >= 180, "burst was exceeded");
+});